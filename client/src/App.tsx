@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { queryClient } from "./lib/queryClient";
 import { Toaster } from "@/components/ui/toaster";
@@ -7,13 +7,23 @@ import { ThemeProvider } from "@/components/theme-provider";
 import { Header } from "@/components/header";
 import { BottomNavigation } from "@/components/bottom-navigation";
 import { ExpenseForm } from "@/components/expense-form";
+import { FloatingActionButton } from "@/components/floating-action-button";
 import { Home } from "@/pages/home";
 import { Expenses } from "@/pages/expenses";
 import { Charts } from "@/pages/charts";
 import { Budget } from "@/pages/budget";
+import { Accounts } from "@/pages/accounts";
+import { Groups } from "@/pages/groups";
 import { Settings } from "@/pages/settings";
 import DuesReceivables from "./pages/duesreceivables"; 
 import { Expense } from "@shared/schema";
+import { startSync } from "@/lib/sync";
+import { materializeRecurringExpenses } from "@/lib/recurring";
+import { startNotificationChecks } from "@/lib/notifications";
+import { startAutoBackups } from "@/lib/snapshots";
+import { purgeTrash } from "@/lib/trash";
+import { addMissingAccounts } from "@/lib/accounts";
+import { alignRatesToBase } from "@/lib/currency";
 
 function App() {
   const [activeTab, setActiveTab] = useState('home');
@@ -21,6 +31,30 @@ function App() {
   const [selectedCategory, setSelectedCategory] = useState<string | undefined>(undefined);
   const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
 
+  useEffect(() => startSync(), []);
+  useEffect(() => startNotificationChecks(), []);
+  useEffect(() => startAutoBackups(), []);
+
+  // Catch up on recurring expenses that fell due while the app was closed
+  useEffect(() => {
+    materializeRecurringExpenses().catch((error) => console.error('Failed to generate recurring expenses:', error));
+  }, []);
+
+  // Accounts named on older or imported records get an entry of their own
+  useEffect(() => {
+    addMissingAccounts().catch((error) => console.error('Failed to add missing accounts:', error));
+  }, []);
+
+  // Rates saved before the base currency changed elsewhere are re-quoted
+  useEffect(() => {
+    alignRatesToBase().catch((error) => console.error('Failed to align exchange rates:', error));
+  }, []);
+
+  // Drop trashed items past their retention
+  useEffect(() => {
+    purgeTrash().catch((error) => console.error('Failed to purge trash:', error));
+  }, []);
+
   const handleOpenExpenseForm = (payload?: string | any) => {
     if (payload && typeof payload === 'object' && payload.id) {
       // Editing an existing expense
@@ -56,10 +90,14 @@ function App() {
         return <Expenses onOpenExpenseForm={handleOpenExpenseForm} />;
       case 'debts':
         return <DuesReceivables />;
+      case 'groups':
+        return <Groups />;
       case 'charts':
         return <Charts />;
       case 'budget':
         return <Budget />;
+      case 'accounts':
+        return <Accounts />;
       case 'settings':
         return <Settings />;
       default:
@@ -79,6 +117,11 @@ function App() {
             </main>
             
             <BottomNavigation activeTab={activeTab} onTabChange={setActiveTab} />
+
+            {/* Home has its own quick-add, Dues, Groups and Settings have no expenses to add */}
+            {['expenses', 'charts', 'budget', 'accounts'].includes(activeTab) && (
+              <FloatingActionButton onClick={() => handleOpenExpenseForm()} />
+            )}
        
             <ExpenseForm
               open={isExpenseFormOpen} 
@@ -0,0 +1,85 @@
+import { useEffect, useMemo, useState } from 'react';
+import { FileText, X, ExternalLink } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ExpenseAttachment } from '@/lib/db';
+import { isPdf } from '@/lib/attachments';
+
+interface AttachmentGalleryProps {
+  attachments: ExpenseAttachment[];
+  onRemove?: (id: string) => void;
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+export function AttachmentGallery({ attachments, onRemove }: AttachmentGalleryProps) {
+  const [previewId, setPreviewId] = useState<string | null>(null);
+
+  // Object URLs hold the Blob in memory until revoked
+  const urls = useMemo(
+    () => new Map(attachments.map((a) => [a.id, URL.createObjectURL(a.blob)])),
+    [attachments]
+  );
+  useEffect(() => () => urls.forEach((url) => URL.revokeObjectURL(url)), [urls]);
+
+  const preview = attachments.find((a) => a.id === previewId);
+
+  if (attachments.length === 0) return null;
+
+  return (
+    <>
+      <div className="mt-2 grid grid-cols-3 gap-2">
+        {attachments.map((attachment) => (
+          <div key={attachment.id} className="relative">
+            <button
+              type="button"
+              onClick={(e) => { e.stopPropagation(); setPreviewId(attachment.id); }}
+              className="flex h-20 w-full flex-col items-center justify-center gap-1 overflow-hidden rounded-lg border border-border bg-slate-100 dark:bg-gray-800 text-xs text-muted-foreground transition hover:border-primary hover:bg-primary/5"
+              title={`${attachment.name} (${formatSize(attachment.size)})`}
+            >
+              {isPdf(attachment) ? (
+                <>
+                  <FileText className="h-6 w-6 text-primary" />
+                  <span className="px-1 truncate max-w-full">{attachment.name}</span>
+                </>
+              ) : (
+                <img src={urls.get(attachment.id)} className="h-full w-full object-cover" alt={attachment.name} />
+              )}
+            </button>
+            {onRemove && (
+              <Button type="button" variant="destructive" size="icon" className="absolute top-1 right-1 h-6 w-6" onClick={() => onRemove(attachment.id)}>
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <Dialog open={!!preview} onOpenChange={(open) => !open && setPreviewId(null)}>
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle className="truncate pr-6">{preview?.name}</DialogTitle>
+          </DialogHeader>
+          {preview && (
+            <div className="flex-1 overflow-auto">
+              {isPdf(preview) ? (
+                <iframe src={urls.get(preview.id)} title={preview.name} className="w-full h-[65vh] rounded-md border" />
+              ) : (
+                <img src={urls.get(preview.id)} alt={preview.name} className="mx-auto max-h-[65vh] object-contain rounded-md" />
+              )}
+            </div>
+          )}
+          {preview && (
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>{formatSize(preview.size)}</span>
+              <Button variant="outline" size="sm" onClick={() => window.open(urls.get(preview.id), '_blank')}>
+                <ExternalLink className="w-4 h-4 mr-2" />Open
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
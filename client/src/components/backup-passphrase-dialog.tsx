@@ -0,0 +1,104 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { MIN_PASSPHRASE_LENGTH, WrongPassphraseError } from '@/lib/backup-crypto';
+
+interface BackupPassphraseDialogProps {
+  // 'encrypt' asks for the passphrase twice; 'decrypt' once
+  mode: 'encrypt' | 'decrypt' | null;
+  onSubmit: (passphrase: string) => Promise<void>;
+  onClose: () => void;
+}
+
+export function BackupPassphraseDialog({ mode, onSubmit, onClose }: BackupPassphraseDialogProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    setPassphrase('');
+    setConfirmation('');
+    setError('');
+  }, [mode]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (mode === 'encrypt') {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters`);
+        return;
+      }
+      if (passphrase !== confirmation) {
+        setError('The passphrases do not match');
+        return;
+      }
+    }
+
+    setIsWorking(true);
+    setError('');
+    try {
+      await onSubmit(passphrase);
+    } catch (err) {
+      if (!(err instanceof WrongPassphraseError)) console.error('Failed to process encrypted backup:', err);
+      setError(err instanceof WrongPassphraseError ? err.message : 'Something went wrong, please try again');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!mode} onOpenChange={(open) => !open && !isWorking && onClose()}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{mode === 'encrypt' ? 'Encrypt Backup' : 'Encrypted Backup'}</DialogTitle>
+          <DialogDescription>
+            {mode === 'encrypt'
+              ? 'The backup can only be opened with this passphrase. It cannot be recovered if you forget it.'
+              : 'Enter the passphrase this backup was exported with.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="backup-passphrase">Passphrase</Label>
+            <Input
+              id="backup-passphrase"
+              type="password"
+              autoComplete={mode === 'encrypt' ? 'new-password' : 'current-password'}
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              autoFocus
+            />
+          </div>
+
+          {mode === 'encrypt' && (
+            <div className="space-y-2">
+              <Label htmlFor="backup-passphrase-confirm">Confirm passphrase</Label>
+              <Input
+                id="backup-passphrase-confirm"
+                type="password"
+                autoComplete="new-password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+              />
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-500">{error}</p>}
+
+          <div className="flex space-x-3 pt-2">
+            <Button type="button" variant="outline" className="flex-1" onClick={onClose} disabled={isWorking}>
+              Cancel
+            </Button>
+            <Button type="submit" className="flex-1" disabled={!passphrase || isWorking}>
+              {isWorking ? (mode === 'encrypt' ? 'Encrypting...' : 'Decrypting...') : (mode === 'encrypt' ? 'Export' : 'Unlock')}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,4 @@
-import { Home, List, PieChart, Wallet, Settings, ArrowRightLeft } from 'lucide-react';
+import { Home, List, PieChart, Wallet, Settings, ArrowRightLeft, Landmark, Users } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface BottomNavigationProps {
@@ -12,8 +12,10 @@ export function BottomNavigation({ activeTab, onTabChange }: BottomNavigationPro
     { id: 'expenses', label: 'Expenses', icon: List },
     // NEW: Added the Debts/Dues tab right in the middle
     { id: 'debts', label: 'Dues', icon: ArrowRightLeft }, 
+    { id: 'groups', label: 'Groups', icon: Users },
     { id: 'charts', label: 'Charts', icon: PieChart },
     { id: 'budget', label: 'Budget', icon: Wallet },
+    { id: 'accounts', label: 'Accounts', icon: Landmark },
     { id: 'settings', label: 'Settings', icon: Settings },
   ];
 
@@ -0,0 +1,168 @@
+import { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ArrowRightLeft, PieChart } from 'lucide-react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import db from '@/lib/db';
+import { Budget } from '@shared/schema';
+import { useBudgetProgress, useMoveBudgetMoney } from '@/hooks/use-budgets';
+import { useToast } from '@/hooks/use-toast';
+import { budgetCategoryIds } from '@/lib/budget-scope';
+import { getIconComponent } from '@/components/category-selector';
+
+interface BudgetEnvelopesProps {
+  budgets: Budget[];
+  formatAmount: (amount: number) => string;
+}
+
+// Envelope view: what is left in each active budget right now, with a way to
+// shift money from one envelope to another mid-period.
+export function BudgetEnvelopes({ budgets, formatAmount }: BudgetEnvelopesProps) {
+  const [moveFrom, setMoveFrom] = useState<{ id: string; left: number } | null>(null);
+  const active = budgets.filter(budget => budget.isActive !== false);
+
+  if (active.length === 0) {
+    return (
+      <Card>
+        <CardContent className="p-8 text-center text-gray-500 dark:text-gray-400">
+          No active budgets to show as envelopes
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-3">
+        {active.map(budget => (
+          <Envelope key={budget.id} budget={budget} formatAmount={formatAmount} onMove={(left) => setMoveFrom({ id: budget.id, left })} />
+        ))}
+      </div>
+
+      <MoveMoneyDialog
+        budgets={active}
+        fromId={moveFrom?.id ?? null}
+        fromLeft={moveFrom?.left ?? 0}
+        formatAmount={formatAmount}
+        onClose={() => setMoveFrom(null)}
+      />
+    </>
+  );
+}
+
+function Envelope({ budget, formatAmount, onMove }: { budget: Budget; formatAmount: (amount: number) => string; onMove: (left: number) => void }) {
+  const progress = useBudgetProgress(budget);
+  const categories = useLiveQuery(() => db.categories.toArray()) || [];
+  const categoryIds = budgetCategoryIds(budget);
+  const category = categoryIds?.length === 1 ? categories.find(cat => cat.id === categoryIds[0]) : undefined;
+  const left = progress.available - progress.spent;
+
+  return (
+    <Card className={left < 0 ? 'border-red-300 dark:border-red-900' : undefined}>
+      <CardContent className="p-4 space-y-2">
+        <div className="flex items-center gap-2">
+          {category ? getIconComponent(category.icon, "w-4 h-4") : <PieChart className="w-4 h-4" />}
+          <span className="font-medium text-sm truncate">{budget.name}</span>
+        </div>
+        <p className={`text-xl font-bold ${left < 0 ? 'text-red-500' : 'text-gray-900 dark:text-gray-100'}`}>
+          {formatAmount(Math.round(left))}
+        </p>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          of {formatAmount(Math.round(progress.available))} · {progress.daysRemaining}d left
+        </p>
+        <Button variant="outline" size="sm" className="w-full h-8" onClick={() => onMove(left)} disabled={left <= 0}>
+          <ArrowRightLeft className="w-3.5 h-3.5 mr-1" /> Move
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface MoveMoneyDialogProps {
+  budgets: Budget[];
+  fromId: string | null;
+  // What is still unspent in the source envelope this period
+  fromLeft: number;
+  formatAmount: (amount: number) => string;
+  onClose: () => void;
+}
+
+function MoveMoneyDialog({ budgets, fromId, fromLeft, formatAmount, onClose }: MoveMoneyDialogProps) {
+  const [toId, setToId] = useState('');
+  const [amount, setAmount] = useState('');
+  const moveMutation = useMoveBudgetMoney();
+  const { toast } = useToast();
+
+  const from = budgets.find(budget => budget.id === fromId);
+
+  const close = () => {
+    setToId('');
+    setAmount('');
+    onClose();
+  };
+
+  const handleMove = async () => {
+    const value = Number(amount);
+    if (!from || !toId || !(value > 0)) {
+      toast({ title: "Pick a budget and enter an amount", variant: "destructive" });
+      return;
+    }
+    if (value > fromLeft) {
+      toast({ title: `Only ${formatAmount(Math.floor(fromLeft))} left in ${from.name}`, variant: "destructive" });
+      return;
+    }
+    try {
+      await moveMutation.mutateAsync({ fromId: from.id, toId, amount: value });
+      close();
+    } catch (error) {
+      console.error('Failed to move money:', error);
+    }
+  };
+
+  return (
+    <Dialog open={!!from} onOpenChange={(open) => !open && close()}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Move Money</DialogTitle>
+          <DialogDescription>
+            Up to {formatAmount(Math.floor(fromLeft))} from {from?.name} to another envelope for this period.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>To</Label>
+            <Select value={toId} onValueChange={setToId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select budget" />
+              </SelectTrigger>
+              <SelectContent>
+                {budgets.filter(budget => budget.id !== fromId).map(budget => (
+                  <SelectItem key={budget.id} value={budget.id}>{budget.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Amount</Label>
+            <Input type="number" min="0" max={fromLeft} step="0.01" placeholder={formatAmount(0)} value={amount} onChange={(e) => setAmount(e.target.value)} />
+          </div>
+
+          <div className="flex space-x-3 pt-2">
+            <Button type="button" variant="outline" className="flex-1" onClick={close}>
+              Cancel
+            </Button>
+            <Button type="button" className="flex-1" onClick={handleMove} disabled={moveMutation.isPending}>
+              {moveMutation.isPending ? 'Moving...' : 'Move'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
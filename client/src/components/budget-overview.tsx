@@ -3,6 +3,8 @@ import { Progress } from '@/components/ui/progress';
 import { PiggyBank } from 'lucide-react';
 import { useBudgets, useBudgetProgress } from '@/hooks/use-budgets';
 import { useSettings } from '@/hooks/use-settings';
+import { PERIOD_NOUNS } from '@/lib/budget-periods';
+import type { BudgetPeriod } from '@shared/schema';
 
 export function BudgetOverview() {
   const budgets = useBudgets();
@@ -43,32 +45,29 @@ export function BudgetOverview() {
       </CardHeader>
       <CardContent>
         <div className="space-y-3">
-          {budgets.slice(0, 3).map((budget) => {
-            const progress = useBudgetProgress(budget);
-            
-            return (
-              <BudgetItem
-                key={budget.id}
-                budget={budget}
-                progress={progress}
-                currency={currency}
-                formatAmount={formatAmount}
-              />
-            );
-          })}
+          {budgets.slice(0, 3).map((budget) => (
+            <BudgetItem
+              key={budget.id}
+              budget={budget}
+              currency={currency}
+              formatAmount={formatAmount}
+            />
+          ))}
         </div>
       </CardContent>
     </Card>
   );
 }
 
-function BudgetItem({ budget, progress, currency, formatAmount }: any) {
+function BudgetItem({ budget, currency, formatAmount }: any) {
+  const progress = useBudgetProgress(budget);
+
   return (
     <div className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
       <div className="flex justify-between items-center mb-2">
         <span className="font-medium text-sm">{budget.name}</span>
         <span className="text-sm">
-          {formatAmount(progress.spent)} / {formatAmount(budget.amount)}
+          {formatAmount(progress.spent)} / {formatAmount(progress.available)}
         </span>
       </div>
       <Progress 
@@ -84,8 +83,8 @@ function BudgetItem({ budget, progress, currency, formatAmount }: any) {
           : 'text-gray-500 dark:text-gray-400'
       }`}>
         {progress.isOverBudget 
-          ? `${currency}${(progress.spent - budget.amount).toLocaleString()} over budget!`
-          : `${formatAmount(progress.remaining)} remaining this ${budget.period.slice(0, -2)}`
+          ? `${currency}${(progress.spent - progress.available).toLocaleString()} over budget!`
+          : `${formatAmount(progress.remaining)} remaining this ${PERIOD_NOUNS[budget.period as BudgetPeriod]}`
         }
       </p>
     </div>
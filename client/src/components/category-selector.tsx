@@ -1,8 +1,9 @@
 import { useLiveQuery } from 'dexie-react-hooks';
 import db from '@/lib/db';
-import { getCategoryColor, guessCategoryProperties } from '@/lib/categories';
+import { categoryType, getCategoryColor, guessCategoryProperties } from '@/lib/categories';
+import type { CategoryType } from '@shared/schema';
 import { cn } from '@/lib/utils';
-import { ShoppingCart, Utensils, Car, FileText, Tv, Heart, ShoppingBag, Plane, TrendingUp, Plus, Tag, LucideIcon } from 'lucide-react';
+import { ShoppingCart, Utensils, Car, FileText, Tv, Heart, ShoppingBag, Plane, TrendingUp, Plus, Tag, Briefcase, RotateCcw, Percent, Coins, Wallet, LucideIcon } from 'lucide-react';
 import { useState } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -16,6 +17,7 @@ interface CategorySelectorProps {
   onCategorySelect: (categoryId: string) => void;
   variant?: 'pill' | 'dropdown';
   limit?: number;
+  type?: CategoryType; // Only categories of this kind are offered
 }
 
 export const iconMap: Record<string, LucideIcon> = {
@@ -29,6 +31,11 @@ export const iconMap: Record<string, LucideIcon> = {
   'plane': Plane,
   'trending-up': TrendingUp,
   'tag': Tag,
+  'briefcase': Briefcase,
+  'rotate-ccw': RotateCcw,
+  'percent': Percent,
+  'coins': Coins,
+  'wallet': Wallet,
 };
 
 export function getIconComponent(iconName: string, className?: string) {
@@ -41,11 +48,13 @@ export function getIconComponent(iconName: string, className?: string) {
 export function AddCategoryDialog({ 
   open, 
   onOpenChange, 
-  onAdded 
+  onAdded,
+  type = 'expense',
 }: { 
   open: boolean, 
   onOpenChange: (open: boolean) => void, 
-  onAdded?: (id: string) => void 
+  onAdded?: (id: string) => void,
+  type?: CategoryType,
 }) {
   const [name, setName] = useState('');
   const { toast } = useToast();
@@ -62,6 +71,7 @@ export function AddCategoryDialog({
         name: name.trim(),
         icon,
         color,
+        type,
         isDefault: false,
         updatedAt: new Date(),
       });
@@ -107,10 +117,11 @@ export function CategorySelector({
   selectedCategory, 
   onCategorySelect, 
   variant = 'dropdown',
-  limit 
+  limit,
+  type = 'expense',
 }: CategorySelectorProps) {
-  const categories = useLiveQuery(() => db.categories.toArray()) || [];
-  console.log(categories); 
+  const categories = (useLiveQuery(() => db.categories.toArray()) || [])
+    .filter((category) => categoryType(category) === type);
   const [isAddOpen, setIsAddOpen] = useState(false);
 
   // Home Page Quick Access Variant
@@ -186,7 +197,7 @@ export function CategorySelector({
         </SelectContent>
       </Select>
       
-      <AddCategoryDialog open={isAddOpen} onOpenChange={setIsAddOpen} onAdded={onCategorySelect} />
+      <AddCategoryDialog open={isAddOpen} onOpenChange={setIsAddOpen} onAdded={onCategorySelect} type={type} />
     </>
   );
 }
\ No newline at end of file
@@ -0,0 +1,108 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Merge } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { useLiveQuery } from 'dexie-react-hooks';
+import db from '@/lib/db';
+import { useToast } from '@/hooks/use-toast';
+import { useSettings } from '@/hooks/use-settings';
+import { DuplicatePair, mergeDuplicate } from '@/lib/duplicates';
+import { Expense } from '@shared/schema';
+
+interface DuplicateReviewDialogProps {
+  pairs: DuplicatePair[];
+  onClose: () => void;
+}
+
+// Shown after an import when some of the new expenses look like ones already logged
+export function DuplicateReviewDialog({ pairs, onClose }: DuplicateReviewDialogProps) {
+  const { toast } = useToast();
+  const settings = useSettings();
+  const categories = useLiveQuery(() => db.categories.toArray()) || [];
+  const [pending, setPending] = useState<DuplicatePair[]>([]);
+  const currency = settings?.currency || '₹';
+
+  useEffect(() => setPending(pairs), [pairs]);
+
+  const resolve = (pair: DuplicatePair) => {
+    const left = pending.filter((p) => p !== pair);
+    setPending(left);
+    if (left.length === 0) onClose();
+  };
+
+  const merge = async (pair: DuplicatePair) => {
+    try {
+      await mergeDuplicate(pair.keep.id, pair.duplicate.id);
+      resolve(pair);
+    } catch (error) {
+      console.error('Failed to merge duplicate:', error);
+      toast({ title: "Error", description: "Failed to merge expenses.", variant: "destructive" });
+    }
+  };
+
+  const mergeAll = async () => {
+    try {
+      for (const pair of pending) await mergeDuplicate(pair.keep.id, pair.duplicate.id);
+      toast({ title: "Success", description: `${pending.length} duplicate(s) merged.` });
+      setPending([]);
+      onClose();
+    } catch (error) {
+      console.error('Failed to merge duplicates:', error);
+      toast({ title: "Error", description: "Failed to merge expenses.", variant: "destructive" });
+    }
+  };
+
+  const describe = (expense: Expense) => {
+    const category = categories.find((c) => c.id === expense.category);
+    return (
+      <div className="min-w-0 flex-1 p-2 rounded-md bg-gray-50 dark:bg-gray-800">
+        <p className="text-sm font-medium truncate">{expense.items || expense.where || category?.name || 'Expense'}</p>
+        <p className="text-xs text-muted-foreground truncate">
+          {category?.icon} {expense.time} · {expense.where || expense.account}
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={pairs.length > 0} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg max-h-[85vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Review Possible Duplicates</DialogTitle>
+          <DialogDescription>
+            Merging keeps the older expense, fills in its missing details and deletes the copy.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto pr-2 space-y-3">
+          {pending.map((pair) => (
+            <div key={`${pair.keep.id}:${pair.duplicate.id}`} className="p-3 border rounded-lg dark:border-gray-800 space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-semibold">{currency}{pair.keep.amount.toLocaleString()}</span>
+                <span className="text-xs text-muted-foreground">
+                  {format(parseISO(pair.keep.date), 'MMM d, yyyy')} · {pair.reasons.join(', ')}
+                </span>
+              </div>
+              <div className="flex gap-2">
+                {describe(pair.keep)}
+                {describe(pair.duplicate)}
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" size="sm" onClick={() => resolve(pair)}>Keep Both</Button>
+                <Button size="sm" onClick={() => merge(pair)}>
+                  <Merge className="w-3.5 h-3.5 mr-1" /> Merge
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex space-x-3 border-t pt-3 dark:border-gray-800">
+          <Button variant="outline" className="flex-1" onClick={onClose}>Keep All</Button>
+          <Button className="flex-1" onClick={mergeAll} disabled={pending.length === 0}>Merge All ({pending.length})</Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
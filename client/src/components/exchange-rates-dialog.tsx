@@ -0,0 +1,122 @@
+import type { ChangeEvent } from 'react';
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Trash2, Plus, Upload } from 'lucide-react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import db from '@/lib/db';
+import { useToast } from '@/hooks/use-toast';
+import { useBaseCurrency } from '@/hooks/use-settings';
+import { isCurrencyCode, saveRate, parseRatesCsv, importRates } from '@/lib/currency';
+
+// The local rate table used to convert foreign-currency expenses
+export function ExchangeRatesDialog({ children }: { children: React.ReactNode }) {
+  const rates = useLiveQuery(() => db.exchangeRates.orderBy('code').toArray()) || [];
+  const baseCurrency = useBaseCurrency();
+  const { toast } = useToast();
+
+  const [newCode, setNewCode] = useState('');
+  const [newRate, setNewRate] = useState('');
+
+  const handleAdd = async () => {
+    const code = newCode.trim().toUpperCase();
+    const rate = Number(newRate);
+    if (!isCurrencyCode(code) || !(rate > 0) || code === baseCurrency) {
+      toast({ title: "Enter a 3-letter code and a positive rate", variant: "destructive" });
+      return;
+    }
+    await saveRate(code, rate);
+    setNewCode('');
+    setNewRate('');
+  };
+
+  const handleRateChange = async (code: string, value: string) => {
+    const rate = Number(value);
+    if (rate > 0) await saveRate(code, rate);
+  };
+
+  const handleImport = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = async (e) => {
+      try {
+        const { rates: parsed, skipped } = parseRatesCsv(e.target?.result as string);
+        const usable = parsed.filter(r => r.code !== baseCurrency);
+        await importRates(usable);
+        toast({
+          title: "Rates imported",
+          description: `${usable.length} rate(s) saved${skipped.length ? `, skipped line(s) ${skipped.join(', ')}` : ''}.`,
+        });
+      } catch (error) {
+        console.error(error);
+        toast({ title: "Failed to import rates", variant: "destructive" });
+      }
+    };
+    reader.readAsText(file);
+    event.target.value = '';
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md max-h-[85vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Exchange Rates</DialogTitle>
+          <DialogDescription>
+            How many {baseCurrency} one unit of each currency is worth.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto pr-2 space-y-2 mt-2 pb-2">
+          {rates.length === 0 && (
+            <p className="text-center text-sm text-muted-foreground py-6">No rates yet.</p>
+          )}
+          {rates.map((rate) => (
+            <div key={rate.code} className="flex items-center gap-2 p-2 border rounded-lg dark:border-gray-800">
+              <span className="w-24 text-sm font-medium">1 {rate.code} =</span>
+              <Input
+                type="number"
+                step="any"
+                defaultValue={rate.rate}
+                className="h-8"
+                onBlur={(e) => handleRateChange(rate.code, e.target.value)}
+              />
+              <span className="text-sm text-muted-foreground">{baseCurrency}</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => db.exchangeRates.delete(rate.code)}
+                className="h-8 w-8 shrink-0 text-red-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-950/30"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-2 border-t pt-4 dark:border-gray-800">
+          <Input value={newCode} onChange={(e) => setNewCode(e.target.value)} placeholder="USD" maxLength={3} className="h-9 w-20 uppercase" />
+          <Input value={newRate} onChange={(e) => setNewRate(e.target.value)} placeholder={`Rate in ${baseCurrency}`} type="number" step="any" className="h-9" />
+          <Button size="icon" className="h-9 w-9 shrink-0" onClick={handleAdd}>
+            <Plus className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <div>
+          <Label htmlFor="rates-import" className="cursor-pointer">
+            <div className="flex items-center justify-center gap-2 w-full h-10 rounded-md border border-dashed text-sm text-muted-foreground hover:bg-gray-50 dark:hover:bg-gray-800">
+              <Upload className="w-4 h-4" /> Import CSV (code,rate)
+            </div>
+          </Label>
+          <input id="rates-import" type="file" accept=".csv,text/csv" className="hidden" onChange={handleImport} />
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,10 +1,12 @@
 import { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { PieChart, Pie, Cell, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
-import { useExpenses } from '@/hooks/use-expenses';
+import { isIncome, isSpending, useExpenses, useTransactions } from '@/hooks/use-expenses';
+import { useSettings } from '@/hooks/use-settings';
+import { toBaseAmount } from '@/lib/currency';
 import { useLiveQuery } from 'dexie-react-hooks';
 import db from '@/lib/db';
-import { startOfDay, endOfDay, startOfWeek, format, parseISO, eachDayOfInterval, endOfWeek, startOfMonth, endOfMonth, startOfYear, endOfYear } from 'date-fns';
+import { startOfDay, endOfDay, startOfWeek, format, parseISO, eachDayOfInterval, eachMonthOfInterval, differenceInCalendarDays, endOfWeek, startOfMonth, endOfMonth, startOfYear, endOfYear } from 'date-fns';
 import { DateRange } from 'react-day-picker';
 import { DateRangePicker } from './date-range-picker';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -14,7 +16,10 @@ const COLORS = ['#22c55e', '#8b5cf6', '#3b82f6', '#ef4444', '#f59e0b', '#06b6d4'
 
 export function ExpenseCharts() {
   const expenses = useExpenses();
+  const transactions = useTransactions();
   const categories = useLiveQuery(() => db.categories.toArray()) || [];
+  const settings = useSettings();
+  const currency = settings?.currency || '₹';
   const [aggregation, setAggregation] = useState<'today' | 'week' | 'month' | 'year' | 'custom'>('month');
   const [filterType, setFilterType] = useState<'category' | 'account' | 'paymentMethod'>('category');
   const [dateRange, setDateRange] = useState<DateRange | undefined>();
@@ -56,7 +61,7 @@ export function ExpenseCharts() {
     if (!acc[key]) {
       acc[key] = { name: key, value: 0 };
     }
-    acc[key].value += expense.amount;
+    acc[key].value += toBaseAmount(expense);
     return acc;
   }, {} as Record<string, { name: string, value: number }>);
 
@@ -71,13 +76,37 @@ export function ExpenseCharts() {
   const barChartData = eachDayOfInterval(interval).map((day) => {
     const dayStr = format(day, 'yyyy-MM-dd');
     const dayExpenses = filteredExpenses.filter(expense => expense.date === dayStr);
-    const total = dayExpenses.reduce((sum, expense) => sum + expense.amount, 0);
+    const total = dayExpenses.reduce((sum, expense) => sum + toBaseAmount(expense), 0);
     return {
       name: format(day, 'MMM d'),
       amount: total,
     };
   });
 
+  // Income against spending, by day for short ranges and by month for long ones
+  const byMonth = differenceInCalendarDays(interval.end, interval.start) > 62;
+  const bucketOf = (date: string) => byMonth ? date.slice(0, 7) : date.slice(0, 10);
+  const cashFlowTotals = transactions.reduce((acc, transaction) => {
+    const date = parseISO(transaction.date);
+    if (date < interval.start || date > interval.end) return acc;
+    const key = bucketOf(transaction.date);
+    if (!acc[key]) {
+      acc[key] = { income: 0, expenses: 0 };
+    }
+    if (isIncome(transaction)) acc[key].income += toBaseAmount(transaction);
+    else if (isSpending(transaction)) acc[key].expenses += toBaseAmount(transaction);
+    return acc;
+  }, {} as Record<string, { income: number, expenses: number }>);
+
+  const cashFlowData = (byMonth ? eachMonthOfInterval(interval) : eachDayOfInterval(interval)).map((day) => {
+    const totals = cashFlowTotals[format(day, byMonth ? 'yyyy-MM' : 'yyyy-MM-dd')];
+    return {
+      name: format(day, byMonth ? 'MMM yy' : 'MMM d'),
+      income: totals?.income ?? 0,
+      expenses: totals?.expenses ?? 0,
+    };
+  });
+
   return (
     <div className="space-y-6 p-4">
       <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
@@ -132,7 +161,7 @@ export function ExpenseCharts() {
                     <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
                   ))}
                 </Pie>
-                <Tooltip formatter={(value: any) => `₹${Number(value).toLocaleString()}`} />
+                <Tooltip formatter={(value: any) => `${currency}${Number(value).toLocaleString()}`} />
                 <Legend />
               </PieChart>
             </ResponsiveContainer>
@@ -157,7 +186,7 @@ export function ExpenseCharts() {
                 <CartesianGrid strokeDasharray="3 3" />
                 <XAxis dataKey="name" tick={{ fontSize: 12 }} />
                 <YAxis tick={{ fontSize: 12 }} />
-                <Tooltip formatter={(value: any) => `₹${Number(value).toLocaleString()}`} />
+                <Tooltip formatter={(value: any) => `${currency}${Number(value).toLocaleString()}`} />
                 <Bar dataKey="amount" fill="#8b5cf6" />
               </BarChart>
             </ResponsiveContainer>
@@ -168,6 +197,33 @@ export function ExpenseCharts() {
           )}
         </CardContent>
       </Card>
+
+      <Card className="bg-white dark:bg-gray-800 shadow-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center text-base">
+            Income vs Expenses
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-4">
+          {cashFlowData.some(d => d.income > 0 || d.expenses > 0) ? (
+            <ResponsiveContainer width="100%" height={300}>
+              <BarChart data={cashFlowData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="name" tick={{ fontSize: 12 }} />
+                <YAxis tick={{ fontSize: 12 }} />
+                <Tooltip formatter={(value: any) => `${currency}${Number(value).toLocaleString()}`} />
+                <Legend />
+                <Bar dataKey="income" name="Income" fill="#22c55e" />
+                <Bar dataKey="expenses" name="Expenses" fill="#ef4444" />
+              </BarChart>
+            </ResponsiveContainer>
+          ) : (
+            <div className="h-48 flex items-center justify-center text-gray-500 dark:text-gray-400">
+              <p>No data for selected range</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
@@ -2,25 +2,45 @@ import { useState, useEffect, useMemo } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { X, Upload, Loader2, Plus, FileText } from 'lucide-react';
+import { Upload, Loader2, Plus, Zap, AlertTriangle, UserPlus, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/hooks/use-toast';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { CategorySelector } from './category-selector';
 import { DatePicker } from './date-picker';
+import { AttachmentGallery } from './attachment-gallery';
 import { useAddExpense, useUpdateExpense } from '@/hooks/use-expenses';
-import { expenseFormSchema, Expense } from '@shared/schema';
+import { useAccounts } from '@/hooks/use-accounts';
+import { TRANSFER_CATEGORY, TRANSFER_METHOD, createAccount, guessAccountType } from '@/lib/accounts';
+import { useSaveTemplate } from '@/hooks/use-templates';
+import { materializeRecurringExpenses } from '@/lib/recurring';
+import { CURRENCIES, getRate, saveRate, formatMoney } from '@/lib/currency';
+import { useBaseCurrency } from '@/hooks/use-settings';
+import { MAX_ATTACHMENT_BYTES, isAcceptedFile, fromFile, getAttachments, saveAttachments } from '@/lib/attachments';
+import { DuplicateMatch, findDuplicatesOf } from '@/lib/duplicates';
+import { SPLIT_METHOD_LABELS, computeSplit, prepareSplit, saveSplitReceivables } from '@/lib/splits';
+import { expenseFormSchema, Expense, Recurrence, SPLIT_METHODS, SplitMethod, TRANSACTION_TYPES, TransactionType } from '@shared/schema';
 import { format, parseISO } from 'date-fns';
 import { useLiveQuery } from 'dexie-react-hooks';
-import db from '@/lib/db';
+import db, { ExpenseAttachment } from '@/lib/db';
 
 type ExpenseFormValues = z.infer<typeof expenseFormSchema>;
 
+// Split rows are edited as text so an empty box stays empty
+interface SplitRow {
+  name: string;
+  value: string;
+  debtUuid?: string;
+}
+
+const splitNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
 interface ExpenseFormProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -29,26 +49,42 @@ interface ExpenseFormProps {
 }
 
 export function ExpenseForm({ open, onOpenChange, preSelectedCategory, editingExpense }: ExpenseFormProps) {
-  const [attachments, setAttachments] = useState<string[]>([]);
+  const [attachments, setAttachments] = useState<ExpenseAttachment[]>([]);
   const { toast } = useToast();
   
   // Custom Addition States
-  const [customDialog, setCustomDialog] = useState<{ isOpen: boolean, type: 'paymentMethod' | 'account' | null }>({ isOpen: false, type: null });
+  const [customDialog, setCustomDialog] = useState<{ isOpen: boolean, type: 'paymentMethod' | 'account' | 'toAccount' | null }>({ isOpen: false, type: null });
   const [customValue, setCustomValue] = useState('');
+
+  // Save as Template State
+  const [templateDialogOpen, setTemplateDialogOpen] = useState(false);
+  const [templateName, setTemplateName] = useState('');
   
   // Local memory so the UI doesn't forget your typed value before you hit save
   const [sessionMethods, setSessionMethods] = useState<string[]>([]);
-  const [sessionAccounts, setSessionAccounts] = useState<string[]>([]);
 
   const addExpenseMutation = useAddExpense();
   const updateExpenseMutation = useUpdateExpense();
+  const saveTemplateMutation = useSaveTemplate();
 
   // Fetch past expenses to dynamically build lists
   const pastExpenses = useLiveQuery(() => db.expenses.toArray()) || [];
+  const accounts = useAccounts();
+  // Set when the expense looks like one already logged; saving again confirms
+  const [duplicate, setDuplicate] = useState<DuplicateMatch | null>(null);
+
+  // Splitting lives outside the form values so templates never carry it
+  const [isSplit, setIsSplit] = useState(false);
+  const [splitMethod, setSplitMethod] = useState<SplitMethod>('equal');
+  const [mySplitValue, setMySplitValue] = useState('');
+  const [splitRows, setSplitRows] = useState<SplitRow[]>([]);
+  const [splitError, setSplitError] = useState('');
+  const knownPeople = useLiveQuery(() => db.debts.orderBy('personName').uniqueKeys()) || [];
 
   const form = useForm<ExpenseFormValues>({
     resolver: zodResolver(expenseFormSchema),
     defaultValues: {
+      type: 'expense',
       amount: 0,
       date: format(new Date(), 'yyyy-MM-dd'),
       time: format(new Date(), 'HH:mm'),
@@ -57,19 +93,35 @@ export function ExpenseForm({ open, onOpenChange, preSelectedCategory, editingEx
       where: '',
       note: '',
       paymentMethod: 'UPI',
-      account: 'ICICI',
+      account: '',
       isRecurring: false,
       isTemplate: false,
-      attachments: [] as string[],
       id: undefined,
     },
   });
 
+  // New entries start on the account used last
+  const lastUsedAccount = () => {
+    const latest = pastExpenses
+      .filter(expense => !expense.isTemplate)
+      .reduce<Expense | undefined>((last, expense) => (!last || expense.createdAt > last.createdAt ? expense : last), undefined);
+    return latest?.account || accounts[0]?.name || '';
+  };
+
   useEffect(() => {
     if (open) {
+      setDuplicate(null);
+      setSplitError('');
+      const split = editingExpense?.split;
+      setIsSplit(!!split);
+      setSplitMethod(split?.method ?? 'equal');
+      setMySplitValue(split?.myValue?.toString() ?? '');
+      setSplitRows(split?.people.map(person => ({ name: person.name, value: person.value?.toString() ?? '', debtUuid: person.debtUuid })) ?? []);
       if (editingExpense) {
         form.reset({
-          amount: editingExpense.amount,
+          type: editingExpense.type ?? 'expense',
+          // A split expense is edited from the whole bill
+          amount: split?.total ?? editingExpense.amount,
           date: editingExpense.date,
           time: editingExpense.time,
           category: editingExpense.category,
@@ -78,26 +130,34 @@ export function ExpenseForm({ open, onOpenChange, preSelectedCategory, editingEx
           note: editingExpense.note ?? '',
           paymentMethod: editingExpense.paymentMethod,
           account: editingExpense.account,
+          toAccount: editingExpense.toAccount,
+          currency: editingExpense.currency,
+          exchangeRate: editingExpense.exchangeRate,
           isRecurring: editingExpense.isRecurring ?? false,
+          recurrence: editingExpense.recurrence,
           isTemplate: editingExpense.isTemplate ?? false,
-          attachments: editingExpense.attachments ?? [],
           id: editingExpense.id,
         });
-        setAttachments(editingExpense.attachments || []);
+        setAttachments([]);
+        getAttachments(editingExpense.id).then(setAttachments);
       } else {
         form.reset({
+          type: 'expense',
           amount: 0,
           date: format(new Date(), 'yyyy-MM-dd'),
           time: format(new Date(), 'HH:mm'),
           category: preSelectedCategory || '',
+          currency: undefined,
+          exchangeRate: undefined,
           items: '',
           where: '',
           note: '',
           paymentMethod: 'UPI',
-          account: 'ICICI',
+          account: lastUsedAccount(),
+          toAccount: undefined,
           isRecurring: false,
+          recurrence: undefined,
           isTemplate: false,
-          attachments: [] as string[],
           id: undefined,
         });
         setAttachments([]);
@@ -109,8 +169,9 @@ export function ExpenseForm({ open, onOpenChange, preSelectedCategory, editingEx
     const files = event.target.files;
     if (!files) return;
 
-    const validFiles = Array.from(files).filter((file) => file.type.startsWith('image/') || file.type === 'application/pdf');
-    const invalidFiles = Array.from(files).filter((file) => !(file.type.startsWith('image/') || file.type === 'application/pdf'));
+    const validFiles = Array.from(files).filter(isAcceptedFile);
+    const invalidFiles = Array.from(files).filter((file) => !isAcceptedFile(file));
+    const oversizedFiles = validFiles.filter((file) => file.size > MAX_ATTACHMENT_BYTES);
 
     if (invalidFiles.length > 0) {
       toast({
@@ -120,40 +181,195 @@ export function ExpenseForm({ open, onOpenChange, preSelectedCategory, editingEx
       });
     }
 
-    validFiles.forEach((file) => {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const base64 = e.target?.result as string;
-        setAttachments(prev => [...prev, base64]);
-      };
-      reader.readAsDataURL(file);
-    });
+    if (oversizedFiles.length > 0) {
+      toast({
+        title: 'Files must be 5MB or smaller',
+        description: `Skipped ${oversizedFiles.map((file) => file.name).join(', ')}.`,
+        variant: 'destructive',
+      });
+    }
+
+    const accepted = validFiles.filter((file) => file.size <= MAX_ATTACHMENT_BYTES).map(fromFile);
+    setAttachments(prev => [...prev, ...accepted]);
+    event.target.value = '';
   };
 
   const handleClose = () => onOpenChange(false);
 
+  // Income uses its own categories and transfers none, so switching type clears the pick
+  const transactionType = form.watch('type') ?? 'expense';
+  const isTransferEntry = transactionType === 'transfer';
+  const noun = transactionType === 'income' ? 'Income' : isTransferEntry ? 'Transfer' : 'Expense';
+  const handleTypeChange = (type: TransactionType) => {
+    if (type === transactionType) return;
+    form.setValue('type', type);
+    form.setValue('category', type === 'transfer' ? TRANSFER_CATEGORY : '');
+    form.setValue('toAccount', undefined);
+  };
+
+  // Multi-currency: expenses in the base currency carry no code or rate
+  const baseCurrency = useBaseCurrency();
+  const knownRates = useLiveQuery(() => db.exchangeRates.toArray()) || [];
+  const selectedCurrency = form.watch('currency') || baseCurrency;
+  const isForeign = selectedCurrency !== baseCurrency;
+  const watchedAmount = Number(form.watch('amount'));
+  const watchedRate = Number(form.watch('exchangeRate'));
+  const convertedAmount = isForeign && watchedAmount > 0 && watchedRate > 0 ? watchedAmount * watchedRate : null;
+
+  const currencyOptions = useMemo(() => Array.from(new Set([
+    baseCurrency,
+    ...CURRENCIES.map(c => c.code),
+    ...knownRates.map(r => r.code),
+  ])), [baseCurrency, knownRates]);
+
+  const handleCurrencyChange = async (code: string) => {
+    form.setValue('currency', code);
+    const rate = await getRate(code, baseCurrency);
+    form.setValue('exchangeRate', code === baseCurrency ? undefined : rate, { shouldValidate: false });
+  };
+
+  // A duplicate warning only covers the values it was raised for
+  const [dupAmount, dupDate, dupTime, dupCategory, dupWhere] = form.watch(['amount', 'date', 'time', 'category', 'where']);
+  useEffect(() => {
+    setDuplicate(null);
+  }, [dupAmount, dupDate, dupTime, dupCategory, dupWhere]);
+
+  const isRecurring = form.watch('isRecurring');
+  const frequency = form.watch('recurrence.frequency');
+
+  const handleRecurringChange = (checked: boolean) => {
+    form.setValue('isRecurring', checked);
+    if (checked && !form.getValues('recurrence')) {
+      const day = parseISO(form.getValues('date')).getDate();
+      form.setValue('recurrence', { frequency: 'monthly', interval: 1, dayOfMonth: day || 1 });
+    }
+  };
+
+  const splitActive = isSplit && transactionType === 'expense' && !isRecurring;
+  const splitPreview = computeSplit({
+    method: splitMethod,
+    total: watchedAmount > 0 ? watchedAmount : 0,
+    myValue: splitNumber(mySplitValue),
+    people: splitRows.map(row => ({ value: splitNumber(row.value) })),
+  });
+
+  const handleSplitChange = (checked: boolean) => {
+    setIsSplit(checked);
+    setSplitError('');
+    if (checked && splitRows.length === 0) setSplitRows([{ name: '', value: '' }]);
+  };
+
+  const updateSplitRow = (index: number, changes: Partial<SplitRow>) =>
+    setSplitRows(prev => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+
+  // Turns the split rows into what is stored, or explains why they can't be
+  const buildSplit = (total: number) => {
+    const rows = splitRows.filter(row => row.name.trim());
+    if (rows.length === 0) return { error: 'Add at least one person to split with' };
+    const prepared = prepareSplit({
+      method: splitMethod,
+      total,
+      myValue: splitMethod === 'shares' ? splitNumber(mySplitValue) : undefined,
+      people: rows.map(row => ({ name: row.name, value: splitMethod === 'equal' ? undefined : splitNumber(row.value), amount: 0, debtUuid: row.debtUuid })),
+    });
+    if (prepared.myShare < 0) return { error: 'The amounts add up to more than the bill' };
+    if (prepared.myShare === 0) return { error: 'Your share must be more than zero. Log this as a receivable instead.' };
+    return prepared;
+  };
+
   const onSubmit = async (data: any) => {
     try {
-      const payload = { ...data, attachments };
+      const foreign = data.currency && data.currency !== baseCurrency;
+      if (foreign && !(data.exchangeRate > 0)) {
+        form.setError('exchangeRate', { message: `Enter how many ${baseCurrency} one ${data.currency} is worth` });
+        return;
+      }
+      const transfer = data.type === 'transfer';
+      if (transfer && (!data.toAccount || data.toAccount === data.account)) {
+        form.setError('toAccount', { message: data.toAccount ? 'Pick a different account' : 'Account is required' });
+        return;
+      }
+      const split = splitActive ? buildSplit(Number(data.amount)) : null;
+      if (split && 'error' in split) {
+        setSplitError(split.error!);
+        return;
+      }
+      setSplitError('');
+      // Remember the rate for next time
+      if (foreign) await saveRate(data.currency, data.exchangeRate);
+
+      const payload = {
+        ...data,
+        amount: split ? split.myShare : data.amount,
+        split: split ? split.split : undefined,
+        paymentMethod: transfer ? TRANSFER_METHOD : data.paymentMethod,
+        toAccount: transfer ? data.toAccount : undefined,
+        currency: foreign ? data.currency : undefined,
+        exchangeRate: foreign ? data.exchangeRate : undefined,
+        recurrence: data.isRecurring ? data.recurrence : undefined,
+      };
+      if (!duplicate) {
+        const [match] = findDuplicatesOf({ ...payload, id: editingExpense?.id ?? '' } as Expense, pastExpenses);
+        if (match) {
+          setDuplicate(match);
+          return;
+        }
+      }
+      let saved: Expense;
       if (editingExpense && editingExpense.id) {
-        await updateExpenseMutation.mutateAsync({ ...payload, id: editingExpense.id });
+        saved = await updateExpenseMutation.mutateAsync({ ...payload, id: editingExpense.id });
       } else {
-        await addExpenseMutation.mutateAsync(payload);
+        saved = await addExpenseMutation.mutateAsync(payload);
       }
+      await saveAttachments(saved.id, attachments);
+      // Raises, updates or clears the receivables owed on a split
+      await saveSplitReceivables(saved);
+      // Back-dated series catch up straight away
+      if (payload.isRecurring) await materializeRecurringExpenses();
       handleClose();
     } catch (err) {
       console.error(err);
     }
   };
 
-  const saveCustomValue = () => {
-    const val = customValue.trim();
+  const openTemplateDialog = async () => {
+    // Templates need the same fields as an expense
+    if (!(await form.trigger())) return;
+    const { items, where } = form.getValues();
+    setTemplateName(items || where || '');
+    setTemplateDialogOpen(true);
+  };
+
+  const saveAsTemplate = async () => {
+    const name = templateName.trim();
+    if (!name) return;
+    try {
+      // A fresh record, never the expense being edited
+      const { id, ...values } = form.getValues();
+      await saveTemplateMutation.mutateAsync({ ...values, templateName: name });
+      setTemplateDialogOpen(false);
+      setTemplateName('');
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const saveCustomValue = async () => {
+    let val = customValue.trim();
     if (val && customDialog.type) {
-      // Add to session memory so it instantly appears in the dropdown list
       if (customDialog.type === 'paymentMethod') {
+        // Add to session memory so it instantly appears in the dropdown list
         setSessionMethods(prev => [...prev, val]);
-      } else if (customDialog.type === 'account') {
-        setSessionAccounts(prev => [...prev, val]);
+      } else {
+        // Accounts are saved right away; typing an existing name just picks it
+        const existing = accounts.find(account => account.name.toLowerCase() === val.toLowerCase());
+        try {
+          val = existing ? existing.name : (await createAccount({ name: val, type: guessAccountType(val), openingBalance: 0 })).name;
+        } catch (error) {
+          console.error('Failed to add account:', error);
+          toast({ title: "Error", description: "Failed to add the account.", variant: "destructive" });
+          return;
+        }
       }
       
       // Force the form to select the newly added value
@@ -167,42 +383,125 @@ export function ExpenseForm({ open, onOpenChange, preSelectedCategory, editingEx
   const uniquePaymentMethods = useMemo(() => {
     return Array.from(new Set([
       'UPI', 'Cash', 'Card',
-      ...pastExpenses.map(e => e.paymentMethod).filter(Boolean),
+      ...pastExpenses.filter(e => e.type !== 'transfer').map(e => e.paymentMethod).filter(Boolean),
       ...sessionMethods
     ]));
   }, [pastExpenses, sessionMethods]);
 
-  const uniqueAccounts = useMemo(() => {
-    return Array.from(new Set([
-      'ICICI', 'HDFC', 'SBI',
-      ...pastExpenses.map(e => (e as any).account).filter(Boolean),
-      ...sessionAccounts
-    ]));
-  }, [pastExpenses, sessionAccounts]);
+  const renderAccountSelect = (name: 'account' | 'toAccount', label: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <Select 
+            onValueChange={(val) => val === 'NEW' ? setCustomDialog({ isOpen: true, type: name }) : field.onChange(val)} 
+            value={field.value ?? ''}
+          >
+            <FormControl>
+              <SelectTrigger><SelectValue placeholder="Select an account" /></SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              <SelectItem value="NEW" className="font-semibold text-primary focus:bg-primary/10 cursor-pointer">
+                <div className="flex items-center gap-2"><Plus className="w-4 h-4" /><span>Add New Account...</span></div>
+              </SelectItem>
+              {accounts.map(account => (
+                <SelectItem key={account.id} value={account.name}>{account.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
 
   return (
     <>
       <Dialog open={open} onOpenChange={handleClose}>
         <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
           <DialogHeader>
-            <DialogTitle>{editingExpense ? 'Edit Expense' : 'Add Expense'}</DialogTitle>
+            <DialogTitle>{editingExpense ? `Edit ${noun}` : `Add ${noun}`}</DialogTitle>
           </DialogHeader>
 
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-              <FormField
-                control={form.control}
-                name="amount"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Amount <span className="text-red-500">*</span></FormLabel>
-                    <FormControl>
-                      <Input {...field} placeholder="0.00" type="number" step="0.01" />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+              <div className="grid grid-cols-3 gap-1 p-1 rounded-lg bg-gray-100 dark:bg-gray-800">
+                {TRANSACTION_TYPES.map(type => (
+                  <button
+                    key={type}
+                    type="button"
+                    onClick={() => handleTypeChange(type)}
+                    className={`py-1.5 text-sm font-medium rounded-md capitalize transition-colors ${
+                      transactionType === type
+                        ? type === 'income' ? 'bg-green-600 text-white' : type === 'transfer' ? 'bg-blue-600 text-white' : 'bg-primary text-primary-foreground'
+                        : 'text-gray-600 dark:text-gray-300'
+                    }`}
+                  >
+                    {type}
+                  </button>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-[1fr_7rem] gap-2">
+                <FormField
+                  control={form.control}
+                  name="amount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{splitActive ? 'Total Bill' : 'Amount'} <span className="text-red-500">*</span></FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="0.00" type="number" step="0.01" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="currency"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Currency</FormLabel>
+                      <Select onValueChange={handleCurrencyChange} value={field.value || baseCurrency}>
+                        <FormControl>
+                          <SelectTrigger><SelectValue /></SelectTrigger>
+                        </FormControl>
+                        <SelectContent className="max-h-[300px]">
+                          {currencyOptions.map(code => (
+                            <SelectItem key={code} value={code}>{code}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              {isForeign && (
+                <FormField
+                  control={form.control}
+                  name="exchangeRate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Exchange Rate</FormLabel>
+                      <div className="flex items-center gap-2 text-sm">
+                        <span className="whitespace-nowrap text-muted-foreground">1 {selectedCurrency} =</span>
+                        <FormControl>
+                          <Input {...field} value={field.value ?? ''} placeholder="Rate" type="number" step="any" />
+                        </FormControl>
+                        <span className="text-muted-foreground">{baseCurrency}</span>
+                      </div>
+                      {convertedAmount !== null && (
+                        <p className="text-xs text-muted-foreground">≈ {formatMoney(convertedAmount, baseCurrency)}</p>
+                      )}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
 
                <FormField
                 control={form.control}
@@ -233,19 +532,21 @@ export function ExpenseForm({ open, onOpenChange, preSelectedCategory, editingEx
                 )}
               />
 
-              <FormField
-                control={form.control}
-                name="category"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Category</FormLabel>
-                    <FormControl>
-                      <CategorySelector selectedCategory={field.value} onCategorySelect={field.onChange} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+              {!isTransferEntry && (
+                <FormField
+                  control={form.control}
+                  name="category"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Category</FormLabel>
+                      <FormControl>
+                        <CategorySelector selectedCategory={field.value} onCategorySelect={field.onChange} type={transactionType === 'income' ? 'income' : 'expense'} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
 
               <FormField
                 control={form.control}
@@ -287,59 +588,204 @@ export function ExpenseForm({ open, onOpenChange, preSelectedCategory, editingEx
               />
 
               <div className="grid grid-cols-2 gap-4">
-                <FormField
-                  control={form.control}
-                  name="paymentMethod"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Payment Method</FormLabel>
-                      <Select 
-                        onValueChange={(val) => val === 'NEW' ? setCustomDialog({ isOpen: true, type: 'paymentMethod' }) : field.onChange(val)} 
-                        value={field.value}
-                      >
-                        <FormControl>
-                          <SelectTrigger><SelectValue placeholder="Select a method" /></SelectTrigger>
-                        </FormControl>
-                        <SelectContent>
-                          <SelectItem value="NEW" className="font-semibold text-primary focus:bg-primary/10 cursor-pointer">
-                            <div className="flex items-center gap-2"><Plus className="w-4 h-4" /><span>Add New...</span></div>
-                          </SelectItem>
-                          {uniquePaymentMethods.map(method => (
-                            <SelectItem key={method} value={method}>{method}</SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                
-                <FormField
-                  control={form.control}
-                  name="account"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Account / Bank</FormLabel>
-                      <Select 
-                        onValueChange={(val) => val === 'NEW' ? setCustomDialog({ isOpen: true, type: 'account' }) : field.onChange(val)} 
-                        value={field.value}
-                      >
-                        <FormControl>
-                          <SelectTrigger><SelectValue placeholder="Select an account" /></SelectTrigger>
-                        </FormControl>
-                        <SelectContent>
-                          <SelectItem value="NEW" className="font-semibold text-primary focus:bg-primary/10 cursor-pointer">
-                            <div className="flex items-center gap-2"><Plus className="w-4 h-4" /><span>Add New Bank...</span></div>
-                          </SelectItem>
-                          {uniqueAccounts.map(acc => (
-                            <SelectItem key={acc} value={acc}>{acc}</SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                      <FormMessage />
-                    </FormItem>
+                {isTransferEntry ? (
+                  <>
+                    {renderAccountSelect('account', 'From Account')}
+                    {renderAccountSelect('toAccount', 'To Account')}
+                  </>
+                ) : (
+                  <>
+                    <FormField
+                      control={form.control}
+                      name="paymentMethod"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{transactionType === 'income' ? 'Received Via' : 'Payment Method'}</FormLabel>
+                          <Select 
+                            onValueChange={(val) => val === 'NEW' ? setCustomDialog({ isOpen: true, type: 'paymentMethod' }) : field.onChange(val)} 
+                            value={field.value}
+                          >
+                            <FormControl>
+                              <SelectTrigger><SelectValue placeholder="Select a method" /></SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="NEW" className="font-semibold text-primary focus:bg-primary/10 cursor-pointer">
+                                <div className="flex items-center gap-2"><Plus className="w-4 h-4" /><span>Add New...</span></div>
+                              </SelectItem>
+                              {uniquePaymentMethods.map(method => (
+                                <SelectItem key={method} value={method}>{method}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    {renderAccountSelect('account', 'Account')}
+                  </>
+                )}
+              </div>
+
+              {transactionType === 'expense' && !isRecurring && (
+                <div className="space-y-3 rounded-lg border p-3">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <Label htmlFor="is-split">Split with others</Label>
+                      <p className="text-xs text-muted-foreground">Only your share counts; the rest becomes receivables</p>
+                    </div>
+                    <Switch id="is-split" checked={isSplit} onCheckedChange={handleSplitChange} />
+                  </div>
+
+                  {isSplit && (
+                    <div className="space-y-3">
+                      <div className="grid grid-cols-3 gap-1 p-1 rounded-lg bg-gray-100 dark:bg-gray-800">
+                        {SPLIT_METHODS.map(method => (
+                          <button
+                            key={method}
+                            type="button"
+                            onClick={() => setSplitMethod(method)}
+                            className={`py-1.5 text-xs font-medium rounded-md transition-colors ${
+                              splitMethod === method ? 'bg-primary text-primary-foreground' : 'text-gray-600 dark:text-gray-300'
+                            }`}
+                          >
+                            {SPLIT_METHOD_LABELS[method]}
+                          </button>
+                        ))}
+                      </div>
+
+                      {splitMethod === 'shares' && (
+                        <div className="flex items-center gap-2">
+                          <span className="flex-1 text-sm font-medium">You</span>
+                          <Input className="w-20" value={mySplitValue} onChange={(e) => setMySplitValue(e.target.value)} placeholder="1" type="number" min={0} step="any" />
+                          <span className="w-20 text-right text-sm text-muted-foreground">{formatMoney(splitPreview.myShare, selectedCurrency)}</span>
+                          <div className="w-9" />
+                        </div>
+                      )}
+
+                      {splitRows.map((row, index) => (
+                        <div key={index} className="flex items-center gap-2">
+                          <Input
+                            className="flex-1"
+                            value={row.name}
+                            onChange={(e) => updateSplitRow(index, { name: e.target.value })}
+                            placeholder="Name"
+                            list="split-people"
+                          />
+                          {splitMethod !== 'equal' && (
+                            <Input
+                              className="w-20"
+                              value={row.value}
+                              onChange={(e) => updateSplitRow(index, { value: e.target.value })}
+                              placeholder={splitMethod === 'shares' ? '1' : '0.00'}
+                              type="number"
+                              min={0}
+                              step="any"
+                            />
+                          )}
+                          <span className="w-20 text-right text-sm text-muted-foreground">{formatMoney(splitPreview.amounts[index] ?? 0, selectedCurrency)}</span>
+                          <Button type="button" variant="ghost" size="icon" className="h-9 w-9" onClick={() => setSplitRows(prev => prev.filter((_, i) => i !== index))}>
+                            <X className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      ))}
+                      <datalist id="split-people">
+                        {knownPeople.map(name => <option key={String(name)} value={String(name)} />)}
+                      </datalist>
+
+                      <div className="flex items-center justify-between">
+                        <Button type="button" variant="outline" size="sm" onClick={() => setSplitRows(prev => [...prev, { name: '', value: '' }])}>
+                          <UserPlus className="w-4 h-4 mr-2" />Add Person
+                        </Button>
+                        <p className="text-sm">
+                          Your share: <span className={`font-semibold ${splitPreview.myShare < 0 ? 'text-red-500' : ''}`}>{formatMoney(splitPreview.myShare, selectedCurrency)}</span>
+                        </p>
+                      </div>
+                      {splitError && <p className="text-sm font-medium text-destructive">{splitError}</p>}
+                    </div>
                   )}
-                />
+                </div>
+              )}
+
+              <div className="space-y-3 rounded-lg border p-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label htmlFor="is-recurring">Repeat this expense</Label>
+                    <p className="text-xs text-muted-foreground">Rent, subscriptions, EMIs...</p>
+                  </div>
+                  <Switch id="is-recurring" checked={!!isRecurring} onCheckedChange={handleRecurringChange} />
+                </div>
+
+                {isRecurring && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="recurrence.frequency"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Repeats</FormLabel>
+                          <Select onValueChange={(val) => field.onChange(val as Recurrence['frequency'])} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger><SelectValue placeholder="How often" /></SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="daily">Daily</SelectItem>
+                              <SelectItem value="weekly">Weekly</SelectItem>
+                              <SelectItem value="monthly">Monthly</SelectItem>
+                              <SelectItem value="yearly">Yearly</SelectItem>
+                              <SelectItem value="custom">Every N days</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </FormItem>
+                      )}
+                    />
+
+                    {frequency === 'monthly' && (
+                      <FormField
+                        control={form.control}
+                        name="recurrence.dayOfMonth"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Day of month</FormLabel>
+                            <FormControl>
+                              <Input {...field} value={field.value ?? ''} type="number" min={1} max={31} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+
+                    {frequency === 'custom' && (
+                      <FormField
+                        control={form.control}
+                        name="recurrence.interval"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Every (days)</FormLabel>
+                            <FormControl>
+                              <Input {...field} value={field.value ?? ''} type="number" min={1} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+
+                    <FormField
+                      control={form.control}
+                      name="recurrence.endDate"
+                      render={({ field }) => (
+                        <FormItem className="col-span-2">
+                          <FormLabel>Ends (Optional)</FormLabel>
+                          <DatePicker
+                            date={field.value ? parseISO(field.value) : undefined}
+                            onDateChange={(date) => field.onChange(date ? format(date, 'yyyy-MM-dd') : undefined)}
+                          />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                )}
               </div>
 
               <div>
@@ -349,48 +795,45 @@ export function ExpenseForm({ open, onOpenChange, preSelectedCategory, editingEx
                     <div className="flex flex-col items-center justify-center pt-5 pb-6">
                       <Upload className="w-8 h-8 mb-2 text-gray-500 dark:text-gray-400" />
                       <p className="mb-2 text-sm text-gray-500 dark:text-gray-400"><span className="font-semibold">Click to upload</span> or drag and drop</p>
+                      <p className="text-xs text-gray-400">Images or PDFs, up to 5MB each</p>
                     </div>
                     <input id="file-upload" type="file" accept="image/*,application/pdf" className="hidden" onChange={handleFileUpload} multiple />
                   </label>
                 </div>
-                <div className="mt-2 grid grid-cols-3 gap-2">
-                  {attachments.map((att, i) => {
-                    const isPdf = att.startsWith('data:application/pdf');
-                    return (
-                      <div key={i} className="relative">
-                        {isPdf ? (
-                          <button
-                            type="button"
-                            onClick={() => window.open(att, '_blank')}
-                            className="flex h-20 w-full flex-col items-center justify-center gap-1 rounded-lg border border-border bg-slate-100 p-2 text-xs text-muted-foreground transition hover:border-primary hover:bg-primary/5"
-                          >
-                            <FileText className="h-6 w-6 text-primary" />
-                            <span>View PDF</span>
-                          </button>
-                        ) : (
-                          <button
-                            type="button"
-                            onClick={() => window.open(att, '_blank')}
-                            className="block h-20 w-full overflow-hidden rounded-lg"
-                          >
-                            <img src={att} className="h-full w-full object-cover" alt={`attachment ${i + 1}`} />
-                          </button>
-                        )}
-                        <Button type="button" variant="destructive" size="icon" className="absolute top-1 right-1 h-6 w-6" onClick={() => setAttachments(prev => prev.filter((_, idx) => idx !== i))}>
-                          <X className="h-4 w-4" />
-                        </Button>
-                      </div>
-                    );
-                  })}
-                </div>
+                <AttachmentGallery
+                  attachments={attachments}
+                  onRemove={(id) => setAttachments(prev => prev.filter(a => a.id !== id))}
+                />
               </div>
 
-              <div className="flex justify-end pt-4">
+              {duplicate && (
+                <div className="flex items-start gap-2 p-3 rounded-lg border border-amber-300 bg-amber-50 text-amber-800 dark:border-amber-900 dark:bg-amber-950 dark:text-amber-200 text-sm">
+                  <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                  <div className="flex-1 space-y-2">
+                    <p>
+                      This looks like an expense you already logged
+                      {duplicate.expense.where ? ` at ${duplicate.expense.where}` : ''}
+                      {duplicate.expense.time ? ` (${duplicate.expense.time})` : ''}: {duplicate.reasons.join(', ')}.
+                    </p>
+                    <div className="flex gap-2">
+                      <Button type="submit" size="sm" variant="outline" disabled={addExpenseMutation.isPending || updateExpenseMutation.isPending}>
+                        Save Anyway
+                      </Button>
+                      <Button type="button" size="sm" variant="ghost" onClick={handleClose}>Cancel</Button>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              <div className="flex justify-end gap-2 pt-4">
+                <Button type="button" variant="outline" onClick={openTemplateDialog} disabled={saveTemplateMutation.isPending}>
+                  <Zap className="w-4 h-4 mr-2" />Save as Template
+                </Button>
                 <Button type="submit" className="bg-primary hover:bg-primary/90" disabled={addExpenseMutation.isPending || updateExpenseMutation.isPending}>
                   {addExpenseMutation.isPending || updateExpenseMutation.isPending ? (
                     <><Loader2 className="w-4 h-4 mr-2 animate-spin" />Saving...</>
                   ) : (
-                    editingExpense ? 'Update Expense' : 'Save Expense'
+                    editingExpense ? `Update ${noun}` : `Save ${noun}`
                   )}
                 </Button>
               </div>
@@ -399,16 +842,41 @@ export function ExpenseForm({ open, onOpenChange, preSelectedCategory, editingEx
         </DialogContent>
       </Dialog>
 
+      {/* Internal Dialog for naming a Template */}
+      <Dialog open={templateDialogOpen} onOpenChange={setTemplateDialogOpen}>
+        <DialogContent className="sm:max-w-xs z-[60]">
+          <DialogHeader>
+            <DialogTitle>Save as Template</DialogTitle>
+          </DialogHeader>
+          <Input 
+            value={templateName} 
+            onChange={(e) => setTemplateName(e.target.value)} 
+            placeholder="e.g. Morning Coffee"
+            autoFocus
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                saveAsTemplate();
+              }
+            }}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTemplateDialogOpen(false)}>Cancel</Button>
+            <Button type="button" onClick={saveAsTemplate} disabled={!templateName.trim() || saveTemplateMutation.isPending}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Internal Dialog for Custom Values */}
       <Dialog open={customDialog.isOpen} onOpenChange={(isOpen) => !isOpen && setCustomDialog({ isOpen: false, type: null })}>
         <DialogContent className="sm:max-w-xs z-[60]">
           <DialogHeader>
-            <DialogTitle>Add New {customDialog.type === 'account' ? 'Bank' : 'Method'}</DialogTitle>
+            <DialogTitle>Add New {customDialog.type === 'paymentMethod' ? 'Method' : 'Account'}</DialogTitle>
           </DialogHeader>
           <Input 
             value={customValue} 
             onChange={(e) => setCustomValue(e.target.value)} 
-            placeholder={`e.g. ${customDialog.type === 'account' ? 'Axis Bank' : 'Crypto'}`}
+            placeholder={`e.g. ${customDialog.type === 'paymentMethod' ? 'Crypto' : 'Axis Bank'}`}
             autoFocus
             onKeyDown={(e) => {
               if (e.key === 'Enter') {
@@ -1,18 +1,61 @@
-import { Plus } from 'lucide-react';
+import { useState } from 'react';
+import { Plus, X, Zap } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { useTemplates, useLogTemplate, templateLabel } from '@/hooks/use-templates';
+import { useSettings } from '@/hooks/use-settings';
 
 interface FloatingActionButtonProps {
   onClick: () => void;
+  templateLimit?: number;
 }
 
-export function FloatingActionButton({ onClick }: FloatingActionButtonProps) {
+export function FloatingActionButton({ onClick, templateLimit = 5 }: FloatingActionButtonProps) {
+  const templates = useTemplates();
+  const logTemplate = useLogTemplate();
+  const settings = useSettings();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const currency = settings?.currency || '₹';
+
+  // Without templates there is nothing to choose from, go straight to the form
+  const handleClick = () => {
+    if (templates.length === 0) onClick();
+    else setIsOpen(!isOpen);
+  };
+
   return (
-    <Button
-      onClick={onClick}
-      className="floating-action-btn w-14 h-14 bg-primary hover:bg-primary/90 text-white rounded-full shadow-lg"
-      size="icon"
-    >
-      <Plus className="w-6 h-6" />
-    </Button>
+    <>
+      {isOpen && (
+        <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)}>
+          <div className="fixed bottom-[160px] right-5 flex flex-col items-end gap-2" onClick={(e) => e.stopPropagation()}>
+            {templates.slice(0, templateLimit).map((template) => (
+              <button
+                key={template.id}
+                disabled={logTemplate.isPending}
+                onClick={() => { logTemplate.mutate(template); setIsOpen(false); }}
+                className="flex items-center gap-2 px-4 py-2 rounded-full bg-white dark:bg-gray-800 shadow-lg border border-gray-100 dark:border-gray-700 text-sm font-medium hover:scale-105 transition-all disabled:opacity-50"
+              >
+                <Zap className="w-4 h-4 text-primary" />
+                {templateLabel(template)} · {currency}{template.amount.toLocaleString()}
+              </button>
+            ))}
+            <button
+              onClick={() => { onClick(); setIsOpen(false); }}
+              className="flex items-center gap-2 px-4 py-2 rounded-full bg-primary text-white shadow-lg text-sm font-medium hover:scale-105 transition-all"
+            >
+              <Plus className="w-4 h-4" /> New Expense
+            </button>
+          </div>
+        </div>
+      )}
+
+      <Button
+        onClick={handleClick}
+        className="floating-action-btn w-14 h-14 bg-primary hover:bg-primary/90 text-white rounded-full shadow-lg"
+        size="icon"
+      >
+        {isOpen ? <X className="w-6 h-6" /> : <Plus className="w-6 h-6" />}
+      </Button>
+    </>
   );
 }
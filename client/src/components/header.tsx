@@ -1,9 +1,28 @@
-import { Bell, Moon, Sun, Wallet } from 'lucide-react';
+import { Cloud, CloudOff, Moon, RefreshCw, Sun, Wallet } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
 import { Button } from '@/components/ui/button';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { useSyncStatus } from '@/hooks/use-sync';
+import { syncNow } from '@/lib/sync';
 import { useTheme } from './theme-provider';
+import { NotificationPanel } from './notification-panel';
 
 export function Header() {
   const { theme, toggleTheme } = useTheme();
+  const sync = useSyncStatus();
+
+  const syncLabel = (() => {
+    switch (sync.status) {
+      case 'syncing': return 'Syncing...';
+      case 'synced': return sync.lastSyncedAt
+        ? `Synced ${formatDistanceToNow(new Date(sync.lastSyncedAt), { addSuffix: true })}`
+        : 'Synced';
+      case 'offline': return 'Offline - changes will sync when you reconnect';
+      case 'signed-out': return 'Not signed in - data stays on this device';
+      case 'error': return `Sync failed${sync.error ? `: ${sync.error}` : ''}`;
+      default: return 'Waiting to sync';
+    }
+  })();
 
   return (
     <header className="gradient-header text-white p-4 sticky top-0 z-40 shadow-lg">
@@ -19,6 +38,29 @@ export function Header() {
         </div>
         
         <div className="flex items-center space-x-3">
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => syncNow()}
+                aria-label={syncLabel}
+                className="w-10 h-10 bg-white bg-opacity-20 rounded-lg hover:bg-white hover:bg-opacity-30 transition-all text-white hover:text-white relative"
+              >
+                {sync.status === 'syncing' ? (
+                  <RefreshCw className="w-5 h-5 animate-spin" />
+                ) : sync.status === 'synced' || sync.status === 'idle' ? (
+                  <Cloud className="w-5 h-5" />
+                ) : (
+                  <CloudOff className="w-5 h-5" />
+                )}
+                {sync.status === 'error' && (
+                  <span className="absolute -top-1 -right-1 w-3 h-3 bg-red-500 rounded-full" />
+                )}
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>{syncLabel}</TooltipContent>
+          </Tooltip>
           <Button
             variant="ghost"
             size="icon"
@@ -27,16 +69,7 @@ export function Header() {
           >
             {theme === 'dark' ? <Sun className="w-5 h-5" /> : <Moon className="w-5 h-5" />}
           </Button>
-          <Button
-            variant="ghost"
-            size="icon"
-            className="w-10 h-10 bg-white bg-opacity-20 rounded-lg hover:bg-white hover:bg-opacity-30 transition-all text-white hover:text-white relative"
-          >
-            <Bell className="w-5 h-5" />
-            <span className="absolute -top-1 -right-1 w-5 h-5 bg-red-500 rounded-full text-xs flex items-center justify-center">
-              2
-            </span>
-          </Button>
+          <NotificationPanel />
         </div>
       </div>
     </header>
@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Trash2, Pencil, Check, X } from 'lucide-react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import db from '@/lib/db';
+import { getCategoryColor } from '@/lib/categories';
+import { getIconComponent } from '@/components/category-selector';
+import { useSettings } from '@/hooks/use-settings';
+import { useTemplates, useSaveTemplate, useDeleteTemplate, templateLabel } from '@/hooks/use-templates';
+
+// Lists saved templates for renaming, repricing and deleting. New templates are
+// saved from the expense form.
+export function ManageTemplatesDialog({ children }: { children: React.ReactNode }) {
+  const templates = useTemplates();
+  const categories = useLiveQuery(() => db.categories.toArray()) || [];
+  const settings = useSettings();
+  const saveTemplate = useSaveTemplate();
+  const deleteTemplate = useDeleteTemplate();
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [editAmount, setEditAmount] = useState('');
+
+  const currency = settings?.currency || '₹';
+
+  const handleDelete = (id: string, name: string) => {
+    if (confirm(`Are you sure you want to delete the "${name}" template?`)) {
+      deleteTemplate.mutate(id);
+    }
+  };
+
+  const handleSaveEdit = async (id: string) => {
+    const template = templates.find(t => t.id === id);
+    const amount = Number(editAmount);
+    if (!template || !editName.trim() || !(amount > 0)) {
+      setEditingId(null);
+      return;
+    }
+    await saveTemplate.mutateAsync({ ...template, templateName: editName, amount });
+    setEditingId(null);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => {
+      setIsOpen(open);
+      if (!open) setEditingId(null);
+    }}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md max-h-[85vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Manage Templates</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto pr-2 space-y-2 mt-4 pb-4">
+          {templates.length === 0 && (
+            <p className="text-center text-sm text-muted-foreground py-8">
+              No templates yet. Use "Save as Template" in the expense form to create one.
+            </p>
+          )}
+
+          {templates.map((template) => {
+            const category = categories.find(c => c.id === template.category);
+            const colors = getCategoryColor(category?.color || 'gray');
+            const isEditing = editingId === template.id;
+
+            return (
+              <div key={template.id} className="flex items-center justify-between p-3 border rounded-lg dark:border-gray-800">
+                {isEditing ? (
+                  <div className="flex items-center gap-2 flex-1 mr-2">
+                    <Input
+                      value={editName}
+                      onChange={(e) => setEditName(e.target.value)}
+                      className="h-8"
+                      autoFocus
+                      onKeyDown={(e) => e.key === 'Enter' && handleSaveEdit(template.id)}
+                    />
+                    <Input
+                      value={editAmount}
+                      onChange={(e) => setEditAmount(e.target.value)}
+                      className="h-8 w-24"
+                      type="number"
+                      step="0.01"
+                      onKeyDown={(e) => e.key === 'Enter' && handleSaveEdit(template.id)}
+                    />
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-3 overflow-hidden">
+                    <div className={`p-2 rounded-full shrink-0 ${colors.bg} ${colors.text}`}>
+                      {getIconComponent(category?.icon || 'file-text', "w-4 h-4")}
+                    </div>
+                    <div className="overflow-hidden">
+                      <p className="font-medium truncate">{templateLabel(template)}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {currency}{template.amount.toLocaleString()}
+                        {template.where ? ` · ${template.where}` : ''} · {template.paymentMethod} · {template.account}
+                      </p>
+                    </div>
+                  </div>
+                )}
+
+                <div className="flex items-center gap-1 shrink-0">
+                  {isEditing ? (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleSaveEdit(template.id)}
+                        className="h-8 w-8 text-green-600 hover:text-green-700 hover:bg-green-50 dark:hover:bg-green-900/20"
+                      >
+                        <Check className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setEditingId(null)}
+                        className="h-8 w-8 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800"
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </>
+                  ) : (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => {
+                          setEditingId(template.id);
+                          setEditName(templateLabel(template));
+                          setEditAmount(String(template.amount));
+                        }}
+                        className="h-8 w-8 text-blue-500 hover:text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDelete(template.id, templateLabel(template))}
+                        className="h-8 w-8 text-red-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-950/30"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
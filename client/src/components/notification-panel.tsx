@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import { Bell, PiggyBank, Repeat, HandCoins, CreditCard } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import db, { AppNotification } from '@/lib/db';
+import { clearNotifications, markAllRead } from '@/lib/notifications';
+
+const kindIcons = {
+  budget: PiggyBank,
+  recurring: Repeat,
+  receivable: HandCoins,
+  card: CreditCard,
+};
+
+export function NotificationPanel() {
+  const [open, setOpen] = useState(false);
+  const notifications = useLiveQuery(
+    () => db.notifications.orderBy('createdAt').reverse().filter((n) => !n.dismissedAt).toArray()
+  ) || [];
+  const unread = notifications.filter((n) => !n.readAt).length;
+
+  // Everything shown counts as read once the panel is closed again
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next && unread > 0) markAllRead();
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          aria-label="Notifications"
+          className="w-10 h-10 bg-white bg-opacity-20 rounded-lg hover:bg-white hover:bg-opacity-30 transition-all text-white hover:text-white relative"
+        >
+          <Bell className="w-5 h-5" />
+          {unread > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 bg-red-500 rounded-full text-xs flex items-center justify-center">
+              {unread > 9 ? '9+' : unread}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b dark:border-gray-800">
+          <p className="font-semibold text-sm">Notifications</p>
+          {notifications.length > 0 && (
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => clearNotifications()}>
+              Clear all
+            </Button>
+          )}
+        </div>
+        <div className="max-h-96 overflow-y-auto">
+          {notifications.length === 0 ? (
+            <p className="text-center text-sm text-muted-foreground py-8">You're all caught up</p>
+          ) : (
+            notifications.map((notification) => (
+              <NotificationItem key={notification.id} notification={notification} />
+            ))
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function NotificationItem({ notification }: { notification: AppNotification }) {
+  const Icon = kindIcons[notification.kind];
+
+  return (
+    <div className={`flex gap-3 px-4 py-3 border-b last:border-b-0 dark:border-gray-800 ${notification.readAt ? '' : 'bg-primary/5'}`}>
+      <div className="w-8 h-8 shrink-0 rounded-lg bg-primary/10 text-primary flex items-center justify-center">
+        <Icon className="w-4 h-4" />
+      </div>
+      <div className="min-w-0">
+        <p className="text-sm font-medium">{notification.title}</p>
+        <p className="text-xs text-muted-foreground">{notification.body}</p>
+        <p className="text-[11px] text-muted-foreground mt-1">
+          {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+        </p>
+      </div>
+    </div>
+  );
+}
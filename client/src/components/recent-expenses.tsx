@@ -1,11 +1,15 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Clock, ShoppingCart, Utensils, Car, FileText, Tv, Heart, ShoppingBag, Plane, LucideIcon } from 'lucide-react';
-import { useExpenses } from '@/hooks/use-expenses';
+import { Clock } from 'lucide-react';
+import { isIncome, isTransfer, useTransactions } from '@/hooks/use-expenses';
+import { getIconComponent } from '@/components/category-selector';
 import { useLiveQuery } from 'dexie-react-hooks';
 import db from '@/lib/db';
 import { getCategoryColor } from '@/lib/categories';
+import { TRANSFER_CATEGORY } from '@/lib/accounts';
 import { useSettings } from '@/hooks/use-settings';
+import { formatMoney } from '@/lib/currency';
+import { Expense } from '@shared/schema';
 import { format, parseISO, isToday, isYesterday, startOfDay, endOfDay } from 'date-fns';
 import { DateRange } from 'react-day-picker';
 
@@ -15,19 +19,8 @@ interface RecentExpensesProps {
   dateRange?: DateRange;
 }
 
-const iconMap: Record<string, LucideIcon> = {
-  'shopping-cart': ShoppingCart,
-  'utensils': Utensils,
-  'car': Car,
-  'file-text': FileText,
-  'tv': Tv,
-  'heart': Heart,
-  'shopping-bag': ShoppingBag,
-  'plane': Plane,
-};
-
 export function RecentExpenses({ onViewAll, limit = 5, dateRange }: RecentExpensesProps) {
-  const allExpenses = useExpenses();
+  const allExpenses = useTransactions();
   const categories = useLiveQuery(() => db.categories.toArray()) || [];
   const settings = useSettings();
   
@@ -44,15 +37,10 @@ export function RecentExpenses({ onViewAll, limit = 5, dateRange }: RecentExpens
 
   const recentExpenses = expenses.slice(0, limit);
 
-  const getIconComponent = (iconName: string) => {
-    const IconComponent = iconMap[iconName];
-    return IconComponent ? <IconComponent className="w-4 h-4" /> : <FileText className="w-4 h-4" />;
-  };
-
   const getCategoryInfo = (categoryId: string) => {
     return categories.find(cat => cat.id === categoryId) || {
       id: categoryId,
-      name: 'Other',
+      name: categoryId === TRANSFER_CATEGORY ? 'Transfer' : 'Other',
       icon: 'file-text',
       color: 'gray'
     };
@@ -71,8 +59,10 @@ export function RecentExpenses({ onViewAll, limit = 5, dateRange }: RecentExpens
     }
   };
 
-  const formatAmount = (amount: number) => {
-    return `-${currency}${amount.toLocaleString()}`;
+  const formatAmount = (expense: Expense) => {
+    const sign = isIncome(expense) ? '+' : isTransfer(expense) ? '' : '-';
+    if (expense.currency) return `${sign}${formatMoney(expense.amount, expense.currency)}`;
+    return `${sign}${currency}${expense.amount.toLocaleString()}`;
   };
 
   if (recentExpenses.length === 0) {
@@ -120,7 +110,7 @@ export function RecentExpenses({ onViewAll, limit = 5, dateRange }: RecentExpens
               >
                 <div className="flex items-center space-x-3">
                   <div className={`w-10 h-10 rounded-lg flex items-center justify-center ${colors.bg} ${colors.text}`}>
-                    {getIconComponent(category.icon)}
+                    {getIconComponent(category.icon, "w-4 h-4")}
                   </div>
                   <div>
                     <p className="font-medium">{expense.items || category.name}</p>
@@ -133,11 +123,11 @@ export function RecentExpenses({ onViewAll, limit = 5, dateRange }: RecentExpens
                   </div>
                 </div>
                 <div className="text-right">
-                  <p className="font-semibold text-red-600 dark:text-red-400">
-                    {formatAmount(expense.amount)}
+                  <p className={`font-semibold ${isIncome(expense) ? 'text-green-600 dark:text-green-400' : isTransfer(expense) ? 'text-blue-600 dark:text-blue-400' : 'text-red-600 dark:text-red-400'}`}>
+                    {formatAmount(expense)}
                   </p>
                   <p className="text-xs text-gray-500 dark:text-gray-400">
-                    {expense.paymentMethod}
+                    {isTransfer(expense) ? `${expense.account} → ${expense.toAccount}` : expense.paymentMethod}
                   </p>
                 </div>
               </div>
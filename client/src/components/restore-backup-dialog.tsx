@@ -0,0 +1,155 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import db from '@/lib/db';
+import {
+  Backup,
+  BACKUP_TABLES,
+  BACKUP_TABLE_LABELS,
+  RESTORE_MODES,
+  RestoreMode,
+  RestorePlan,
+  applyRestore,
+  planRestore,
+} from '@/lib/backup';
+import { takeSnapshot } from '@/lib/snapshots';
+
+interface RestoreBackupDialogProps {
+  backup: Backup | null;
+  fileName: string;
+  onClose: () => void;
+  onRestored?: (expenseIds: string[]) => void;
+}
+
+// Lets the user pick how a backup is restored and shows what would change first
+export function RestoreBackupDialog({ backup, fileName, onClose, onRestored }: RestoreBackupDialogProps) {
+  const { toast } = useToast();
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [plan, setPlan] = useState<RestorePlan | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    if (backup) setMode('merge');
+  }, [backup]);
+
+  useEffect(() => {
+    setPlan(null);
+    if (!backup) return;
+    let cancelled = false;
+    planRestore(backup, mode)
+      .then((result) => { if (!cancelled) setPlan(result); })
+      .catch((error) => console.error('Failed to plan restore:', error));
+    return () => { cancelled = true; };
+  }, [backup, mode]);
+
+  const handleRestore = async () => {
+    if (!backup) return;
+    setIsRestoring(true);
+    try {
+      // Keep a way back in case the restore was a mistake
+      await takeSnapshot('before-restore');
+      const expenseIds = await applyRestore(backup, mode);
+      toast({ title: "Success", description: "Backup restored successfully!" });
+      onClose();
+      onRestored?.(expenseIds);
+    } catch (error) {
+      console.error('Failed to restore backup:', error);
+      toast({ title: "Error", description: "Failed to restore the backup. Nothing was changed.", variant: "destructive" });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const exportDate = backup?.exportDate ? format(parseISO(backup.exportDate), 'MMM d, yyyy HH:mm') : 'unknown date';
+  const hasChanges = !!plan && (plan.settings || BACKUP_TABLES.some((table) => {
+    const changes = plan.tables[table];
+    return changes.added + changes.updated + changes.removed > 0;
+  }));
+
+  return (
+    <Dialog open={!!backup} onOpenChange={(open) => !open && !isRestoring && onClose()}>
+      <DialogContent className="sm:max-w-md max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Restore Backup</DialogTitle>
+          <DialogDescription>
+            {fileName}, exported {exportDate} (format v{backup?.version}
+            {backup?.schemaVersion ? `, database v${backup.schemaVersion}` : ''})
+          </DialogDescription>
+        </DialogHeader>
+
+        {backup && backup.schemaVersion > db.verno && (
+          <p className="text-sm text-amber-600 dark:text-amber-400">
+            This backup comes from a newer version of the app. Fields this version does not know about may be lost.
+          </p>
+        )}
+
+        <RadioGroup value={mode} onValueChange={(value) => setMode(value as RestoreMode)} className="space-y-2">
+          {(Object.keys(RESTORE_MODES) as RestoreMode[]).map((key) => (
+            <Label
+              key={key}
+              htmlFor={`restore-${key}`}
+              className="flex items-start gap-3 p-3 border rounded-lg cursor-pointer dark:border-gray-800 font-normal"
+            >
+              <RadioGroupItem id={`restore-${key}`} value={key} className="mt-0.5" />
+              <div>
+                <p className="font-medium">{RESTORE_MODES[key].label}</p>
+                <p className="text-xs text-muted-foreground">{RESTORE_MODES[key].description}</p>
+              </div>
+            </Label>
+          ))}
+        </RadioGroup>
+
+        <div className="border rounded-lg dark:border-gray-800">
+          <div className="grid grid-cols-4 gap-2 px-3 py-2 text-xs text-muted-foreground border-b dark:border-gray-800">
+            <span />
+            <span className="text-right">Add</span>
+            <span className="text-right">Update</span>
+            <span className="text-right">Remove</span>
+          </div>
+          {plan ? (
+            BACKUP_TABLES.map((table) => {
+              const changes = plan.tables[table];
+              return (
+                <div key={table} className="grid grid-cols-4 gap-2 px-3 py-1.5 text-sm">
+                  <span className="truncate">{BACKUP_TABLE_LABELS[table]}</span>
+                  <span className="text-right text-green-600">{changes.added || '–'}</span>
+                  <span className="text-right text-blue-600">{changes.updated || '–'}</span>
+                  <span className="text-right text-red-500">{changes.removed || '–'}</span>
+                </div>
+              );
+            })
+          ) : (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          )}
+          {plan && (
+            <p className="px-3 py-2 text-xs text-muted-foreground border-t dark:border-gray-800">
+              {plan.settings ? 'Settings will be restored from the backup.' : 'Settings on this device are kept.'}
+            </p>
+          )}
+        </div>
+
+        <div className="flex space-x-3 pt-2">
+          <Button type="button" variant="outline" className="flex-1" onClick={onClose} disabled={isRestoring}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            className="flex-1"
+            variant={mode === 'replace' ? 'destructive' : 'default'}
+            onClick={handleRestore}
+            disabled={!hasChanges || isRestoring}
+          >
+            {isRestoring ? 'Restoring...' : 'Restore'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
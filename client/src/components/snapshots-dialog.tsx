@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { History, Trash2, Camera } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { useLiveQuery } from 'dexie-react-hooks';
+import db from '@/lib/db';
+import { useToast } from '@/hooks/use-toast';
+import { Backup } from '@/lib/backup';
+import { SNAPSHOT_REASONS, deleteSnapshot, getSnapshotBackup, takeSnapshot } from '@/lib/snapshots';
+
+interface SnapshotsDialogProps {
+  children: React.ReactNode;
+  // Hands the snapshot to the restore dialog, which asks how to apply it
+  onRestore: (backup: Backup, label: string) => void;
+}
+
+export function SnapshotsDialog({ children, onRestore }: SnapshotsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+  const snapshots = useLiveQuery(() => db.snapshots.orderBy('createdAt').reverse().toArray()) || [];
+
+  const handleSnapshotNow = async () => {
+    setIsSaving(true);
+    try {
+      const snapshot = await takeSnapshot('manual');
+      toast(snapshot
+        ? { title: "Success", description: "Snapshot saved." }
+        : { title: "Nothing to save", description: "There is no data to snapshot yet." });
+    } catch (error) {
+      console.error('Failed to take snapshot:', error);
+      toast({ title: "Error", description: "Failed to save snapshot.", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRestore = async (id: string, label: string) => {
+    try {
+      const backup = await getSnapshotBackup(id);
+      if (!backup) throw new Error('Snapshot data is missing');
+      setOpen(false);
+      onRestore(backup, label);
+    } catch (error) {
+      console.error('Failed to open snapshot:', error);
+      toast({ title: "Error", description: "Failed to open snapshot.", variant: "destructive" });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this snapshot?')) return;
+    try {
+      await deleteSnapshot(id);
+    } catch (error) {
+      console.error('Failed to delete snapshot:', error);
+      toast({ title: "Error", description: "Failed to delete snapshot.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="sm:max-w-md max-h-[85vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Restore from Snapshot</DialogTitle>
+          <DialogDescription>
+            Copies of your data saved on this device. A snapshot is also taken before every restore and before clearing data.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto pr-2 space-y-2">
+          {snapshots.length === 0 ? (
+            <p className="text-sm text-center text-muted-foreground py-8">No snapshots yet</p>
+          ) : (
+            snapshots.map((snapshot) => {
+              const label = `Snapshot from ${format(parseISO(snapshot.createdAt), 'MMM d, yyyy HH:mm')}`;
+              return (
+                <div key={snapshot.id} className="flex items-center justify-between p-3 border rounded-lg dark:border-gray-800">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">{format(parseISO(snapshot.createdAt), 'MMM d, yyyy HH:mm')}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {SNAPSHOT_REASONS[snapshot.reason]} · {snapshot.expenseCount} expense(s)
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button variant="outline" size="sm" onClick={() => handleRestore(snapshot.id, label)}>
+                      <History className="w-3.5 h-3.5 mr-1" /> Restore
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8 text-red-500" onClick={() => handleDelete(snapshot.id)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        <Button variant="outline" onClick={handleSnapshotNow} disabled={isSaving}>
+          <Camera className="w-4 h-4 mr-2" />
+          {isSaving ? 'Saving...' : 'Take Snapshot Now'}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,412 @@
+import type { ChangeEvent } from 'react';
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Upload, Save, Trash2 } from 'lucide-react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { format, parseISO } from 'date-fns';
+import db from '@/lib/db';
+import { useToast } from '@/hooks/use-toast';
+import { useSettings } from '@/hooks/use-settings';
+import {
+  BUILT_IN_PRESETS, DATE_FORMATS, DateFormat, StatementGrid, StatementMapping, StatementRow,
+  alignMapping, deletePreset, findHeaderRow, importStatementRows, mapStatementRows, markDuplicates, matchPreset,
+  readStatementFile, savePreset,
+} from '@/lib/statement-import';
+
+type Step = 'upload' | 'map' | 'preview';
+
+const NONE = '__none';
+
+const EMPTY_MAPPING: StatementMapping = {
+  date: '',
+  description: '',
+  amountMode: 'split',
+  debitIsNegative: true,
+  defaultAccount: '',
+  dateFormat: 'auto',
+};
+
+const skipLabels = {
+  credit: 'Credit',
+  invalid: 'Unreadable',
+};
+
+// Wizard for bank/UPI statements: pick a file, map its columns, review, import
+interface StatementImportDialogProps {
+  children: React.ReactNode;
+  onImported?: (ids: string[]) => void;
+}
+
+export function StatementImportDialog({ children, onImported }: StatementImportDialogProps) {
+  const { toast } = useToast();
+  const settings = useSettings();
+  const currency = settings?.currency || '₹';
+  const categories = useLiveQuery(() => db.categories.toArray()) || [];
+  const savedPresets = useLiveQuery(() => db.importPresets.orderBy('name').toArray()) || [];
+  const presets = [...BUILT_IN_PRESETS, ...savedPresets];
+
+  const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<Step>('upload');
+  const [presetId, setPresetId] = useState(NONE);
+  const [fileName, setFileName] = useState('');
+  const [grid, setGrid] = useState<StatementGrid>([]);
+  const [headerRow, setHeaderRow] = useState(0);
+  const [mapping, setMapping] = useState<StatementMapping>(EMPTY_MAPPING);
+  const [category, setCategory] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState('Card');
+  const [presetName, setPresetName] = useState('');
+  const [rows, setRows] = useState<StatementRow[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isImporting, setIsImporting] = useState(false);
+
+  // Mappings name columns by header text, so unnamed columns cannot be picked
+  const headers = useMemo(
+    () => Array.from(new Set((grid[headerRow] || []).filter(Boolean))),
+    [grid, headerRow]
+  );
+
+  const reset = () => {
+    setStep('upload');
+    setPresetId(NONE);
+    setFileName('');
+    setGrid([]);
+    setHeaderRow(0);
+    setMapping(EMPTY_MAPPING);
+    setPresetName('');
+    setRows([]);
+    setSelected(new Set());
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) reset();
+  };
+
+  const update = (patch: Partial<StatementMapping>) => setMapping((current) => ({ ...current, ...patch }));
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const parsed = await readStatementFile(file);
+      if (parsed.length < 2) {
+        toast({ title: "Error", description: "No rows found in this file.", variant: "destructive" });
+        return;
+      }
+
+      const preset = presets.find((p) => p.id === presetId) || matchPreset(parsed, presets);
+      const header = findHeaderRow(parsed, preset?.mapping);
+      setGrid(parsed);
+      setFileName(file.name);
+      setHeaderRow(header);
+      setMapping(preset ? alignMapping(parsed[header], { ...EMPTY_MAPPING, ...preset.mapping }) : EMPTY_MAPPING);
+      if (preset) {
+        setPresetId(preset.id);
+        setPresetName(preset.builtIn ? '' : preset.name);
+      }
+      setStep('map');
+    } catch (error) {
+      console.error(error);
+      toast({ title: "Error", description: "Failed to read the statement file.", variant: "destructive" });
+    }
+  };
+
+  const mappingProblem = (() => {
+    if (!mapping.date || !mapping.description) return 'Map the date and description columns';
+    if (mapping.amountMode === 'single' && !mapping.amount) return 'Map the amount column';
+    if (mapping.amountMode === 'split' && !mapping.debit) return 'Map the debit column';
+    if (!mapping.account && !mapping.defaultAccount.trim()) return 'Pick an account column or enter an account';
+    if (!category) return 'Choose a category for imported expenses';
+    return null;
+  })();
+
+  const handleSavePreset = async () => {
+    if (!presetName.trim()) return;
+    const existing = savedPresets.find((p) => p.name.toLowerCase() === presetName.trim().toLowerCase());
+    const preset = await savePreset(presetName.trim(), mapping, existing?.id);
+    setPresetId(preset.id);
+    toast({ title: "Success", description: `Preset "${preset.name}" saved.` });
+  };
+
+  const handlePreview = async () => {
+    const mapped = await markDuplicates(mapStatementRows(grid, headerRow, mapping));
+    setRows(mapped);
+    setSelected(new Set(mapped.filter((row) => !row.skipReason && !row.duplicateOf).map((row) => row.id)));
+    setStep('preview');
+  };
+
+  const toggleRow = (id: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(id); else next.delete(id);
+    setSelected(next);
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const chosen = rows.filter((row) => selected.has(row.id));
+      const count = await importStatementRows(chosen, { category, paymentMethod });
+      toast({ title: "Success", description: `${count} expense(s) imported from ${fileName}.` });
+      handleOpenChange(false);
+      onImported?.(chosen.map((row) => row.id));
+    } catch (error) {
+      console.error('Failed to import statement:', error);
+      toast({ title: "Error", description: "Failed to import statement.", variant: "destructive" });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const columnSelect = (value: string | undefined, onChange: (value?: string) => void, optional = false) => (
+    <Select value={value && headers.includes(value) ? value : NONE} onValueChange={(v) => onChange(v === NONE ? undefined : v)}>
+      <SelectTrigger className="h-9">
+        <SelectValue placeholder="Select column" />
+      </SelectTrigger>
+      <SelectContent>
+        {optional && <SelectItem value={NONE}>None</SelectItem>}
+        {!optional && <SelectItem value={NONE} disabled>Select column</SelectItem>}
+        {headers.map((header) => (
+          <SelectItem key={header} value={header}>{header}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const importable = rows.filter((row) => !row.skipReason);
+  const selectedTotal = rows.filter((row) => selected.has(row.id)).reduce((sum, row) => sum + row.amount, 0);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Import Bank Statement</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'CSV or XLSX statements from your bank or UPI app.'}
+            {step === 'map' && `Tell us which columns of ${fileName} hold what.`}
+            {step === 'preview' && `${selected.size} of ${importable.length} debit(s) selected.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Preset</Label>
+              <Select value={presetId} onValueChange={setPresetId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Detect automatically</SelectItem>
+                  {presets.map((preset) => (
+                    <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {savedPresets.length > 0 && (
+              <div className="space-y-1">
+                {savedPresets.map((preset) => (
+                  <div key={preset.id} className="flex items-center justify-between text-sm px-2 py-1 rounded-md bg-gray-50 dark:bg-gray-800">
+                    <span>{preset.name}</span>
+                    <Button variant="ghost" size="icon" className="h-7 w-7 text-red-500" onClick={() => deletePreset(preset.id)}>
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <Label htmlFor="statement-file" className="cursor-pointer">
+              <div className="flex flex-col items-center justify-center gap-2 w-full h-28 rounded-md border border-dashed text-sm text-muted-foreground hover:bg-gray-50 dark:hover:bg-gray-800">
+                <Upload className="w-5 h-5" />
+                Choose a .csv or .xlsx file
+              </div>
+            </Label>
+            <input id="statement-file" type="file" accept=".csv,.xlsx,text/csv" className="hidden" onChange={handleFile} />
+          </div>
+        )}
+
+        {step === 'map' && (
+          <div className="flex-1 overflow-y-auto pr-2 space-y-4">
+            <div className="space-y-2">
+              <Label>Header Row</Label>
+              <Select value={String(headerRow)} onValueChange={(v) => setHeaderRow(Number(v))}>
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {grid.slice(0, 20).map((row, i) => (
+                    <SelectItem key={i} value={String(i)}>
+                      {i + 1}: {row.filter(Boolean).join(' | ').slice(0, 60)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Date</Label>
+                {columnSelect(mapping.date, (v) => update({ date: v || '' }))}
+              </div>
+              <div className="space-y-1">
+                <Label>Date Format</Label>
+                <Select value={mapping.dateFormat} onValueChange={(v) => update({ dateFormat: v as DateFormat })}>
+                  <SelectTrigger className="h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DATE_FORMATS.map((fmt) => (
+                      <SelectItem key={fmt} value={fmt}>{fmt === 'auto' ? 'Detect' : fmt}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label>Description</Label>
+              {columnSelect(mapping.description, (v) => update({ description: v || '' }))}
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="split-amounts" className="cursor-pointer">Separate debit and credit columns</Label>
+              <Switch
+                id="split-amounts"
+                checked={mapping.amountMode === 'split'}
+                onCheckedChange={(checked) => update({ amountMode: checked ? 'split' : 'single' })}
+              />
+            </div>
+
+            {mapping.amountMode === 'split' ? (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label>Debit (money out)</Label>
+                  {columnSelect(mapping.debit, (v) => update({ debit: v }))}
+                </div>
+                <div className="space-y-1">
+                  <Label>Credit (money in)</Label>
+                  {columnSelect(mapping.credit, (v) => update({ credit: v }), true)}
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <div className="space-y-1">
+                  <Label>Amount</Label>
+                  {columnSelect(mapping.amount, (v) => update({ amount: v }))}
+                </div>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="debit-negative" className="cursor-pointer text-sm font-normal">Spending is shown as negative</Label>
+                  <Switch
+                    id="debit-negative"
+                    checked={mapping.debitIsNegative !== false}
+                    onCheckedChange={(checked) => update({ debitIsNegative: checked })}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Account Column</Label>
+                {columnSelect(mapping.account, (v) => update({ account: v }), true)}
+              </div>
+              <div className="space-y-1">
+                <Label>{mapping.account ? 'Fallback Account' : 'Account'}</Label>
+                <Input className="h-9" value={mapping.defaultAccount} placeholder="e.g. ICICI" onChange={(e) => update({ defaultAccount: e.target.value })} />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Category</Label>
+                <Select value={category} onValueChange={setCategory}>
+                  <SelectTrigger className="h-9">
+                    <SelectValue placeholder="Select category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {categories.map((cat) => (
+                      <SelectItem key={cat.id} value={cat.id}>{cat.icon} {cat.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Payment Method</Label>
+                <Input className="h-9" value={paymentMethod} onChange={(e) => setPaymentMethod(e.target.value)} />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">Rows mentioning UPI are logged as UPI payments.</p>
+
+            <div className="flex items-end gap-2 border-t pt-4 dark:border-gray-800">
+              <div className="flex-1 space-y-1">
+                <Label>Save Mapping as Preset</Label>
+                <Input className="h-9" value={presetName} placeholder="e.g. Axis Credit Card" onChange={(e) => setPresetName(e.target.value)} />
+              </div>
+              <Button variant="outline" size="icon" className="h-9 w-9" onClick={handleSavePreset} disabled={!presetName.trim()}>
+                <Save className="w-4 h-4" />
+              </Button>
+            </div>
+
+            {mappingProblem && <p className="text-sm text-red-500">{mappingProblem}</p>}
+            <div className="flex space-x-3 pb-1">
+              <Button variant="outline" className="flex-1" onClick={reset}>Back</Button>
+              <Button className="flex-1" onClick={handlePreview} disabled={!!mappingProblem}>Preview</Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <>
+            <div className="flex-1 overflow-y-auto pr-2 space-y-2">
+              {rows.map((row) => (
+                <label
+                  key={row.id}
+                  className={`flex items-center gap-3 p-2 border rounded-lg dark:border-gray-800 ${row.skipReason ? 'opacity-50' : 'cursor-pointer'}`}
+                >
+                  <Checkbox
+                    checked={selected.has(row.id)}
+                    disabled={!!row.skipReason}
+                    onCheckedChange={(checked) => toggleRow(row.id, checked === true)}
+                  />
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm truncate">{row.description || '—'}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {row.date ? format(parseISO(row.date), 'MMM d, yyyy') : `Row ${row.line}`} · {row.account}
+                      {row.skipReason && ` · ${skipLabels[row.skipReason]}`}
+                      {row.duplicateOf && <span className="text-amber-600 dark:text-amber-400"> · Possible duplicate</span>}
+                    </p>
+                  </div>
+                  <span className="text-sm font-medium shrink-0">{currency}{row.amount.toLocaleString()}</span>
+                </label>
+              ))}
+            </div>
+
+            <div className="flex items-center justify-between text-sm border-t pt-3 dark:border-gray-800">
+              <span className="text-muted-foreground">{rows.filter((row) => row.duplicateOf).length} possible duplicate(s) unticked</span>
+              <span className="font-semibold">{currency}{selectedTotal.toLocaleString()}</span>
+            </div>
+            <div className="flex space-x-3">
+              <Button variant="outline" className="flex-1" onClick={() => setStep('map')}>Back</Button>
+              <Button className="flex-1" onClick={handleImport} disabled={selected.size === 0 || isImporting}>
+                {isImporting ? 'Importing...' : `Import ${selected.size}`}
+              </Button>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,5 @@
 import { Card, CardContent } from '@/components/ui/card';
-import { useExpenseTotals } from '@/hooks/use-expenses';
+import { CashFlow, useCashFlowTotals } from '@/hooks/use-expenses';
 import { useSettings } from '@/hooks/use-settings';
 import { DateRange } from 'react-day-picker';
 import { format } from 'date-fns';
@@ -9,27 +9,56 @@ interface StatsOverviewProps {
 }
 
 export function StatsOverview({ dateRange }: StatsOverviewProps) {
-  const { todayTotal, weekTotal, monthTotal, rangeTotal } = useExpenseTotals(dateRange);
+  const { today, week, month, range } = useCashFlowTotals(dateRange);
   const settings = useSettings();
-  
+
   const currency = settings?.currency || '₹';
 
   const formatAmount = (amount: number) => {
-    return `${currency}${amount.toLocaleString()}`;
+    return `${amount < 0 ? '-' : ''}${currency}${Math.abs(amount).toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
   };
 
+  // Spending up top, then what came in and what was left over
+  const renderFlow = (label: string, flow: CashFlow, spentClass: string) => (
+    <Card className="stats-card bg-white dark:bg-gray-800 shadow-sm">
+      <CardContent className="p-4 text-center">
+        <p className="text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wide">{label}</p>
+        <p className={`text-lg font-bold ${spentClass}`}>
+          {formatAmount(flow.expenses)}
+        </p>
+        <p className="text-xs text-green-600 dark:text-green-400">+{formatAmount(flow.income)} in</p>
+        <p className={`text-xs font-medium ${flow.net < 0 ? 'text-red-500' : 'text-gray-600 dark:text-gray-300'}`}>
+          {flow.net < 0 ? 'Over by' : 'Saved'} {formatAmount(Math.abs(flow.net))}
+        </p>
+      </CardContent>
+    </Card>
+  );
+
   if (dateRange?.from) {
     const from = format(dateRange.from, "LLL dd, y");
     const to = dateRange.to ? ` - ${format(dateRange.to, "LLL dd, y")}` : '';
     return (
       <Card className="stats-card bg-white dark:bg-gray-800 shadow-sm">
-        <CardContent className="p-4 text-center">
-          <p className="text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wide">
-            Total for {from}{to}
-          </p>
-          <p className="text-lg font-bold text-green-600 dark:text-green-400">
-            {formatAmount(rangeTotal)}
+        <CardContent className="p-4">
+          <p className="text-xs text-center text-gray-500 dark:text-gray-400 uppercase tracking-wide mb-2">
+            {from}{to}
           </p>
+          <div className="grid grid-cols-3 gap-3 text-center">
+            <div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">Income</p>
+              <p className="text-lg font-bold text-green-600 dark:text-green-400">{formatAmount(range.income)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">Expenses</p>
+              <p className="text-lg font-bold text-red-600 dark:text-red-400">{formatAmount(range.expenses)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">Net</p>
+              <p className={`text-lg font-bold ${range.net < 0 ? 'text-red-600 dark:text-red-400' : 'text-blue-600 dark:text-blue-400'}`}>
+                {formatAmount(range.net)}
+              </p>
+            </div>
+          </div>
         </CardContent>
       </Card>
     );
@@ -37,33 +66,9 @@ export function StatsOverview({ dateRange }: StatsOverviewProps) {
 
   return (
     <div className="grid grid-cols-3 gap-3">
-      <Card className="stats-card bg-white dark:bg-gray-800 shadow-sm">
-        <CardContent className="p-4 text-center">
-          <p className="text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wide">Today</p>
-          <p className="text-lg font-bold text-red-600 dark:text-red-400">
-            {formatAmount(todayTotal)}
-          </p>
-        </CardContent>
-      </Card>
-      
-      <Card className="stats-card bg-white dark:bg-gray-800 shadow-sm">
-        <CardContent className="p-4 text-center">
-          <p className="text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wide">This Week</p>
-          <p className="text-lg font-bold text-blue-600 dark:text-blue-400">
-            {formatAmount(weekTotal)}
-          </p>
-        </CardContent>
-      </Card>
-      
-      <Card className="stats-card bg-white dark:bg-gray-800 shadow-sm">
-        <CardContent className="p-4 text-center">
-          <p className="text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wide">This Month</p>
-          <p className="text-lg font-bold text-purple-600 dark:text-purple-400">
-            {formatAmount(monthTotal)}
-          </p>
-        </CardContent>
-      </Card>
+      {renderFlow('Today', today, 'text-red-600 dark:text-red-400')}
+      {renderFlow('This Week', week, 'text-blue-600 dark:text-blue-400')}
+      {renderFlow('This Month', month, 'text-purple-600 dark:text-purple-400')}
     </div>
   );
 }
-
@@ -0,0 +1,57 @@
+import { Zap, Settings2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useLiveQuery } from 'dexie-react-hooks';
+import db from '@/lib/db';
+import { getCategoryColor } from '@/lib/categories';
+import { cn } from '@/lib/utils';
+import { useSettings } from '@/hooks/use-settings';
+import { useTemplates, useLogTemplate, templateLabel } from '@/hooks/use-templates';
+import { ManageTemplatesDialog } from './manage-templates-dialog';
+
+// One-tap logging from saved templates on the Home quick-add
+export function TemplateQuickAdd() {
+  const templates = useTemplates();
+  const categories = useLiveQuery(() => db.categories.toArray()) || [];
+  const settings = useSettings();
+  const logTemplate = useLogTemplate();
+
+  const currency = settings?.currency || '₹';
+
+  if (templates.length === 0) return null;
+
+  return (
+    <div className="mt-4">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-sm font-medium text-gray-500 dark:text-gray-400 flex items-center gap-1">
+          <Zap className="w-4 h-4 text-primary" /> Templates
+        </p>
+        <ManageTemplatesDialog>
+          <Button variant="ghost" size="sm" className="text-primary h-7">
+            <Settings2 className="w-4 h-4 mr-1" /> Manage
+          </Button>
+        </ManageTemplatesDialog>
+      </div>
+
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {templates.map((template) => {
+          const category = categories.find(c => c.id === template.category);
+          const colors = getCategoryColor(category?.color || 'gray');
+          return (
+            <button
+              key={template.id}
+              disabled={logTemplate.isPending}
+              onClick={() => logTemplate.mutate(template)}
+              className={cn(
+                "shrink-0 px-3 py-2 rounded-full text-xs font-medium transition-all hover:scale-105 disabled:opacity-50",
+                colors.bg,
+                colors.text
+              )}
+            >
+              {templateLabel(template)} · {currency}{template.amount.toLocaleString()}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
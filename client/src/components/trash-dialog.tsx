@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { RotateCcw, Trash2, Receipt, Users, Tags } from 'lucide-react';
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { TrashEntry } from '@/lib/db';
+import { useToast } from '@/hooks/use-toast';
+import { useTrash } from '@/hooks/use-trash';
+import { useSettings } from '@/hooks/use-settings';
+import { formatMoney } from '@/lib/currency';
+import { DEFAULT_TRASH_RETENTION_DAYS, deleteForever, emptyTrash, restoreFromTrash } from '@/lib/trash';
+
+const KIND_ICONS: Record<TrashEntry['kind'], typeof Receipt> = {
+  expense: Receipt,
+  debt: Users,
+  category: Tags,
+};
+
+export function TrashDialog({ children }: { children: React.ReactNode }) {
+  const [open, setOpen] = useState(false);
+  const entries = useTrash();
+  const settings = useSettings();
+  const { toast } = useToast();
+  const retentionDays = settings?.trashRetentionDays || DEFAULT_TRASH_RETENTION_DAYS;
+
+  const handleRestore = async (entry: TrashEntry) => {
+    try {
+      await restoreFromTrash(entry.id);
+      toast({ title: "Restored", description: `${entry.label} is back.` });
+    } catch (error) {
+      console.error('Failed to restore from trash:', error);
+      toast({ title: "Error", description: "Failed to restore.", variant: "destructive" });
+    }
+  };
+
+  const handleDeleteForever = async (entry: TrashEntry) => {
+    if (!confirm(`Permanently delete "${entry.label}"? This cannot be undone.`)) return;
+    try {
+      await deleteForever(entry.id);
+    } catch (error) {
+      console.error('Failed to delete from trash:', error);
+      toast({ title: "Error", description: "Failed to delete.", variant: "destructive" });
+    }
+  };
+
+  const handleEmpty = async () => {
+    if (!confirm('Permanently delete everything in the Trash? This cannot be undone.')) return;
+    try {
+      await emptyTrash();
+    } catch (error) {
+      console.error('Failed to empty trash:', error);
+      toast({ title: "Error", description: "Failed to empty the Trash.", variant: "destructive" });
+    }
+  };
+
+  const amountOf = (entry: TrashEntry) => {
+    if (entry.expense) return formatMoney(entry.expense.amount, entry.expense.currency);
+    if (entry.debt) return formatMoney(entry.debt.amount);
+    return entry.reassigned ? `${entry.reassigned.expenseIds.length} expense(s) moved` : '';
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="sm:max-w-md max-h-[85vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Trash</DialogTitle>
+          <DialogDescription>
+            Deleted expenses, records and categories are kept for {retentionDays} days.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto pr-2 space-y-2">
+          {entries.length === 0 ? (
+            <p className="text-sm text-center text-muted-foreground py-8">Trash is empty</p>
+          ) : (
+            entries.map((entry) => {
+              const Icon = KIND_ICONS[entry.kind];
+              const daysLeft = retentionDays - differenceInCalendarDays(new Date(), parseISO(entry.deletedAt));
+              const amount = amountOf(entry);
+              return (
+                <div key={entry.id} className="flex items-center justify-between p-3 border rounded-lg dark:border-gray-800">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <Icon className="w-4 h-4 shrink-0 text-muted-foreground" />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{entry.label}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {amount ? `${amount} · ` : ''}
+                        Deleted {format(parseISO(entry.deletedAt), 'MMM d')} · {Math.max(daysLeft, 0)}d left
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleRestore(entry)} title="Restore">
+                      <RotateCcw className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8 text-red-500" onClick={() => handleDeleteForever(entry)} title="Delete forever">
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        <Button variant="outline" className="text-red-500" onClick={handleEmpty} disabled={entries.length === 0}>
+          Empty Trash
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,88 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { CalendarClock, Repeat } from 'lucide-react';
+import { useUpcomingExpenses } from '@/hooks/use-expenses';
+import { useLiveQuery } from 'dexie-react-hooks';
+import db from '@/lib/db';
+import { getCategoryColor } from '@/lib/categories';
+import { useSettings } from '@/hooks/use-settings';
+import { formatMoney, toBaseAmount } from '@/lib/currency';
+import { format, parseISO, isTomorrow, differenceInCalendarDays } from 'date-fns';
+
+interface UpcomingExpensesProps {
+  days?: number;
+  limit?: number;
+}
+
+const frequencyLabels = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  yearly: 'Yearly',
+  custom: 'Custom',
+};
+
+export function UpcomingExpenses({ days = 30, limit = 5 }: UpcomingExpensesProps) {
+  const upcoming = useUpcomingExpenses(days);
+  const categories = useLiveQuery(() => db.categories.toArray()) || [];
+  const settings = useSettings();
+
+  const currency = settings?.currency || '₹';
+
+  // Nothing recurring yet, keep the home screen uncluttered
+  if (upcoming.length === 0) return null;
+
+  const total = upcoming.reduce((sum, item) => sum + toBaseAmount(item.expense), 0);
+
+  const formatWhen = (dateStr: string) => {
+    const date = parseISO(dateStr);
+    if (isTomorrow(date)) return 'Tomorrow';
+    const inDays = differenceInCalendarDays(date, new Date());
+    return inDays <= 6 ? `In ${inDays} days` : format(date, 'MMM d');
+  };
+
+  return (
+    <Card className="bg-white dark:bg-gray-800 shadow-sm">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center text-base">
+            <CalendarClock className="w-4 h-4 mr-2 text-primary" />
+            Upcoming
+          </CardTitle>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {currency}{total.toLocaleString()} in {days} days
+          </p>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {upcoming.slice(0, limit).map(({ expense, date }) => {
+            const category = categories.find(cat => cat.id === expense.category);
+            const colors = getCategoryColor(category?.color || 'gray');
+
+            return (
+              <div
+                key={`${expense.id}:${date}`}
+                className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700 rounded-lg"
+              >
+                <div className="flex items-center space-x-3">
+                  <div className={`w-10 h-10 rounded-lg flex items-center justify-center ${colors.bg} ${colors.text}`}>
+                    <Repeat className="w-4 h-4" />
+                  </div>
+                  <div>
+                    <p className="font-medium">{expense.items || category?.name || 'Other'}</p>
+                    <p className="text-xs text-gray-400 dark:text-gray-500">
+                      {formatWhen(date)} · {frequencyLabels[expense.recurrence!.frequency]}
+                    </p>
+                  </div>
+                </div>
+                <p className="font-semibold text-gray-700 dark:text-gray-200">
+                  {expense.currency ? formatMoney(expense.amount, expense.currency) : `${currency}${expense.amount.toLocaleString()}`}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
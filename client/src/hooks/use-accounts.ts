@@ -0,0 +1,28 @@
+import { useMemo } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import db from '@/lib/db';
+import { AccountBalance, getAccountBalances } from '@/lib/accounts';
+import { CardStatement, getCardStatement } from '@/lib/card-statements';
+import { useTransactions } from './use-expenses';
+
+export function useAccounts() {
+  const accounts = useLiveQuery(() => db.accounts.orderBy('name').toArray()) || [];
+
+  return accounts;
+}
+
+export type AccountSummary = AccountBalance & { statement: CardStatement | null };
+
+/** Every account with its running balance and, for credit cards, the current statement. */
+export function useAccountBalances(): AccountSummary[] {
+  const accounts = useAccounts();
+  const transactions = useTransactions();
+
+  return useMemo(
+    () => getAccountBalances(accounts, transactions).map((entry) => ({
+      ...entry,
+      statement: getCardStatement(entry.account, transactions),
+    })),
+    [accounts, transactions]
+  );
+}
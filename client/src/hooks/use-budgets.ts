@@ -1,70 +1,82 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { useLiveQuery } from 'dexie-react-hooks';
 import db from '@/lib/db';
+import { useMemo } from 'react';
 import { Budget, InsertBudget } from '@shared/schema';
 import { useToast } from '@/hooks/use-toast';
-import { useExpensesByCategory } from './use-expenses';
-
-export function useBudgets() {
-  const budgets = useLiveQuery(() => 
-    db.budgets
-      .where('isActive')
-      .equals(1)
-      .toArray()
+import { isSpending } from './use-expenses';
+import { budgetCovers } from '@/lib/budget-scope';
+import { BudgetLedgerEntry, getBudgetLedger, getCurrentWindow, projectSpend } from '@/lib/budget-periods';
+
+// Paused budgets stay on the Budget page but drop out of overviews. isActive is
+// a boolean, which IndexedDB cannot index, so it is filtered in memory.
+export function useBudgets(includePaused = false) {
+  const budgets = useLiveQuery(
+    () => db.budgets
+      .filter(budget => includePaused || budget.isActive !== false)
+      .toArray(),
+    [includePaused]
   ) || [];
 
   return budgets;
 }
 
+/** Every non-template expense the budget's scope and filters cover. */
+export function useBudgetExpenses(budget: Budget) {
+  const expenses = useLiveQuery(
+    () => db.expenses
+      .filter(expense => isSpending(expense) && budgetCovers(budget, expense))
+      .toArray(),
+    [budget.scope, budget.category, budget.categories, budget.accounts, budget.paymentMethods]
+  ) || [];
+
+  return expenses;
+}
+
+function useBudgetLedger(budget: Budget) {
+  const expenses = useBudgetExpenses(budget);
+  return useMemo(
+    () => getBudgetLedger(budget, expenses),
+    [expenses, budget.period, budget.startDate, budget.cycleDays, budget.amount, budget.rollover, budget.adjustments]
+  );
+}
+
 export function useBudgetProgress(budget: Budget) {
-  const expenses = useExpensesByCategory(budget.category);
-  
-  const now = new Date();
-  const startDate = new Date(budget.startDate);
-  
-  let periodStart: Date;
-  let periodEnd: Date;
-
-  switch (budget.period) {
-    case 'weekly':
-      periodStart = new Date(startDate);
-      periodStart.setDate(startDate.getDate() - startDate.getDay());
-      periodEnd = new Date(periodStart);
-      periodEnd.setDate(periodStart.getDate() + 6);
-      break;
-    case 'monthly':
-      periodStart = new Date(now.getFullYear(), now.getMonth(), 1);
-      periodEnd = new Date(now.getFullYear(), now.getMonth() + 1, 0);
-      break;
-    case 'yearly':
-      periodStart = new Date(now.getFullYear(), 0, 1);
-      periodEnd = new Date(now.getFullYear(), 11, 31);
-      break;
-    default:
-      periodStart = startDate;
-      periodEnd = now;
-  }
-
-  const periodExpenses = expenses.filter(expense => {
-    const expenseDate = new Date(expense.date);
-    return expenseDate >= periodStart && expenseDate <= periodEnd;
-  });
+  const ledger = useBudgetLedger(budget);
+  const window = ledger[ledger.length - 1];
 
-  const spent = periodExpenses.reduce((sum, expense) => sum + expense.amount, 0);
-  const remaining = Math.max(0, budget.amount - spent);
-  const percentage = Math.min(100, (spent / budget.amount) * 100);
-  const isOverBudget = spent > budget.amount;
+  const { spent, available, carriedIn, moved } = window;
+  const remaining = Math.max(0, available - spent);
+  const percentage = available > 0 ? Math.min(100, (spent / available) * 100) : 100;
+  const isOverBudget = spent > available;
+  const projected = projectSpend(spent, window);
 
   return {
     spent,
+    available,
+    carriedIn,
+    moved,
     remaining,
     percentage,
     isOverBudget,
-    periodStart: periodStart.toISOString().split('T')[0],
-    periodEnd: periodEnd.toISOString().split('T')[0],
+    projected,
+    isProjectedOver: projected > available,
+    periodStart: window.periodStart,
+    periodEnd: window.periodEnd,
+    daysRemaining: window.daysRemaining,
   };
 }
 
+/**
+ * Spent vs available for the windows before the current one, newest first,
+ * back to the window that starts on the budget's start date. The current limit
+ * is used for every period since amount changes are not versioned.
+ */
+export function useBudgetHistory(budget: Budget, count = 6): BudgetLedgerEntry[] {
+  const ledger = useBudgetLedger(budget);
+  return ledger.slice(0, -1).reverse().slice(0, count);
+}
+
 export function useAddBudget() {
   const queryClient = useQueryClient();
   const { toast } = useToast();
@@ -99,3 +111,133 @@ export function useAddBudget() {
     },
   });
 }
+
+export function useUpdateBudget() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (budget: Budget) => {
+      const updatedBudget = {
+        ...budget,
+        updatedAt: new Date().toISOString(),
+      };
+
+      await db.budgets.update(budget.id, updatedBudget);
+      return updatedBudget;
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Budget updated successfully!",
+      });
+      queryClient.invalidateQueries({ queryKey: ['budgets'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to update budget. Please try again.",
+        variant: "destructive",
+      });
+      console.error('Failed to update budget:', error);
+    },
+  });
+}
+
+export function useToggleBudget() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      await db.budgets.update(id, { isActive, updatedAt: new Date().toISOString() });
+      return isActive;
+    },
+    onSuccess: (isActive) => {
+      toast({
+        title: "Success",
+        description: isActive ? "Budget resumed." : "Budget paused.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['budgets'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to update budget. Please try again.",
+        variant: "destructive",
+      });
+      console.error('Failed to toggle budget:', error);
+    },
+  });
+}
+
+export function useDeleteBudget() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      await db.budgets.delete(id);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Budget deleted successfully!",
+      });
+      queryClient.invalidateQueries({ queryKey: ['budgets'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to delete budget. Please try again.",
+        variant: "destructive",
+      });
+      console.error('Failed to delete budget:', error);
+    },
+  });
+}
+
+/**
+ * Envelope move: takes `amount` out of one budget's current period and adds it
+ * to another's. Each side records the move against its own current window.
+ */
+export function useMoveBudgetMoney() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ fromId, toId, amount }: { fromId: string; toId: string; amount: number }) => {
+      await db.transaction('rw', db.budgets, async () => {
+        const [from, to] = await db.budgets.bulkGet([fromId, toId]);
+        if (!from || !to) throw new Error('Budget not found');
+
+        const now = new Date().toISOString();
+        const adjust = (budget: Budget, delta: number, note: string) => db.budgets.update(budget.id, {
+          adjustments: [
+            ...(budget.adjustments || []),
+            { id: crypto.randomUUID(), periodStart: getCurrentWindow(budget).periodStart, amount: delta, note, createdAt: now },
+          ],
+          updatedAt: now,
+        });
+
+        await adjust(from, -amount, `Moved to ${to.name}`);
+        await adjust(to, amount, `Moved from ${from.name}`);
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Money moved between budgets.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['budgets'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to move money. Please try again.",
+        variant: "destructive",
+      });
+      console.error('Failed to move budget money:', error);
+    },
+  });
+}
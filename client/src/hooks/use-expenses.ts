@@ -1,27 +1,52 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { useLiveQuery } from 'dexie-react-hooks';
 import db from '@/lib/db';
+import { getUpcomingExpenses } from '@/lib/recurring';
+import { toBaseAmount } from '@/lib/currency';
 import { Expense, InsertExpense } from '@shared/schema';
 import { useToast } from '@/hooks/use-toast';
+import { useUndoToast } from '@/hooks/use-trash';
+import { trashExpense } from '@/lib/trash';
 import { DateRange } from 'react-day-picker';
 import { startOfDay, endOfDay, startOfWeek, endOfWeek, startOfMonth, endOfMonth, parseISO } from 'date-fns';
 
+// Templates, income and transfers share the expenses table but are not spending
+export const isTransaction = (expense: Expense) => !expense.isTemplate;
+export const isIncome = (expense: Expense) => isTransaction(expense) && expense.type === 'income';
+export const isTransfer = (expense: Expense) => isTransaction(expense) && expense.type === 'transfer';
+export const isSpending = (expense: Expense) => isTransaction(expense) && (!expense.type || expense.type === 'expense');
+
 export function useExpenses() {
   const expenses = useLiveQuery(() =>
     db.expenses
       .orderBy('createdAt')
       .reverse()
+      .filter(isSpending)
       .toArray()
   ) || [];
 
   return expenses;
 }
 
+/** Expenses, income and transfers together, newest first. */
+export function useTransactions() {
+  const transactions = useLiveQuery(() =>
+    db.expenses
+      .orderBy('createdAt')
+      .reverse()
+      .filter(isTransaction)
+      .toArray()
+  ) || [];
+
+  return transactions;
+}
+
 export function useExpensesByDateRange(startDate: string, endDate: string) {
   const expenses = useLiveQuery(() =>
     db.expenses
       .where('date')
       .between(startDate, endDate, true, true)
+      .filter(isSpending)
       .toArray()
   ) || [];
 
@@ -33,6 +58,7 @@ export function useExpensesByCategory(category: string) {
     db.expenses
       .where('category')
       .equals(category)
+      .filter(isSpending)
       .toArray()
   ) || [];
 
@@ -44,12 +70,19 @@ export function useExpensesByAccount(account: string) {
       db.expenses
         .where('account')
         .equals(account)
+        .filter(isSpending)
         .toArray()
     ) || [];
 
     return expenses;
   }
 
+export function useUpcomingExpenses(days = 30) {
+  const expenses = useExpenses();
+
+  return getUpcomingExpenses(expenses, days);
+}
+
 export function useAddExpense() {
   const queryClient = useQueryClient();
   const { toast } = useToast();
@@ -120,16 +153,12 @@ export function useUpdateExpense() {
 export function useDeleteExpense() {
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const showUndo = useUndoToast();
 
   return useMutation({
-    mutationFn: async (id: string) => {
-      await db.expenses.delete(id);
-    },
-    onSuccess: () => {
-      toast({
-        title: "Success",
-        description: "Expense deleted successfully!",
-      });
+    mutationFn: (id: string) => trashExpense(id),
+    onSuccess: (entryId) => {
+      showUndo(entryId, "Expense deleted");
       queryClient.invalidateQueries({ queryKey: ['expenses'] });
     },
     onError: (error) => {
@@ -143,48 +172,39 @@ export function useDeleteExpense() {
   });
 }
 
-export function useExpenseTotals(dateRange?: DateRange) {
-  const expenses = useExpenses();
-  
-  const now = new Date();
+export interface CashFlow {
+  income: number;
+  expenses: number;
+  net: number; // What was saved: income less expenses
+}
+
+function cashFlowBetween(transactions: Expense[], from: Date, to: Date): CashFlow {
+  let income = 0;
+  let expenses = 0;
+  for (const transaction of transactions) {
+    const date = parseISO(transaction.date);
+    if (date < from || date > to) continue;
+    if (isIncome(transaction)) income += toBaseAmount(transaction);
+    else if (isSpending(transaction)) expenses += toBaseAmount(transaction);
+  }
+  return { income, expenses, net: income - expenses };
+}
 
-  const todayTotal = expenses
-    .filter(e => {
-        const expenseDate = parseISO(e.date);
-        return expenseDate >= startOfDay(now) && expenseDate <= endOfDay(now);
-    })
-    .reduce((sum, expense) => sum + expense.amount, 0);
-
-  const weekTotal = expenses
-    .filter(e => {
-        const expenseDate = parseISO(e.date);
-        return expenseDate >= startOfWeek(now) && expenseDate <= endOfWeek(now);
-    })
-    .reduce((sum, expense) => sum + expense.amount, 0);
-
-  const monthTotal = expenses
-    .filter(e => {
-        const expenseDate = parseISO(e.date);
-        return expenseDate >= startOfMonth(now) && expenseDate <= endOfMonth(now);
-    })
-    .reduce((sum, expense) => sum + expense.amount, 0);
-  
-  const rangeTotal = dateRange?.from
-    ? expenses
-        .filter(e => {
-            const expenseDate = parseISO(e.date);
-            const from = startOfDay(dateRange.from!);
-            const to = dateRange.to ? endOfDay(dateRange.to) : endOfDay(dateRange.from!);
-            return expenseDate >= from && expenseDate <= to;
-        })
-        .reduce((sum, expense) => sum + expense.amount, 0)
-    : 0;
+export function useCashFlowTotals(dateRange?: DateRange) {
+  const transactions = useTransactions();
 
+  const now = new Date();
 
   return {
-    todayTotal,
-    weekTotal,
-    monthTotal,
-    rangeTotal,
+    today: cashFlowBetween(transactions, startOfDay(now), endOfDay(now)),
+    week: cashFlowBetween(transactions, startOfWeek(now), endOfWeek(now)),
+    month: cashFlowBetween(transactions, startOfMonth(now), endOfMonth(now)),
+    range: dateRange?.from
+      ? cashFlowBetween(
+          transactions,
+          startOfDay(dateRange.from),
+          dateRange.to ? endOfDay(dateRange.to) : endOfDay(dateRange.from),
+        )
+      : { income: 0, expenses: 0, net: 0 },
   };
-}
\ No newline at end of file
+}
@@ -3,6 +3,7 @@ import { useMutation, useQueryClient } from '@tanstack/react-query';
 import db from '@/lib/db';
 import { Settings, InsertSettings } from '@shared/schema';
 import { useToast } from '@/hooks/use-toast';
+import { getBaseCurrency } from '@/lib/currency';
 
 export function useSettings() {
   const settings = useLiveQuery(() => 
@@ -12,6 +13,12 @@ export function useSettings() {
   return settings;
 }
 
+export function useBaseCurrency() {
+  const settings = useSettings();
+
+  return getBaseCurrency(settings);
+}
+
 export function useUpdateSettings() {
   const queryClient = useQueryClient();
   const { toast } = useToast();
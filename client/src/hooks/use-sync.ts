@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { subscribeSync, getSyncSnapshot } from '@/lib/sync';
+
+export function useSyncStatus() {
+  return useSyncExternalStore(subscribeSync, getSyncSnapshot);
+}
@@ -0,0 +1,134 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useLiveQuery } from 'dexie-react-hooks';
+import db from '@/lib/db';
+import { Expense, InsertExpense } from '@shared/schema';
+import { useToast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+
+// Templates are expenses flagged with `isTemplate`, so they sync like any other
+// expense. They are never counted as spending (see isSpending).
+
+export type TemplateInput = InsertExpense & { templateName: string };
+
+export const templateLabel = (template: Expense) =>
+  template.templateName || template.items || template.where || 'Template';
+
+export function useTemplates() {
+  const templates = useLiveQuery(() =>
+    db.expenses
+      .filter((expense) => !!expense.isTemplate)
+      .toArray()
+  ) || [];
+
+  return [...templates].sort((a, b) => templateLabel(a).localeCompare(templateLabel(b)));
+}
+
+export function useSaveTemplate() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (template: TemplateInput) => {
+      const now = new Date().toISOString();
+      // Dates, attachments and recurrence belong to real expenses, not templates
+      const { id, attachments, recurrence, recurringSourceId, ...fields } = template;
+      const record = {
+        ...fields,
+        templateName: template.templateName.trim(),
+        isTemplate: true,
+        isRecurring: false,
+        updatedAt: now,
+      };
+
+      if (id) {
+        await db.expenses.update(id, record);
+        return id;
+      }
+      const newId = crypto.randomUUID();
+      await db.expenses.add({ ...record, id: newId, createdAt: now });
+      return newId;
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Template saved!",
+      });
+      queryClient.invalidateQueries({ queryKey: ['templates'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to save template. Please try again.",
+        variant: "destructive",
+      });
+      console.error('Failed to save template:', error);
+    },
+  });
+}
+
+export function useDeleteTemplate() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      await db.expenses.delete(id);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Template deleted.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['templates'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to delete template. Please try again.",
+        variant: "destructive",
+      });
+      console.error('Failed to delete template:', error);
+    },
+  });
+}
+
+/** Logs a new expense from a template, dated now. */
+export function useLogTemplate() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (template: Expense) => {
+      const now = new Date();
+      const { templateName, ...fields } = template;
+      const expense: Expense = {
+        ...fields,
+        id: crypto.randomUUID(),
+        date: format(now, 'yyyy-MM-dd'),
+        time: format(now, 'HH:mm'),
+        isTemplate: false,
+        isRecurring: false,
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString(),
+      };
+
+      await db.expenses.add(expense);
+      return expense;
+    },
+    onSuccess: (_expense, template) => {
+      toast({
+        title: "Success",
+        description: `Logged ${templateLabel(template)}!`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['expenses'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to log expense. Please try again.",
+        variant: "destructive",
+      });
+      console.error('Failed to log template:', error);
+    },
+  });
+}
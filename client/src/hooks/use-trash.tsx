@@ -0,0 +1,40 @@
+import { useLiveQuery } from 'dexie-react-hooks';
+import db from '@/lib/db';
+import { restoreFromTrash } from '@/lib/trash';
+import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
+
+export function useTrash() {
+  const entries = useLiveQuery(() =>
+    db.trash
+      .orderBy('deletedAt')
+      .reverse()
+      .toArray()
+  ) || [];
+
+  return entries;
+}
+
+/** Shows the "moved to trash" toast with an Undo button. */
+export function useUndoToast() {
+  const { toast } = useToast();
+
+  return (entryId: string | null, title: string) => {
+    if (!entryId) return;
+    const undo = async () => {
+      try {
+        await restoreFromTrash(entryId);
+        toast({ title: "Restored", description: "The deleted item is back." });
+      } catch (error) {
+        console.error('Failed to restore from trash:', error);
+        toast({ title: "Error", description: "Failed to restore. It is still in the Trash.", variant: "destructive" });
+      }
+    };
+
+    toast({
+      title,
+      description: "Moved to Trash.",
+      action: <ToastAction altText="Undo delete" onClick={undo}>Undo</ToastAction>,
+    });
+  };
+}
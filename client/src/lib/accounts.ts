@@ -0,0 +1,218 @@
+import db from './db';
+import { amountPaid } from './splits';
+import { SEEDED_AT } from './categories';
+import { Account, AccountType, Expense, InsertAccount } from '@shared/schema';
+
+// ============================================================================
+// Accounts.
+//
+// Transactions name their account (and a transfer its destination) instead of
+// pointing at an id, which keeps imports, budget filters and older records
+// working as they are. The accounts table adds a type and an opening balance
+// on top, and renaming or merging an account rewrites those names in place.
+// ============================================================================
+
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  bank: 'Bank',
+  wallet: 'Wallet',
+  credit_card: 'Credit Card',
+  cash: 'Cash',
+};
+
+// Transfers have no category or payment method; these fill the required fields
+export const TRANSFER_CATEGORY = 'transfer';
+export const TRANSFER_METHOD = 'Transfer';
+
+/** Best guess at the kind of account from its name, for accounts found in old records. */
+export function guessAccountType(name: string): AccountType {
+  if (/cash/i.test(name)) return 'cash';
+  if (/credit|card|amex/i.test(name)) return 'credit_card';
+  if (/wallet|paytm|phonepe|gpay|google pay|amazon pay|paypal/i.test(name)) return 'wallet';
+  return 'bank';
+}
+
+// Ids come from the name, so devices that create the same account on their own
+// end up with one record after syncing
+function accountIdFor(name: string, taken: Set<string>) {
+  const slug = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'account';
+  return taken.has(slug) ? crypto.randomUUID() : slug;
+}
+
+/**
+ * Adds an account for every name used by a transaction that has none yet,
+ * e.g. after an import or a sync from a device with older records. A new
+ * install with no records at all gets a Cash account to start with.
+ */
+export async function addMissingAccounts(): Promise<number> {
+  return db.transaction('rw', db.accounts, db.expenses, async () => {
+    const accounts = await db.accounts.toArray();
+    const known = new Set(accounts.map((account) => account.name));
+    const taken = new Set(accounts.map((account) => account.id));
+
+    const names = new Set<string>();
+    await db.expenses.each((expense) => {
+      if (expense.account) names.add(expense.account);
+      if (expense.toAccount) names.add(expense.toAccount);
+    });
+    const starter = accounts.length === 0 && names.size === 0;
+    if (starter) names.add('Cash');
+
+    const now = new Date().toISOString();
+    // The starter account must not outrank the user's own Cash account on the server
+    const updatedAt = starter ? SEEDED_AT.toISOString() : now;
+    const added: Account[] = [];
+    for (const name of Array.from(names)) {
+      if (known.has(name)) continue;
+      const id = accountIdFor(name, taken);
+      taken.add(id);
+      added.push({ id, name, type: guessAccountType(name), openingBalance: 0, createdAt: now, updatedAt });
+    }
+    await db.accounts.bulkAdd(added);
+    return added.length;
+  });
+}
+
+// Billing details only apply to credit cards; undefined drops them from the record
+const cardDetails = (values: InsertAccount) => values.type === 'credit_card'
+  ? { statementDay: values.statementDay, dueDay: values.dueDay, creditLimit: values.creditLimit }
+  : { statementDay: undefined, dueDay: undefined, creditLimit: undefined };
+
+async function assertNameFree(name: string, exceptId?: string) {
+  const clash = await db.accounts
+    .filter((account) => account.id !== exceptId && account.name.toLowerCase() === name.toLowerCase())
+    .first();
+  if (clash) throw new Error(`There is already an account called ${clash.name}`);
+}
+
+export async function createAccount(values: InsertAccount): Promise<Account> {
+  const name = values.name.trim();
+  return db.transaction('rw', db.accounts, async () => {
+    await assertNameFree(name);
+    const taken = new Set((await db.accounts.toCollection().primaryKeys()) as string[]);
+    const now = new Date().toISOString();
+    const account: Account = {
+      id: accountIdFor(name, taken),
+      name,
+      type: values.type,
+      openingBalance: values.openingBalance ?? 0,
+      ...cardDetails(values),
+      createdAt: now,
+      updatedAt: now,
+    };
+    await db.accounts.add(account);
+    return account;
+  });
+}
+
+// Points every transaction, template and budget filter using `from` at `to`
+async function moveReferences(from: string, to: string, now: string) {
+  await db.expenses.where('account').equals(from).modify({ account: to, updatedAt: now });
+  await db.expenses.filter((expense) => expense.toAccount === from).modify({ toAccount: to, updatedAt: now });
+  await db.budgets
+    .filter((budget) => !!budget.accounts?.includes(from))
+    .modify((budget) => {
+      budget.accounts = Array.from(new Set(budget.accounts!.map((name) => (name === from ? to : name))));
+      budget.updatedAt = now;
+    });
+}
+
+/** Saves an account's details. A new name is carried over to everything that used the old one. */
+export async function updateAccount(id: string, values: InsertAccount) {
+  const name = values.name.trim();
+  await db.transaction('rw', db.accounts, db.expenses, db.budgets, async () => {
+    const account = await db.accounts.get(id);
+    if (!account) throw new Error('Account not found');
+    await assertNameFree(name, id);
+
+    const now = new Date().toISOString();
+    if (name !== account.name) await moveReferences(account.name, name, now);
+    await db.accounts.update(id, {
+      name,
+      type: values.type,
+      openingBalance: values.openingBalance ?? 0,
+      ...cardDetails(values),
+      updatedAt: now,
+    });
+  });
+}
+
+/**
+ * Folds `sourceId` into `targetId`: its transactions move over, the opening
+ * balances are added up and the source account is removed.
+ */
+export async function mergeAccounts(sourceId: string, targetId: string) {
+  if (sourceId === targetId) return;
+  await db.transaction('rw', db.accounts, db.expenses, db.budgets, async () => {
+    const [source, target] = await Promise.all([db.accounts.get(sourceId), db.accounts.get(targetId)]);
+    if (!source || !target) throw new Error('Account not found');
+
+    const now = new Date().toISOString();
+    await moveReferences(source.name, target.name, now);
+    await db.accounts.update(targetId, { openingBalance: target.openingBalance + source.openingBalance, updatedAt: now });
+    await db.accounts.delete(sourceId);
+  });
+}
+
+/** How many transactions and templates use an account, from either end of a transfer. */
+export async function countAccountUsage(name: string) {
+  const [from, to] = await Promise.all([
+    db.expenses.where('account').equals(name).count(),
+    db.expenses.filter((expense) => expense.toAccount === name).count(),
+  ]);
+  return from + to;
+}
+
+/** Deletes an account nothing uses. Accounts in use are merged into another instead. */
+export async function deleteAccount(id: string) {
+  await db.transaction('rw', db.accounts, db.expenses, db.budgets, async () => {
+    const account = await db.accounts.get(id);
+    if (!account) return;
+    if (await countAccountUsage(account.name) > 0) throw new Error('Account is in use');
+
+    const now = new Date().toISOString();
+    await db.budgets
+      .filter((budget) => !!budget.accounts?.includes(account.name))
+      .modify((budget) => {
+        budget.accounts = budget.accounts!.filter((name) => name !== account.name);
+        budget.updatedAt = now;
+      });
+    await db.accounts.delete(id);
+  });
+}
+
+export interface AccountBalance {
+  account: Account;
+  balance: number; // In the base currency
+  transactionCount: number;
+}
+
+/**
+ * Running balance of each account: the opening balance, plus income received
+ * into it, less spending from it (the whole bill for a split expense), with
+ * transfers moving money from one end to the other. Pass transactions only,
+ * never templates.
+ */
+export function getAccountBalances(accounts: Account[], transactions: Expense[]): AccountBalance[] {
+  const byName = new Map(accounts.map((account) => [
+    account.name,
+    { account, balance: account.openingBalance || 0, transactionCount: 0 } as AccountBalance,
+  ]));
+
+  for (const transaction of transactions) {
+    const amount = amountPaid(transaction);
+    const from = byName.get(transaction.account);
+    if (from) {
+      from.balance += transaction.type === 'income' ? amount : -amount;
+      from.transactionCount++;
+    }
+    if (transaction.type === 'transfer' && transaction.toAccount) {
+      const to = byName.get(transaction.toAccount);
+      if (to) {
+        to.balance += amount;
+        to.transactionCount++;
+      }
+    }
+  }
+
+  return Array.from(byName.values());
+}
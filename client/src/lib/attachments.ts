@@ -0,0 +1,76 @@
+import db, { ExpenseAttachment, dataUrlToBlob, inlineAttachmentsOf } from './db';
+import { Expense } from '@shared/schema';
+
+// ============================================================================
+// Expense attachments (receipts, invoices).
+//
+// Files are stored as Blobs in db.attachments, linked by expenseId. They never
+// leave the device through sync, only through JSON backups where they travel
+// as data URLs.
+// ============================================================================
+
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+
+export const isAcceptedFile = (file: File) =>
+  file.type.startsWith('image/') || file.type === 'application/pdf';
+
+export const isPdf = (attachment: Pick<ExpenseAttachment, 'type'>) => attachment.type === 'application/pdf';
+
+// Shape used inside backup files
+export interface BackupAttachment extends Omit<ExpenseAttachment, 'blob'> {
+  data: string;
+}
+
+/** Wraps a picked file as an attachment that is not yet linked to an expense. */
+export function fromFile(file: File): ExpenseAttachment {
+  return {
+    id: crypto.randomUUID(),
+    expenseId: '',
+    name: file.name,
+    type: file.type,
+    size: file.size,
+    blob: file,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+export function getAttachments(expenseId: string) {
+  return db.attachments.where('expenseId').equals(expenseId).sortBy('createdAt');
+}
+
+/** Makes `attachments` the full set for an expense, dropping any that were removed. */
+export async function saveAttachments(expenseId: string, attachments: ExpenseAttachment[]) {
+  await db.transaction('rw', db.attachments, async () => {
+    const keep = new Set(attachments.map((a) => a.id));
+    await db.attachments
+      .where('expenseId').equals(expenseId)
+      .filter((a) => !keep.has(a.id))
+      .delete();
+    await db.attachments.bulkPut(attachments.map((a) => ({ ...a, expenseId })));
+  });
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+export function toBackup(attachments: ExpenseAttachment[]): Promise<BackupAttachment[]> {
+  return Promise.all(attachments.map(async ({ blob, ...rest }) => ({ ...rest, data: await blobToDataUrl(blob) })));
+}
+
+export function fromBackup(attachments: BackupAttachment[]): ExpenseAttachment[] {
+  return attachments.map(({ data, ...rest }) => ({ ...rest, blob: dataUrlToBlob(data) }));
+}
+
+/** Older backups kept attachments inline on each expense. */
+export function splitLegacyAttachments(expenses: Expense[]) {
+  return {
+    expenses: expenses.map(({ attachments, ...expense }) => expense),
+    attachments: expenses.flatMap(inlineAttachmentsOf),
+  };
+}
@@ -0,0 +1,82 @@
+// ============================================================================
+// Passphrase-encrypted backups.
+//
+// The backup JSON is encrypted with AES-GCM under a key derived from the
+// passphrase with PBKDF2. Salt and IV are random per file and stored next to
+// the ciphertext, so the same passphrase can be reused across backups. The
+// passphrase itself is never stored anywhere.
+// ============================================================================
+
+export const ENCRYPTED_BACKUP_FORMAT = 'expense-tracker-encrypted-backup';
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+const PBKDF2_ITERATIONS = 310000;
+
+export interface EncryptedBackup {
+  format: typeof ENCRYPTED_BACKUP_FORMAT;
+  version: 1;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  data: string; // Base64 ciphertext of the backup JSON
+}
+
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super('The passphrase is wrong or the file is damaged');
+    this.name = 'WrongPassphraseError';
+  }
+}
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach((byte) => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number) {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+}
+
+export function isEncryptedBackup(data: unknown): data is EncryptedBackup {
+  return !!data && typeof data === 'object' && (data as EncryptedBackup).format === ENCRYPTED_BACKUP_FORMAT;
+}
+
+export async function encryptBackup(plaintext: string, passphrase: string): Promise<EncryptedBackup> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+
+  return {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    version: 1,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+    data: toBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+/** Returns the backup JSON inside `encrypted`. Throws WrongPassphraseError if it cannot be opened. */
+export async function decryptBackup(encrypted: EncryptedBackup, passphrase: string): Promise<string> {
+  const key = await deriveKey(passphrase, fromBase64(encrypted.kdf.salt), encrypted.kdf.iterations);
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(encrypted.cipher.iv) },
+      key,
+      fromBase64(encrypted.data),
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    // AES-GCM authentication fails the same way for a wrong key and a tampered file
+    throw new WrongPassphraseError();
+  }
+}
@@ -0,0 +1,333 @@
+import db, { DebtPayment, DebtRecord, ExpenseAttachment, Group, GroupExpense } from './db';
+import { Account, Budget, Category, Expense, Settings } from '@shared/schema';
+import { BackupAttachment, fromBackup, splitLegacyAttachments, toBackup } from './attachments';
+import { addMissingAccounts } from './accounts';
+
+// ============================================================================
+// JSON backups.
+//
+// A backup is a versioned snapshot of everything the user entered. Restoring
+// one is planned first (a dry run that counts what each table would gain,
+// change or lose) and then applied in one transaction, so a restore on a
+// device that already has data never fails half way on a key conflict.
+// ============================================================================
+
+// Bump when the file layout changes; files without a version are 1
+export const BACKUP_VERSION = 2;
+
+export interface Backup {
+  version: number;
+  schemaVersion: number; // Local database version of the device that made it
+  exportDate: string;
+  expenses: Expense[];
+  budgets: Budget[];
+  categories: Category[];
+  accounts: Account[];
+  debts: DebtRecord[];
+  debtPayments: DebtPayment[];
+  groups: Group[];
+  groupExpenses: GroupExpense[];
+  attachments: ExpenseAttachment[];
+  settings?: Settings;
+}
+
+// What goes in the file: attachment blobs are written out as data URLs
+export type BackupFile = Omit<Backup, 'attachments'> & { attachments: BackupAttachment[] };
+
+export const RESTORE_MODES = {
+  replace: { label: 'Replace all', description: 'Delete what is on this device and restore the backup as is.' },
+  merge: { label: 'Merge', description: 'Add new records and keep the newest copy of records found in both.' },
+  add: { label: 'Add only new', description: 'Add records this device does not have and leave the rest untouched.' },
+} as const;
+
+export type RestoreMode = keyof typeof RESTORE_MODES;
+
+export const BACKUP_TABLES = ['expenses', 'budgets', 'categories', 'accounts', 'debts', 'debtPayments', 'groups', 'groupExpenses', 'attachments'] as const;
+export type BackupTable = typeof BACKUP_TABLES[number];
+
+export const BACKUP_TABLE_LABELS: Record<BackupTable, string> = {
+  expenses: 'Expenses',
+  budgets: 'Budgets',
+  categories: 'Categories',
+  accounts: 'Accounts',
+  debts: 'Dues & receivables',
+  debtPayments: 'Repayments',
+  groups: 'Groups',
+  groupExpenses: 'Group bills',
+  attachments: 'Attachments',
+};
+
+export interface TableChanges {
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+}
+
+export interface RestorePlan {
+  mode: RestoreMode;
+  tables: Record<BackupTable, TableChanges>;
+  settings: boolean; // Whether the backup's settings will be applied
+}
+
+/** Everything a backup holds, read straight from the database. */
+export async function readBackup(): Promise<Backup> {
+  const [expenses, budgets, categories, accounts, debts, debtPayments, groups, groupExpenses, attachments, settings] = await Promise.all([
+    db.expenses.toArray(),
+    db.budgets.toArray(),
+    db.categories.toArray(),
+    db.accounts.toArray(),
+    db.debts.toArray(),
+    db.debtPayments.toArray(),
+    db.groups.toArray(),
+    db.groupExpenses.toArray(),
+    db.attachments.toArray(),
+    db.settings.get('default'),
+  ]);
+
+  return {
+    version: BACKUP_VERSION,
+    schemaVersion: db.verno,
+    exportDate: new Date().toISOString(),
+    expenses,
+    budgets,
+    categories,
+    accounts,
+    // The auto-increment key is local to each device; debts match on uuid
+    debts: debts.map(({ id, ...debt }) => debt),
+    debtPayments,
+    groups,
+    groupExpenses,
+    attachments,
+    settings,
+  };
+}
+
+/** A backup ready to be written to a file. */
+export async function createBackup(): Promise<BackupFile> {
+  const backup = await readBackup();
+  return { ...backup, attachments: await toBackup(backup.attachments) };
+}
+
+/** Reads the parsed JSON of a backup file of any version into the current layout. */
+export function parseBackup(input: unknown): Backup {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('Not a backup file');
+  }
+  const data = input as Record<string, unknown>;
+  const version = Number(data.version) || 1;
+  if (version > BACKUP_VERSION) {
+    throw new Error('This backup was made by a newer version of the app');
+  }
+
+  const list = <T>(value: unknown) => (Array.isArray(value) ? value as T[] : []);
+  // Version 1 files kept attachments inline on each expense
+  const { expenses, attachments } = splitLegacyAttachments(list<Expense>(data.expenses));
+
+  return {
+    version,
+    schemaVersion: Number(data.schemaVersion) || 0,
+    exportDate: typeof data.exportDate === 'string' ? data.exportDate : '',
+    expenses,
+    budgets: list<Budget>(data.budgets),
+    categories: list<Category>(data.categories),
+    accounts: list<Account>(data.accounts), // Files from before accounts have none
+    debts: list<DebtRecord>(data.debts).map(({ id, ...debt }) => ({ ...debt, uuid: debt.uuid || crypto.randomUUID() })),
+    debtPayments: list<DebtPayment>(data.debtPayments),
+    groups: list<Group>(data.groups),
+    groupExpenses: list<GroupExpense>(data.groupExpenses),
+    attachments: [...fromBackup(list<BackupAttachment>(data.attachments)), ...attachments],
+    settings: (data.settings as Settings | undefined) || undefined,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Planning
+// ---------------------------------------------------------------------------
+
+interface Keyed {
+  key: string;
+  updatedAt?: string;
+}
+
+interface TableDiff<T> {
+  add: T[];
+  update: T[];
+  remove: string[];
+  unchanged: number;
+}
+
+function diffTable<T>(incoming: T[], existing: Keyed[], describe: (record: T) => Keyed, mode: RestoreMode): TableDiff<T> {
+  const local = new Map(existing.map((record) => [record.key, record]));
+  const seen = new Set<string>();
+  const diff: TableDiff<T> = { add: [], update: [], remove: [], unchanged: 0 };
+
+  for (const record of incoming) {
+    const { key, updatedAt } = describe(record);
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const current = local.get(key);
+    if (!current) {
+      diff.add.push(record);
+    } else if (mode === 'replace' || (mode === 'merge' && (updatedAt ?? '') > (current.updatedAt ?? ''))) {
+      diff.update.push(record);
+    } else {
+      diff.unchanged++;
+    }
+  }
+
+  if (mode === 'replace') {
+    diff.remove = existing.filter((record) => !seen.has(record.key)).map((record) => record.key);
+  }
+  return diff;
+}
+
+// Records read from older installs may hold Dates rather than ISO strings
+const stamp = (value?: string | Date | null) => {
+  const date = value ? new Date(value) : null;
+  return date && !isNaN(date.getTime()) ? date.toISOString() : undefined;
+};
+
+const byId = (record: { id: string; updatedAt?: string | Date | null }): Keyed => ({ key: record.id, updatedAt: stamp(record.updatedAt) });
+
+async function diffBackup(backup: Backup, mode: RestoreMode) {
+  const [expenses, budgets, categories, accounts, debts, debtPaymentIds, groups, groupExpenses, attachmentIds] = await Promise.all([
+    db.expenses.toArray(),
+    db.budgets.toArray(),
+    db.categories.toArray(),
+    db.accounts.toArray(),
+    db.debts.toArray(),
+    db.debtPayments.toCollection().primaryKeys(),
+    db.groups.toArray(),
+    db.groupExpenses.toArray(),
+    db.attachments.toCollection().primaryKeys(),
+  ]);
+
+  // Attachments and repayments are never edited, only added or removed
+  const once = (record: { id: string }): Keyed => ({ key: record.id });
+  const keys = (ids: string[]): Keyed[] => ids.map((key) => ({ key }));
+
+  return {
+    expenses: diffTable(backup.expenses, expenses.map(byId), byId, mode),
+    budgets: diffTable(backup.budgets, budgets.map(byId), byId, mode),
+    categories: diffTable(backup.categories, categories.map(byId), byId, mode),
+    accounts: diffTable(backup.accounts, accounts.map(byId), byId, mode),
+    debts: diffTable(
+      backup.debts,
+      debts.map((debt) => ({ key: debt.uuid, updatedAt: stamp(debt.updatedAt) })),
+      (debt) => ({ key: debt.uuid, updatedAt: stamp(debt.updatedAt) }),
+      mode,
+    ),
+    debtPayments: diffTable(backup.debtPayments, keys(debtPaymentIds), once, mode),
+    groups: diffTable(backup.groups, groups.map(byId), byId, mode),
+    groupExpenses: diffTable(backup.groupExpenses, groupExpenses.map(byId), byId, mode),
+    attachments: diffTable(backup.attachments, keys(attachmentIds), once, mode),
+    localDebts: debts,
+  };
+}
+
+async function shouldApplySettings(backup: Backup, mode: RestoreMode) {
+  if (!backup.settings || mode === 'add') return false;
+  if (mode === 'replace') return true;
+  const current = await db.settings.get('default');
+  return (stamp(backup.settings.updatedAt) ?? '') > (stamp(current?.updatedAt) ?? '');
+}
+
+/** Dry run: what restoring `backup` with `mode` would do, without touching anything. */
+export async function planRestore(backup: Backup, mode: RestoreMode): Promise<RestorePlan> {
+  const diff = await diffBackup(backup, mode);
+  const count = (table: TableDiff<unknown>): TableChanges => ({
+    added: table.add.length,
+    updated: table.update.length,
+    removed: table.remove.length,
+    unchanged: table.unchanged,
+  });
+
+  return {
+    mode,
+    tables: {
+      expenses: count(diff.expenses),
+      budgets: count(diff.budgets),
+      categories: count(diff.categories),
+      accounts: count(diff.accounts),
+      debts: count(diff.debts),
+      debtPayments: count(diff.debtPayments),
+      groups: count(diff.groups),
+      groupExpenses: count(diff.groupExpenses),
+      attachments: count(diff.attachments),
+    },
+    settings: await shouldApplySettings(backup, mode),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Applying
+// ---------------------------------------------------------------------------
+
+/**
+ * Restores `backup` with `mode`. Returns the ids of the expenses that were
+ * added or overwritten, for the duplicate review.
+ *
+ * Restored records are stamped as changed now, the way restoring from the
+ * trash does, and any deletion still queued for them is dropped. Otherwise
+ * sync would never send them up, or would delete them again on the next pull.
+ */
+export async function applyRestore(backup: Backup, mode: RestoreMode): Promise<string[]> {
+  const diff = await diffBackup(backup, mode);
+  const applySettings = await shouldApplySettings(backup, mode);
+  const localDebtIds = new Map(diff.localDebts.map((debt) => [debt.uuid, debt.id]));
+  const now = new Date().toISOString();
+  const restored = <T extends { id: string }>(table: TableDiff<T>) => [...table.add, ...table.update];
+
+  await db.transaction('rw', [db.expenses, db.budgets, db.categories, db.accounts, db.debts, db.debtPayments, db.groups, db.groupExpenses, db.attachments, db.settings, db.pendingDeletions], async () => {
+    const expenses = restored(diff.expenses);
+    await db.expenses.bulkDelete(diff.expenses.remove);
+    await db.expenses.bulkPut(expenses.map((expense) => ({ ...expense, updatedAt: now })));
+    await db.pendingDeletions.bulkDelete(expenses.map((expense) => `expenses:${expense.id}`));
+
+    const budgets = restored(diff.budgets);
+    await db.budgets.bulkDelete(diff.budgets.remove);
+    await db.budgets.bulkPut(budgets.map((budget) => ({ ...budget, updatedAt: now })));
+    await db.pendingDeletions.bulkDelete(budgets.map((budget) => `budgets:${budget.id}`));
+
+    const categories = restored(diff.categories);
+    await db.categories.bulkDelete(diff.categories.remove);
+    await db.categories.bulkPut(categories.map((category) => ({ ...category, updatedAt: new Date(now) })));
+    await db.pendingDeletions.bulkDelete(categories.map((category) => `categories:${category.id}`));
+
+    const accounts = restored(diff.accounts);
+    await db.accounts.bulkDelete(diff.accounts.remove);
+    await db.accounts.bulkPut(accounts.map((account) => ({ ...account, updatedAt: now })));
+    await db.pendingDeletions.bulkDelete(accounts.map((account) => `accounts:${account.id}`));
+
+    // A restored debt that looks synced and untouched would be taken for one deleted elsewhere
+    await db.debts.where('uuid').anyOf(diff.debts.remove).delete();
+    await db.debts.bulkAdd(diff.debts.add.map((debt) => ({ ...debt, updatedAt: now })));
+    // Overwritten debts keep this device's key
+    await db.debts.bulkPut(diff.debts.update.map((debt) => ({ ...debt, id: localDebtIds.get(debt.uuid), updatedAt: now })));
+    await db.pendingDeletions.bulkDelete([...diff.debts.add, ...diff.debts.update].map((debt) => `debts:${debt.uuid}`));
+
+    await db.debtPayments.bulkDelete(diff.debtPayments.remove);
+    await db.debtPayments.bulkPut([...diff.debtPayments.add, ...diff.debtPayments.update]);
+
+    await db.groups.bulkDelete(diff.groups.remove);
+    await db.groups.bulkPut([...diff.groups.add, ...diff.groups.update]);
+
+    await db.groupExpenses.bulkDelete(diff.groupExpenses.remove);
+    await db.groupExpenses.bulkPut([...diff.groupExpenses.add, ...diff.groupExpenses.update]);
+
+    await db.attachments.bulkDelete(diff.attachments.remove);
+    await db.attachments.bulkPut([...diff.attachments.add, ...diff.attachments.update]);
+
+    if (applySettings && backup.settings) {
+      const { id, ...settings } = backup.settings;
+      await db.settings.update('default', { ...settings, updatedAt: now });
+    }
+  });
+
+  // Older backups name accounts that have no record here
+  await addMissingAccounts();
+
+  return restored(diff.expenses).map((expense) => expense.id);
+}
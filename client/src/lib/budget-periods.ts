@@ -0,0 +1,142 @@
+import { Budget, BudgetPeriod, Expense } from '@shared/schema';
+import { toBaseAmount } from './currency';
+import { addDays, addMonths, addYears, differenceInCalendarDays, differenceInCalendarMonths, format, parseISO } from 'date-fns';
+
+// ============================================================================
+// Budget periods.
+//
+// Every budget repeats in back-to-back windows anchored to its startDate: a
+// monthly budget starting on the 25th runs 25th to 24th, a weekly one runs from
+// the weekday it started on. Window 0 begins on startDate; dates before it
+// fall into window 0 as well.
+// ============================================================================
+
+export const PERIOD_LABELS: Record<BudgetPeriod, string> = {
+  weekly: 'Weekly',
+  biweekly: 'Bi-weekly',
+  monthly: 'Monthly',
+  yearly: 'Yearly',
+  custom: 'Custom',
+};
+
+// Used in sentences such as "remaining this month"
+export const PERIOD_NOUNS: Record<BudgetPeriod, string> = {
+  weekly: 'week',
+  biweekly: 'fortnight',
+  monthly: 'month',
+  yearly: 'year',
+  custom: 'cycle',
+};
+
+type PeriodAnchor = Pick<Budget, 'period' | 'startDate' | 'cycleDays'>;
+type LedgerBudget = PeriodAnchor & Pick<Budget, 'amount' | 'rollover' | 'adjustments'>;
+
+export interface BudgetWindow {
+  index: number;
+  periodStart: string;
+  periodEnd: string;
+  totalDays: number;
+  daysElapsed: number;
+  daysRemaining: number;
+}
+
+const fixedLength = (budget: PeriodAnchor) => {
+  switch (budget.period) {
+    case 'weekly': return 7;
+    case 'biweekly': return 14;
+    case 'custom': return Math.max(1, budget.cycleDays || 30);
+    default: return null;
+  }
+};
+
+// Months and years are added to the anchor itself, never chained, so a budget
+// starting on the 31st comes back to the 31st after a short month.
+function windowStart(budget: PeriodAnchor, index: number) {
+  const anchor = parseISO(budget.startDate);
+  const length = fixedLength(budget);
+  if (length) return addDays(anchor, index * length);
+  return budget.period === 'yearly' ? addYears(anchor, index) : addMonths(anchor, index);
+}
+
+/** The window number `date` falls in, 0 for the window that starts on startDate. */
+export function getPeriodIndex(budget: PeriodAnchor, date: Date) {
+  const anchor = parseISO(budget.startDate);
+  if (differenceInCalendarDays(date, anchor) < 0) return 0;
+
+  const length = fixedLength(budget);
+  if (length) return Math.floor(differenceInCalendarDays(date, anchor) / length);
+
+  let index = budget.period === 'yearly'
+    ? Math.floor(differenceInCalendarMonths(date, anchor) / 12)
+    : differenceInCalendarMonths(date, anchor);
+  while (index > 0 && differenceInCalendarDays(windowStart(budget, index), date) > 0) index--;
+  return index;
+}
+
+export function getWindowByIndex(budget: PeriodAnchor, index: number, today = new Date()): BudgetWindow {
+  const start = windowStart(budget, index);
+  const end = addDays(windowStart(budget, index + 1), -1);
+  const totalDays = differenceInCalendarDays(end, start) + 1;
+  const daysElapsed = Math.min(totalDays, Math.max(0, differenceInCalendarDays(today, start) + 1));
+
+  return {
+    index,
+    periodStart: format(start, 'yyyy-MM-dd'),
+    periodEnd: format(end, 'yyyy-MM-dd'),
+    totalDays,
+    daysElapsed,
+    daysRemaining: totalDays - daysElapsed,
+  };
+}
+
+export function getCurrentWindow(budget: PeriodAnchor, today = new Date()) {
+  return getWindowByIndex(budget, getPeriodIndex(budget, today), today);
+}
+
+/** Where spending lands by the end of the window if the current daily rate holds. */
+export function projectSpend(spent: number, window: BudgetWindow) {
+  if (window.daysElapsed === 0) return spent;
+  return (spent / window.daysElapsed) * window.totalDays;
+}
+
+export function spentBetween(expenses: Expense[], periodStart: string, periodEnd: string) {
+  return expenses
+    .filter(expense => {
+      const day = expense.date.slice(0, 10);
+      return day >= periodStart && day <= periodEnd;
+    })
+    .reduce((sum, expense) => sum + toBaseAmount(expense), 0);
+}
+
+export interface BudgetLedgerEntry extends BudgetWindow {
+  carriedIn: number;
+  moved: number;
+  available: number;
+  spent: number;
+}
+
+/**
+ * Walks every window from startDate up to the one containing `today`. The
+ * money available in a window is the limit plus envelope moves, plus whatever
+ * was left (or overspent) in the previous window when rollover is on.
+ */
+export function getBudgetLedger(budget: LedgerBudget, expenses: Expense[], today = new Date()) {
+  const ledger: BudgetLedgerEntry[] = [];
+  const current = getPeriodIndex(budget, today);
+  let carry = 0;
+
+  for (let index = 0; index <= current; index++) {
+    const window = getWindowByIndex(budget, index, today);
+    const moved = (budget.adjustments || [])
+      .filter(adjustment => adjustment.periodStart === window.periodStart)
+      .reduce((sum, adjustment) => sum + adjustment.amount, 0);
+    const carriedIn = budget.rollover ? carry : 0;
+    const available = budget.amount + moved + carriedIn;
+    const spent = spentBetween(expenses, window.periodStart, window.periodEnd);
+
+    ledger.push({ ...window, carriedIn, moved, available, spent });
+    carry = available - spent;
+  }
+
+  return ledger;
+}
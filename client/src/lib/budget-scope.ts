@@ -0,0 +1,33 @@
+import { Budget, Category, Expense } from '@shared/schema';
+
+type ScopedBudget = Pick<Budget, 'scope' | 'category' | 'categories' | 'accounts' | 'paymentMethods'>;
+
+// Budgets saved before scopes existed have no scope and track one category
+const scopeOf = (budget: ScopedBudget) => budget.scope || 'category';
+
+/** The category ids a budget is limited to, or null when it covers everything. */
+export function budgetCategoryIds(budget: ScopedBudget): string[] | null {
+  switch (scopeOf(budget)) {
+    case 'all': return null;
+    case 'categories': return budget.categories || [];
+    default: return [budget.category];
+  }
+}
+
+export function budgetCovers(budget: ScopedBudget, expense: Expense) {
+  const categoryIds = budgetCategoryIds(budget);
+  if (categoryIds && !categoryIds.includes(expense.category)) return false;
+  if (budget.accounts?.length && !budget.accounts.includes(expense.account)) return false;
+  if (budget.paymentMethods?.length && !budget.paymentMethods.includes(expense.paymentMethod)) return false;
+  return true;
+}
+
+/** Short label such as "Food, Shopping · Card" for cards and lists. */
+export function describeBudgetScope(budget: ScopedBudget, categories: Category[]) {
+  const categoryIds = budgetCategoryIds(budget);
+  const names = categoryIds === null
+    ? 'All spending'
+    : categoryIds.map((id) => categories.find((c) => c.id === id)?.name || 'Unknown Category').join(', ');
+  const filters = [...(budget.accounts || []), ...(budget.paymentMethods || [])];
+  return filters.length ? `${names} · ${filters.join(', ')}` : names;
+}
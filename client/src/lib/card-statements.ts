@@ -0,0 +1,122 @@
+import { addDays, addMonths, differenceInCalendarDays, format, getDaysInMonth, setDate, startOfDay, startOfMonth, subMonths } from 'date-fns';
+import db from './db';
+import { amountPaid } from './splits';
+import { TRANSFER_CATEGORY, TRANSFER_METHOD } from './accounts';
+import { Account, Expense } from '@shared/schema';
+
+// ============================================================================
+// Credit card statements.
+//
+// A card's cycle closes on its statement day every month, and whatever was
+// owed at that point is the statement, due on the following due day. Charges
+// made since are unbilled. Paying the card is a transfer into it; payments
+// and refunds after the statement count against the statement first.
+// ============================================================================
+
+// How long before the due date an unpaid statement raises a reminder
+export const CARD_DUE_REMINDER_DAYS = 3;
+
+// Used for the due date when a card has a statement day but no due day
+const DEFAULT_GRACE_DAYS = 20;
+
+// Day `day` of the month of `month`, clamped to short months
+const dayOfMonth = (month: Date, day: number) =>
+  setDate(startOfMonth(month), Math.min(day, getDaysInMonth(month)));
+
+/** The most recent statement date on or before `today`. */
+export function lastStatementDate(statementDay: number, today: Date): Date {
+  const thisMonth = dayOfMonth(today, statementDay);
+  return thisMonth <= startOfDay(today) ? thisMonth : dayOfMonth(subMonths(today, 1), statementDay);
+}
+
+/** The first due day after a statement closes. */
+export function dueDateFor(card: Pick<Account, 'dueDay'>, statementDate: Date): Date {
+  if (!card.dueDay) return addDays(statementDate, DEFAULT_GRACE_DAYS);
+  const sameMonth = dayOfMonth(statementDate, card.dueDay);
+  return sameMonth > statementDate ? sameMonth : dayOfMonth(addMonths(statementDate, 1), card.dueDay);
+}
+
+// What a transaction adds to the amount owed on a card; payments and refunds are negative
+function owedChange(card: Account, transaction: Expense) {
+  const amount = amountPaid(transaction);
+  if (transaction.type === 'transfer' && transaction.toAccount === card.name) return -amount;
+  if (transaction.account !== card.name) return 0;
+  return transaction.type === 'income' ? -amount : amount;
+}
+
+export interface CardStatement {
+  statementDate: string; // yyyy-MM-dd
+  dueDate: string;
+  daysUntilDue: number; // Negative once the due date has passed
+  statementAmount: number; // Owed when the cycle closed
+  paidSinceStatement: number;
+  dueAmount: number; // What is left to pay of the statement
+  unbilled: number; // Charges since the statement
+  outstanding: number; // Everything owed right now
+  utilization: number | null; // Outstanding over the limit, when the card has one
+}
+
+/**
+ * The current cycle of a credit card, or null for other accounts and cards
+ * without a statement day. Pass transactions only, never templates.
+ */
+export function getCardStatement(card: Account, transactions: Expense[], today = new Date()): CardStatement | null {
+  if (card.type !== 'credit_card' || !card.statementDay) return null;
+
+  const closed = lastStatementDate(card.statementDay, today);
+  const closedOn = format(closed, 'yyyy-MM-dd');
+  const due = dueDateFor(card, closed);
+
+  // A negative opening balance is what was owed before the first transaction
+  let statementAmount = -(card.openingBalance || 0);
+  let outstanding = statementAmount;
+  let paidSinceStatement = 0;
+  let unbilled = 0;
+
+  for (const transaction of transactions) {
+    const change = owedChange(card, transaction);
+    if (!change) continue;
+    outstanding += change;
+    if (transaction.date.slice(0, 10) <= closedOn) statementAmount += change;
+    else if (change < 0) paidSinceStatement -= change;
+    else unbilled += change;
+  }
+
+  statementAmount = Math.max(0, statementAmount);
+  return {
+    statementDate: closedOn,
+    dueDate: format(due, 'yyyy-MM-dd'),
+    daysUntilDue: differenceInCalendarDays(due, today),
+    statementAmount,
+    paidSinceStatement,
+    dueAmount: Math.max(0, statementAmount - paidSinceStatement),
+    unbilled,
+    outstanding,
+    utilization: card.creditLimit ? Math.max(0, outstanding) / card.creditLimit : null,
+  };
+}
+
+/** Records paying a card from another account, as a transfer into the card. */
+export async function recordCardPayment(card: Account, fromAccount: string, amount: number, date: string) {
+  const now = new Date().toISOString();
+  const payment: Expense = {
+    id: crypto.randomUUID(),
+    type: 'transfer',
+    amount,
+    date,
+    time: format(new Date(), 'HH:mm'),
+    category: TRANSFER_CATEGORY,
+    items: `${card.name} bill payment`,
+    where: '',
+    note: '',
+    paymentMethod: TRANSFER_METHOD,
+    account: fromAccount,
+    toAccount: card.name,
+    isRecurring: false,
+    isTemplate: false,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await db.expenses.add(payment);
+  return payment;
+}
@@ -1,4 +1,62 @@
-import type { Category } from '@shared/schema';
+import type { Category, CategoryType } from '@shared/schema';
+
+// Seeded defaults are older than anything on the server, so signing in on a
+// fresh device pulls the user's own copies instead of overwriting them.
+export const SEEDED_AT = new Date(0);
+
+// Added for existing installs by the version 12 upgrade in db.ts
+export const INCOME_CATEGORIES: Category[] = [
+  {
+    id: 'salary',
+    userId: 'local',
+    name: 'Salary',
+    icon: 'briefcase',
+    color: 'green',
+    type: 'income',
+    isDefault: true,
+    updatedAt: SEEDED_AT,
+  },
+  {
+    id: 'refunds',
+    userId: 'local',
+    name: 'Refunds',
+    icon: 'rotate-ccw',
+    color: 'blue',
+    type: 'income',
+    isDefault: true,
+    updatedAt: SEEDED_AT,
+  },
+  {
+    id: 'interest',
+    userId: 'local',
+    name: 'Interest',
+    icon: 'percent',
+    color: 'indigo',
+    type: 'income',
+    isDefault: true,
+    updatedAt: SEEDED_AT,
+  },
+  {
+    id: 'cashback',
+    userId: 'local',
+    name: 'Cashback',
+    icon: 'coins',
+    color: 'orange',
+    type: 'income',
+    isDefault: true,
+    updatedAt: SEEDED_AT,
+  },
+  {
+    id: 'other-income',
+    userId: 'local',
+    name: 'Other Income',
+    icon: 'wallet',
+    color: 'cyan',
+    type: 'income',
+    isDefault: true,
+    updatedAt: SEEDED_AT,
+  },
+];
 
 export const DEFAULT_CATEGORIES: Category[] = [
   {
@@ -8,7 +66,7 @@ export const DEFAULT_CATEGORIES: Category[] = [
     icon: 'shopping-cart',
     color: 'green',
     isDefault: true,
-    updatedAt: new Date(),
+    updatedAt: SEEDED_AT,
   },
   {
     id: 'food',
@@ -17,7 +75,7 @@ export const DEFAULT_CATEGORIES: Category[] = [
     icon: 'utensils',
     color: 'purple',
     isDefault: true,
-    updatedAt: new Date(),
+    updatedAt: SEEDED_AT,
   },
   {
     id: 'transport',
@@ -26,7 +84,7 @@ export const DEFAULT_CATEGORIES: Category[] = [
     icon: 'car',
     color: 'blue',
     isDefault: true,
-    updatedAt: new Date(),
+    updatedAt: SEEDED_AT,
   },
   {
     id: 'bills',
@@ -35,7 +93,7 @@ export const DEFAULT_CATEGORIES: Category[] = [
     icon: 'file-text',
     color: 'red',
     isDefault: true,
-    updatedAt: new Date(),
+    updatedAt: SEEDED_AT,
   },
   {
     id: 'entertainment',
@@ -44,7 +102,7 @@ export const DEFAULT_CATEGORIES: Category[] = [
     icon: 'tv',
     color: 'orange',
     isDefault: true,
-    updatedAt: new Date(),
+    updatedAt: SEEDED_AT,
   },
   {
     id: 'healthcare',
@@ -53,7 +111,7 @@ export const DEFAULT_CATEGORIES: Category[] = [
     icon: 'heart',
     color: 'cyan',
     isDefault: true,
-    updatedAt: new Date(),
+    updatedAt: SEEDED_AT,
   },
   {
     id: 'shopping',
@@ -62,7 +120,7 @@ export const DEFAULT_CATEGORIES: Category[] = [
     icon: 'shopping-bag',
     color: 'pink',
     isDefault: true,
-    updatedAt: new Date(),
+    updatedAt: SEEDED_AT,
   },
   {
     id: 'travel',
@@ -71,7 +129,7 @@ export const DEFAULT_CATEGORIES: Category[] = [
     icon: 'plane',
     color: 'indigo',
     isDefault: true,
-    updatedAt: new Date(),
+    updatedAt: SEEDED_AT,
   },
   {
     id: 'investing',
@@ -80,10 +138,15 @@ export const DEFAULT_CATEGORIES: Category[] = [
     icon: 'trending-up',
     color: 'green',
     isDefault: true,
-    updatedAt: new Date(),
+    updatedAt: SEEDED_AT,
   },
+  ...INCOME_CATEGORIES,
 ];
 
+/** Whether a category is for expenses or income. Older categories have no type. */
+export const categoryType = (category?: Pick<Category, 'type'>): CategoryType =>
+  category?.type === 'income' ? 'income' : 'expense';
+
 export const getCategoryColor = (color: string) => {
   const colors = {
     green: {
@@ -0,0 +1,186 @@
+import db, { ExchangeRate } from './db';
+import { Expense, Settings } from '@shared/schema';
+
+// ============================================================================
+// Currencies and exchange rates.
+//
+// Every total in the app is shown in the base currency from Settings. An
+// expense paid in another currency keeps its own ISO code and the rate that
+// was used for it (base units per 1 unit of the expense currency). Rates come
+// from a local, user-editable table; nothing is fetched from the network.
+// ============================================================================
+
+export interface CurrencyInfo {
+  code: string;
+  symbol: string;
+  name: string;
+}
+
+export const CURRENCIES: CurrencyInfo[] = [
+  { code: 'INR', symbol: '₹', name: 'Indian Rupee' },
+  { code: 'USD', symbol: '$', name: 'US Dollar' },
+  { code: 'EUR', symbol: '€', name: 'Euro' },
+  { code: 'GBP', symbol: '£', name: 'British Pound' },
+  { code: 'JPY', symbol: '¥', name: 'Japanese Yen' },
+  { code: 'AED', symbol: 'AED ', name: 'UAE Dirham' },
+  { code: 'SGD', symbol: 'S$', name: 'Singapore Dollar' },
+  { code: 'AUD', symbol: 'A$', name: 'Australian Dollar' },
+  { code: 'CAD', symbol: 'C$', name: 'Canadian Dollar' },
+  { code: 'CHF', symbol: 'CHF ', name: 'Swiss Franc' },
+  { code: 'THB', symbol: '฿', name: 'Thai Baht' },
+  { code: 'MYR', symbol: 'RM', name: 'Malaysian Ringgit' },
+  { code: 'LKR', symbol: 'Rs ', name: 'Sri Lankan Rupee' },
+  { code: 'NPR', symbol: 'Rs ', name: 'Nepalese Rupee' },
+];
+
+export const DEFAULT_BASE_CURRENCY = 'INR';
+
+export const isCurrencyCode = (value: string) => /^[A-Z]{3}$/.test(value);
+
+export function currencySymbol(code?: string) {
+  if (!code) return '';
+  return CURRENCIES.find((c) => c.code === code)?.symbol ?? `${code} `;
+}
+
+/** The ISO code totals are converted to. Older settings only stored a symbol. */
+export function getBaseCurrency(settings?: Pick<Settings, 'currency' | 'baseCurrency'>) {
+  if (settings?.baseCurrency) return settings.baseCurrency;
+  const legacy = settings?.currency;
+  if (legacy && isCurrencyCode(legacy)) return legacy;
+  return CURRENCIES.find((c) => c.symbol === legacy)?.code ?? DEFAULT_BASE_CURRENCY;
+}
+
+/** An expense's amount in the base currency. Expenses without a currency are already in it. */
+export function toBaseAmount(expense: Pick<Expense, 'amount' | 'currency' | 'exchangeRate'>) {
+  if (!expense.currency || !expense.exchangeRate) return expense.amount;
+  return expense.amount * expense.exchangeRate;
+}
+
+export function formatMoney(amount: number, code?: string) {
+  return `${currencySymbol(code)}${amount.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+}
+
+// --- Rate table ---
+// The table stays on the device while the base currency syncs, so each row
+// records the base it is quoted against and alignRatesToBase catches up.
+
+const currentBase = async () => getBaseCurrency(await db.settings.get('default'));
+
+export async function getRate(code: string, base: string) {
+  if (code === base) return 1;
+  const row = await db.exchangeRates.get(code);
+  return row && (!row.base || row.base === base) ? row.rate : undefined;
+}
+
+export async function saveRate(code: string, rate: number) {
+  await db.exchangeRates.put({ code: code.toUpperCase(), rate, base: await currentBase(), updatedAt: new Date().toISOString() });
+}
+
+// `rates` quoted against `oldBase`, re-expressed against `newBase`, which buys `pivot` old base units
+function requoteRates(rates: ExchangeRate[], oldBase: string, newBase: string, pivot: number): ExchangeRate[] {
+  const now = new Date().toISOString();
+  return [
+    ...rates
+      .filter((r) => r.code !== newBase)
+      .map((r) => ({ code: r.code, rate: r.rate / pivot, base: newBase, updatedAt: now })),
+    { code: oldBase, rate: 1 / pivot, base: newBase, updatedAt: now },
+  ];
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Moves everything onto a new base currency: the rate table and the rate on
+ * every foreign-currency expense are re-expressed against it, expenses that
+ * were in the old base are tagged with it and its rate, and budget and account
+ * amounts are converted. Throws when the new base has no rate itself, leaving
+ * everything as it was.
+ */
+export async function rebaseRates(oldBase: string, newBase: string) {
+  if (oldBase === newBase) return;
+  await db.transaction('rw', [db.exchangeRates, db.expenses, db.budgets, db.accounts], async () => {
+    // How many old base units one unit of the new base buys
+    const pivot = (await db.exchangeRates.get(newBase))?.rate;
+    if (!pivot) throw new Error(`No exchange rate for ${newBase}`);
+    const toNewBase = (amount: number) => roundMoney(amount / pivot);
+
+    await db.expenses.toCollection().modify((expense) => {
+      if (!expense.currency || !expense.exchangeRate) {
+        expense.currency = oldBase;
+        expense.exchangeRate = 1 / pivot;
+      } else {
+        // Expenses paid in the new base need no conversion at all
+        expense.exchangeRate = expense.currency === newBase ? 1 : expense.exchangeRate / pivot;
+      }
+    });
+    await db.budgets.toCollection().modify((budget) => {
+      budget.amount = toNewBase(budget.amount);
+      budget.adjustments = budget.adjustments?.map((a) => ({ ...a, amount: toNewBase(a.amount) }));
+    });
+    await db.accounts.toCollection().modify((account) => {
+      account.openingBalance = toNewBase(account.openingBalance);
+      if (account.creditLimit) account.creditLimit = toNewBase(account.creditLimit);
+    });
+
+    const rates = await db.exchangeRates.toArray();
+    await db.exchangeRates.clear();
+    await db.exchangeRates.bulkPut(requoteRates(rates, oldBase, newBase, pivot));
+  });
+}
+
+/**
+ * Re-quotes rates saved against an older base, e.g. after the base currency was
+ * changed on another device and synced here. Rates that can't be converted,
+ * because the table had no rate for the new base, are dropped so the expense
+ * form asks for them again.
+ */
+export async function alignRatesToBase() {
+  await db.transaction('rw', db.exchangeRates, db.settings, async () => {
+    const base = await currentBase();
+    const rates = await db.exchangeRates.toArray();
+    const stale = rates.filter((r) => r.base && r.base !== base);
+    if (stale.length === 0) return;
+
+    const current = new Set(rates.filter((r) => !stale.includes(r)).map((r) => r.code));
+    const requoted: ExchangeRate[] = [];
+    for (const oldBase of Array.from(new Set(stale.map((r) => r.base!)))) {
+      const quoted = stale.filter((r) => r.base === oldBase);
+      const pivot = quoted.find((r) => r.code === base)?.rate;
+      if (pivot) requoted.push(...requoteRates(quoted, oldBase, base, pivot));
+    }
+
+    await db.exchangeRates.bulkDelete(stale.map((r) => r.code));
+    // Rates already entered against the new base are kept over converted ones
+    await db.exchangeRates.bulkPut(requoted.filter((r) => r.code !== base && !current.has(r.code)));
+  });
+}
+
+/**
+ * Reads `code,rate` lines (a header row is optional), where rate is how many
+ * base units one unit of `code` buys. Returns the rows it understood and the
+ * line numbers it skipped.
+ */
+export function parseRatesCsv(text: string) {
+  const rates: { code: string; rate: number }[] = [];
+  const skipped: number[] = [];
+
+  text.split(/\r?\n/).forEach((line, i) => {
+    const [rawCode = '', rawRate = ''] = line.split(/[,;\t]/).map((cell) => cell.trim().replace(/^"|"$/g, ''));
+    if (!rawCode && !rawRate) return;
+    const code = rawCode.toUpperCase();
+    const rate = Number(rawRate);
+    if (isCurrencyCode(code) && rate > 0) {
+      rates.push({ code, rate });
+    } else if (i > 0) {
+      skipped.push(i + 1);
+    }
+  });
+
+  return { rates, skipped };
+}
+
+export async function importRates(rates: { code: string; rate: number }[]) {
+  const now = new Date().toISOString();
+  const base = await currentBase();
+  await db.exchangeRates.bulkPut(rates.map((r) => ({ ...r, base, updatedAt: now })));
+}
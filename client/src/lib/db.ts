@@ -1,18 +1,37 @@
 import Dexie, { Table } from 'dexie';
-import { Expense, Category, categories, budgets, settings } from '@shared/schema';
-import { DEFAULT_CATEGORIES } from './categories';
+import { Expense, Category, Budget, Settings, Account, SyncTable, DebtStatus, SplitMethod } from '@shared/schema';
+import { DEFAULT_CATEGORIES, INCOME_CATEGORIES, SEEDED_AT } from './categories';
+import { getBaseCurrency } from './currency';
+import type { ImportPreset } from './statement-import';
+import type { Backup } from './backup';
 
-interface Setting {
-  id: string;
-  currency: string;
-  theme: string;
-  language: string;
-  notifications: boolean;
-  budgetAlerts: boolean;
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const [header, data = ''] = dataUrl.split(',');
+  const type = header.match(/^data:([^;]+)/)?.[1] ?? 'application/octet-stream';
+  const bytes = Uint8Array.from(atob(data), (c) => c.charCodeAt(0));
+  return new Blob([bytes], { type });
+}
+
+// Expenses used to carry their attachments inline as data URLs
+export function inlineAttachmentsOf(expense: Expense): ExpenseAttachment[] {
+  return (expense.attachments ?? []).map((dataUrl, i) => {
+    const blob = dataUrlToBlob(dataUrl);
+    return {
+      id: crypto.randomUUID(),
+      expenseId: expense.id,
+      name: `attachment-${i + 1}`,
+      type: blob.type,
+      size: blob.size,
+      blob,
+      createdAt: expense.createdAt ?? new Date().toISOString(),
+    };
+  });
 }
+
 // Define the Debt interface for TypeScript
 export interface DebtRecord {
   id?: number; // Optional because Dexie auto-increments it
+  uuid: string; // Shared with the server copy (debt_records.client_id)
   type: 'due' | 'receivable';
   amount: number;
   purpose: string;
@@ -20,17 +39,143 @@ export interface DebtRecord {
   personName: string;
   notes?: string;
   datetime: string;
-  status: 'pending' | 'settled';
+  status: DebtStatus;
+  expenseId?: string; // The split expense a receivable was raised from
+  createdAt: string;
+  updatedAt: string;
+  syncedAt?: string; // updatedAt of the last copy the server acknowledged
+}
+
+// A single repayment against a DebtRecord
+export interface DebtPayment {
+  id: string;
+  debtUuid: string;
+  amount: number;
+  paidAt: string;
+  note?: string;
+}
+
+// A receipt or document attached to an expense. Kept on the device only.
+export interface ExpenseAttachment {
+  id: string;
+  expenseId: string;
+  name: string;
+  type: string; // MIME type
+  size: number; // Bytes
+  blob: Blob;
+  createdAt: string;
+}
+
+// How many base-currency units one unit of `code` buys (see lib/currency.ts)
+export interface ExchangeRate {
+  code: string;
+  rate: number;
+  base?: string; // The base currency it is quoted against (see alignRatesToBase)
+  updatedAt: string;
+}
+
+// A shared ledger between you and others, e.g. flatmates or a trip (see
+// lib/groups.ts). Kept on the device only.
+export interface Group {
+  id: string;
+  name: string;
+  members: string[]; // Everyone but you, by the name used in Dues & Receivables
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A bill in a group's ledger, paid by any member
+export interface GroupExpense {
+  id: string;
+  groupId: string;
+  description: string;
+  amount: number; // In the base currency
+  paidBy: string; // A member's name, or YOU from lib/groups.ts
+  date: string; // yyyy-MM-dd
+  method: SplitMethod;
+  values?: Record<string, number>; // Shares or exact amounts as entered, by member
+  shares: Record<string, number>; // Each member's part of the bill; members left out have none
+  settledAt?: string; // Set by the settle-up that cleared it
+  createdAt: string;
+  updatedAt: string;
+}
+
+// An entry in the in-app notification center (see lib/notifications.ts).
+// The id is derived from what triggered it so each alert is raised once.
+export interface AppNotification {
+  id: string;
+  kind: 'budget' | 'recurring' | 'receivable' | 'card';
+  title: string;
+  body: string;
   createdAt: string;
+  readAt?: string;
+  dismissedAt?: string; // Cleared from the panel but kept so it is not raised again
 }
 
+// A full local copy of the data (see lib/snapshots.ts). The listing is kept
+// apart from the copy itself so showing the list does not load every backup.
+export interface Snapshot {
+  id: string;
+  createdAt: string;
+  reason: 'scheduled' | 'manual' | 'before-restore' | 'before-clear';
+  expenseCount: number;
+}
+
+export interface SnapshotData {
+  id: string; // Same as the Snapshot
+  backup: Backup; // Attachments stay Blobs
+}
+
+// Something deleted from the app, kept until restored or purged (see lib/trash.ts).
+// The record is stored whole together with what was removed along with it.
+export interface TrashEntry {
+  id: string;
+  kind: 'expense' | 'debt' | 'category';
+  label: string;
+  deletedAt: string;
+  expense?: Expense;
+  attachments?: ExpenseAttachment[];
+  debt?: DebtRecord;
+  payments?: DebtPayment[];
+  receivables?: { debt: DebtRecord; payments: DebtPayment[] }[]; // Raised by the expense's split
+  category?: Category;
+  // Expenses and budgets moved off the deleted category, with each budget's original categories
+  reassigned?: { to: string; expenseIds: string[]; budgets?: Pick<Budget, 'id' | 'category' | 'categories'>[] };
+}
+
+// Bookkeeping for the server sync engine (see lib/sync.ts)
+export interface SyncState {
+  id: string;
+  lastPulledAt?: string; // Server clock
+  lastPushedAt: number;  // Device clock, epoch ms
+}
+
+export interface PendingDeletion {
+  id: string; // `${table}:${recordId}`
+  table: SyncTable | 'debts';
+  recordId: string;
+  deletedAt: string;
+}
 
 export interface AppDB extends Dexie {
   expenses: Table<Expense>;
   categories: Table<Category>;
-  budgets: Table<typeof budgets>;
-  settings: Table<Setting>;
+  budgets: Table<Budget>;
+  settings: Table<Settings>;
+  accounts: Table<Account>;
+  groups: Table<Group>;
+  groupExpenses: Table<GroupExpense>;
   debts: Table<DebtRecord>; // NEW: Added Debts table
+  debtPayments: Table<DebtPayment>;
+  attachments: Table<ExpenseAttachment>;
+  exchangeRates: Table<ExchangeRate>;
+  notifications: Table<AppNotification>;
+  importPresets: Table<ImportPreset>;
+  snapshots: Table<Snapshot>;
+  snapshotData: Table<SnapshotData>;
+  trash: Table<TrashEntry>;
+  syncState: Table<SyncState>;
+  pendingDeletions: Table<PendingDeletion>;
 }
 
 export const db = new Dexie('ExpenseTrackerDB') as AppDB;
@@ -52,6 +197,298 @@ db.version(2).stores({
   debts: '++id, type, personName, status, datetime, createdAt', // NEW: Indexed columns for filtering
 });
 
+// Version 3: Bookkeeping tables for syncing with the server
+db.version(3).stores({
+  expenses: '++id, amount, date, category, paymentMethod, account, createdAt',
+  categories: '++id, name, isDefault',
+  budgets: '++id, category, period, isActive',
+  settings: '++id',
+  debts: '++id, type, personName, status, datetime, createdAt',
+  syncState: 'id',
+  pendingDeletions: 'id, table',
+});
+
+// Version 4: Debts get a stable uuid so they can be matched with the server
+db.version(4).stores({
+  expenses: '++id, amount, date, category, paymentMethod, account, createdAt',
+  categories: '++id, name, isDefault',
+  budgets: '++id, category, period, isActive',
+  settings: '++id',
+  debts: '++id, &uuid, type, personName, status, datetime, createdAt',
+  syncState: 'id',
+  pendingDeletions: 'id, table',
+}).upgrade(tx => tx.table('debts').toCollection().modify((debt: DebtRecord) => {
+  debt.uuid = debt.uuid || crypto.randomUUID();
+  debt.updatedAt = debt.updatedAt || debt.createdAt;
+}));
+
+// Version 5: Payment ledger for partial settlements
+db.version(5).stores({
+  expenses: '++id, amount, date, category, paymentMethod, account, createdAt',
+  categories: '++id, name, isDefault',
+  budgets: '++id, category, period, isActive',
+  settings: '++id',
+  debts: '++id, &uuid, type, personName, status, datetime, createdAt',
+  debtPayments: 'id, debtUuid, paidAt',
+  syncState: 'id',
+  pendingDeletions: 'id, table',
+});
+
+// Version 6: Attachments move out of expense records into their own table as Blobs
+db.version(6).stores({
+  expenses: '++id, amount, date, category, paymentMethod, account, createdAt',
+  categories: '++id, name, isDefault',
+  budgets: '++id, category, period, isActive',
+  settings: '++id',
+  debts: '++id, &uuid, type, personName, status, datetime, createdAt',
+  debtPayments: 'id, debtUuid, paidAt',
+  attachments: 'id, expenseId, createdAt',
+  syncState: 'id',
+  pendingDeletions: 'id, table',
+}).upgrade(async tx => {
+  const moved: ExpenseAttachment[] = [];
+  await tx.table('expenses').toCollection().modify((expense: Expense) => {
+    moved.push(...inlineAttachmentsOf(expense));
+    delete expense.attachments;
+  });
+  await tx.table('attachments').bulkAdd(moved);
+});
+
+// Version 7: Local exchange rate table for multi-currency expenses
+db.version(7).stores({
+  expenses: '++id, amount, date, category, paymentMethod, account, createdAt',
+  categories: '++id, name, isDefault',
+  budgets: '++id, category, period, isActive',
+  settings: '++id',
+  debts: '++id, &uuid, type, personName, status, datetime, createdAt',
+  debtPayments: 'id, debtUuid, paidAt',
+  attachments: 'id, expenseId, createdAt',
+  exchangeRates: 'code',
+  syncState: 'id',
+  pendingDeletions: 'id, table',
+});
+
+// Version 8: In-app notification center
+db.version(8).stores({
+  expenses: '++id, amount, date, category, paymentMethod, account, createdAt',
+  categories: '++id, name, isDefault',
+  budgets: '++id, category, period, isActive',
+  settings: '++id',
+  debts: '++id, &uuid, type, personName, status, datetime, createdAt',
+  debtPayments: 'id, debtUuid, paidAt',
+  attachments: 'id, expenseId, createdAt',
+  exchangeRates: 'code',
+  notifications: 'id, createdAt',
+  syncState: 'id',
+  pendingDeletions: 'id, table',
+});
+
+// Version 9: Saved column mappings for statement imports
+db.version(9).stores({
+  expenses: '++id, amount, date, category, paymentMethod, account, createdAt',
+  categories: '++id, name, isDefault',
+  budgets: '++id, category, period, isActive',
+  settings: '++id',
+  debts: '++id, &uuid, type, personName, status, datetime, createdAt',
+  debtPayments: 'id, debtUuid, paidAt',
+  attachments: 'id, expenseId, createdAt',
+  exchangeRates: 'code',
+  notifications: 'id, createdAt',
+  importPresets: 'id, name',
+  syncState: 'id',
+  pendingDeletions: 'id, table',
+});
+
+// Version 10: Automatic local snapshots
+db.version(10).stores({
+  expenses: '++id, amount, date, category, paymentMethod, account, createdAt',
+  categories: '++id, name, isDefault',
+  budgets: '++id, category, period, isActive',
+  settings: '++id',
+  debts: '++id, &uuid, type, personName, status, datetime, createdAt',
+  debtPayments: 'id, debtUuid, paidAt',
+  attachments: 'id, expenseId, createdAt',
+  exchangeRates: 'code',
+  notifications: 'id, createdAt',
+  importPresets: 'id, name',
+  snapshots: 'id, createdAt',
+  snapshotData: 'id',
+  syncState: 'id',
+  pendingDeletions: 'id, table',
+});
+
+// Version 11: Trash for soft-deleted expenses, debts and categories
+db.version(11).stores({
+  expenses: '++id, amount, date, category, paymentMethod, account, createdAt',
+  categories: '++id, name, isDefault',
+  budgets: '++id, category, period, isActive',
+  settings: '++id',
+  debts: '++id, &uuid, type, personName, status, datetime, createdAt',
+  debtPayments: 'id, debtUuid, paidAt',
+  attachments: 'id, expenseId, createdAt',
+  exchangeRates: 'code',
+  notifications: 'id, createdAt',
+  importPresets: 'id, name',
+  snapshots: 'id, createdAt',
+  snapshotData: 'id',
+  trash: 'id, kind, deletedAt',
+  syncState: 'id',
+  pendingDeletions: 'id, table',
+});
+
+// Version 12: Income categories for installs that predate income tracking
+db.version(12).stores({
+  expenses: '++id, amount, date, category, paymentMethod, account, createdAt',
+  categories: '++id, name, isDefault',
+  budgets: '++id, category, period, isActive',
+  settings: '++id',
+  debts: '++id, &uuid, type, personName, status, datetime, createdAt',
+  debtPayments: 'id, debtUuid, paidAt',
+  attachments: 'id, expenseId, createdAt',
+  exchangeRates: 'code',
+  notifications: 'id, createdAt',
+  importPresets: 'id, name',
+  snapshots: 'id, createdAt',
+  snapshotData: 'id',
+  trash: 'id, kind, deletedAt',
+  syncState: 'id',
+  pendingDeletions: 'id, table',
+}).upgrade(async tx => {
+  const existing = new Set(await tx.table('categories').toCollection().primaryKeys());
+  await tx.table('categories').bulkAdd(INCOME_CATEGORIES.filter((category) => !existing.has(category.id)));
+});
+
+// Version 13: Accounts with types and opening balances
+db.version(13).stores({
+  expenses: '++id, amount, date, category, paymentMethod, account, createdAt',
+  categories: '++id, name, isDefault',
+  budgets: '++id, category, period, isActive',
+  settings: '++id',
+  accounts: 'id, name, type',
+  debts: '++id, &uuid, type, personName, status, datetime, createdAt',
+  debtPayments: 'id, debtUuid, paidAt',
+  attachments: 'id, expenseId, createdAt',
+  exchangeRates: 'code',
+  notifications: 'id, createdAt',
+  importPresets: 'id, name',
+  snapshots: 'id, createdAt',
+  snapshotData: 'id',
+  trash: 'id, kind, deletedAt',
+  syncState: 'id',
+  pendingDeletions: 'id, table',
+});
+
+// Version 14: Receivables looked up by the split expense that raised them
+db.version(14).stores({
+  expenses: '++id, amount, date, category, paymentMethod, account, createdAt',
+  categories: '++id, name, isDefault',
+  budgets: '++id, category, period, isActive',
+  settings: '++id',
+  accounts: 'id, name, type',
+  debts: '++id, &uuid, type, personName, status, datetime, createdAt, expenseId',
+  debtPayments: 'id, debtUuid, paidAt',
+  attachments: 'id, expenseId, createdAt',
+  exchangeRates: 'code',
+  notifications: 'id, createdAt',
+  importPresets: 'id, name',
+  snapshots: 'id, createdAt',
+  snapshotData: 'id',
+  trash: 'id, kind, deletedAt',
+  syncState: 'id',
+  pendingDeletions: 'id, table',
+});
+
+// Version 15: Groups with their own ledgers
+db.version(15).stores({
+  expenses: '++id, amount, date, category, paymentMethod, account, createdAt',
+  categories: '++id, name, isDefault',
+  budgets: '++id, category, period, isActive',
+  settings: '++id',
+  accounts: 'id, name, type',
+  groups: 'id, name',
+  groupExpenses: 'id, groupId, date',
+  debts: '++id, &uuid, type, personName, status, datetime, createdAt, expenseId',
+  debtPayments: 'id, debtUuid, paidAt',
+  attachments: 'id, expenseId, createdAt',
+  exchangeRates: 'code',
+  notifications: 'id, createdAt',
+  importPresets: 'id, name',
+  snapshots: 'id, createdAt',
+  snapshotData: 'id',
+  trash: 'id, kind, deletedAt',
+  syncState: 'id',
+  pendingDeletions: 'id, table',
+});
+
+// Version 16: Person names on dues & receivables are stored trimmed
+db.version(16).stores({
+  expenses: '++id, amount, date, category, paymentMethod, account, createdAt',
+  categories: '++id, name, isDefault',
+  budgets: '++id, category, period, isActive',
+  settings: '++id',
+  accounts: 'id, name, type',
+  groups: 'id, name',
+  groupExpenses: 'id, groupId, date',
+  debts: '++id, &uuid, type, personName, status, datetime, createdAt, expenseId',
+  debtPayments: 'id, debtUuid, paidAt',
+  attachments: 'id, expenseId, createdAt',
+  exchangeRates: 'code',
+  notifications: 'id, createdAt',
+  importPresets: 'id, name',
+  snapshots: 'id, createdAt',
+  snapshotData: 'id',
+  trash: 'id, kind, deletedAt',
+  syncState: 'id',
+  pendingDeletions: 'id, table',
+}).upgrade(async tx => {
+  await tx.table('debts').toCollection().modify((debt: DebtRecord) => {
+    if (debt.personName) debt.personName = debt.personName.trim();
+  });
+});
+
+// Version 17: Exchange rates record the base currency they are quoted against
+db.version(17).stores({
+  expenses: '++id, amount, date, category, paymentMethod, account, createdAt',
+  categories: '++id, name, isDefault',
+  budgets: '++id, category, period, isActive',
+  settings: '++id',
+  accounts: 'id, name, type',
+  groups: 'id, name',
+  groupExpenses: 'id, groupId, date',
+  debts: '++id, &uuid, type, personName, status, datetime, createdAt, expenseId',
+  debtPayments: 'id, debtUuid, paidAt',
+  attachments: 'id, expenseId, createdAt',
+  exchangeRates: 'code',
+  notifications: 'id, createdAt',
+  importPresets: 'id, name',
+  snapshots: 'id, createdAt',
+  snapshotData: 'id',
+  trash: 'id, kind, deletedAt',
+  syncState: 'id',
+  pendingDeletions: 'id, table',
+}).upgrade(async tx => {
+  const base = getBaseCurrency(await tx.table('settings').get('default'));
+  await tx.table('exchangeRates').toCollection().modify((rate: ExchangeRate) => {
+    rate.base = base;
+  });
+});
+
+// Names are stored trimmed, however a record is written, so lookups by person
+// can use the personName index
+db.debts.hook('creating', (_key, debt) => {
+  if (debt.personName) debt.personName = debt.personName.trim();
+});
+db.debts.hook('updating', (mods: Partial<DebtRecord>) => {
+  if (typeof mods.personName === 'string') return { personName: mods.personName.trim() };
+});
+
+// Attachments go with their expense, however it gets deleted
+db.expenses.hook('deleting', (key, _obj, tx) => {
+  tx.on('complete', () => {
+    db.attachments.where('expenseId').equals(key).delete();
+  });
+});
+
 // Initialize default data
 db.on('ready', async () => {
   // Check if we have categories
@@ -66,10 +503,16 @@ db.on('ready', async () => {
     await db.settings.add({
       id: 'default',
       currency: '₹',
+      baseCurrency: 'INR',
       theme: 'light',
       language: 'en',
       notifications: true,
       budgetAlerts: true,
+      budgetAlertThresholds: [50, 80, 100],
+      autoBackup: 'daily',
+      autoBackupRetention: 7,
+      trashRetentionDays: 30,
+      updatedAt: SEEDED_AT.toISOString(),
     });
   }
 });
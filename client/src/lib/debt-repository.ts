@@ -0,0 +1,292 @@
+import db, { DebtRecord, DebtPayment } from './db';
+import { apiRequest } from './queryClient';
+import { ApiDebt, InsertDebt, getDebtStatus } from '@shared/schema';
+
+// ============================================================================
+// Dues & Receivables repository.
+//
+// Dexie is always the source the UI reads from, so everything works offline.
+// When signed in, the sync engine calls reconcileDebts() to line the device up
+// with /api/debts, matching records by their shared uuid. A record's payment
+// ledger travels with it and is covered by the record's updatedAt.
+// ============================================================================
+
+export type DebtInput = Pick<DebtRecord, 'type' | 'amount' | 'purpose' | 'location' | 'personName' | 'notes' | 'datetime' | 'expenseId'>;
+export type PaymentInput = Pick<DebtPayment, 'amount'> & Partial<Pick<DebtPayment, 'paidAt' | 'note'>>;
+
+const toMillis = (value?: string | null) => (value ? new Date(value).getTime() || 0 : 0);
+
+const sumPayments = (payments: DebtPayment[]) =>
+  payments.reduce((sum, p) => sum + p.amount, 0);
+
+/** What is still owed on a record after its repayments. */
+export function getOutstanding(debt: DebtRecord, payments: DebtPayment[]) {
+  if (debt.status === 'settled') return 0;
+  return Math.max(0, debt.amount - sumPayments(payments));
+}
+
+function toApi(debt: DebtRecord, payments: DebtPayment[]): InsertDebt {
+  return {
+    id: debt.uuid,
+    type: debt.type,
+    amount: debt.amount,
+    purpose: debt.purpose,
+    location: debt.location,
+    personName: debt.personName,
+    notes: debt.notes,
+    datetime: debt.datetime,
+    status: debt.status,
+    expenseId: debt.expenseId,
+    createdAt: new Date(debt.createdAt),
+    updatedAt: new Date(debt.updatedAt),
+    payments: payments.map((p) => ({
+      id: p.id,
+      amount: p.amount,
+      paidAt: new Date(p.paidAt),
+      note: p.note,
+    })),
+  };
+}
+
+function paymentsFromApi(debt: ApiDebt): DebtPayment[] {
+  return debt.payments.map((p) => ({
+    id: p.id,
+    debtUuid: debt.id,
+    amount: p.amount,
+    paidAt: p.paidAt,
+    note: p.note ?? undefined,
+  }));
+}
+
+function fromApi(debt: ApiDebt): Omit<DebtRecord, 'id'> {
+  return {
+    uuid: debt.id,
+    type: debt.type,
+    amount: debt.amount,
+    purpose: debt.purpose,
+    location: debt.location ?? undefined,
+    personName: debt.personName,
+    notes: debt.notes ?? undefined,
+    datetime: debt.datetime ?? debt.createdAt ?? debt.updatedAt,
+    status: debt.status,
+    expenseId: debt.expenseId ?? undefined,
+    createdAt: debt.createdAt ?? debt.updatedAt,
+    updatedAt: debt.updatedAt,
+    syncedAt: debt.updatedAt,
+  };
+}
+
+// --- Local operations (offline-first) ---
+export async function createDebt(input: DebtInput, uuid: string = crypto.randomUUID()): Promise<DebtRecord> {
+  const now = new Date().toISOString();
+  const debt: DebtRecord = {
+    ...input,
+    uuid,
+    datetime: input.datetime || now,
+    status: 'pending',
+    createdAt: now,
+    updatedAt: now,
+  };
+  debt.id = await db.debts.add(debt);
+  return debt;
+}
+
+export async function updateDebt(id: number, changes: Partial<DebtInput> & { status?: DebtRecord['status'] }) {
+  await db.transaction('rw', db.debts, db.debtPayments, async () => {
+    const debt = await db.debts.get(id);
+    if (!debt) return;
+
+    // A new amount can move the record across the settled line
+    let status = changes.status;
+    if (!status && changes.amount !== undefined) {
+      const payments = await db.debtPayments.where('debtUuid').equals(debt.uuid).toArray();
+      if (payments.length > 0) status = getDebtStatus(changes.amount, sumPayments(payments));
+    }
+
+    await db.debts.update(id, {
+      ...changes,
+      ...(status ? { status } : {}),
+      updatedAt: new Date().toISOString(),
+    });
+  });
+}
+
+// Re-derives status from the ledger and marks the record as changed
+async function touchAfterPayment(debt: DebtRecord) {
+  const payments = await db.debtPayments.where('debtUuid').equals(debt.uuid).toArray();
+  await db.debts.update(debt.id!, {
+    status: getDebtStatus(debt.amount, sumPayments(payments)),
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+export async function addPayment(debtId: number, input: PaymentInput) {
+  await db.transaction('rw', db.debts, db.debtPayments, async () => {
+    const debt = await db.debts.get(debtId);
+    if (!debt) throw new Error('Record not found');
+
+    await db.debtPayments.add({
+      id: crypto.randomUUID(),
+      debtUuid: debt.uuid,
+      amount: input.amount,
+      paidAt: input.paidAt || new Date().toISOString(),
+      note: input.note || undefined,
+    });
+    await touchAfterPayment(debt);
+  });
+}
+
+export async function removePayment(paymentId: string) {
+  await db.transaction('rw', db.debts, db.debtPayments, async () => {
+    const payment = await db.debtPayments.get(paymentId);
+    if (!payment) return;
+    await db.debtPayments.delete(paymentId);
+
+    const debt = await db.debts.where('uuid').equals(payment.debtUuid).first();
+    if (debt) await touchAfterPayment(debt);
+  });
+}
+
+/** Settles a record by paying off whatever is still outstanding. */
+export async function settleDebt(id: number) {
+  const debt = await db.debts.get(id);
+  if (!debt) return;
+  const payments = await db.debtPayments.where('debtUuid').equals(debt.uuid).toArray();
+  const outstanding = getOutstanding(debt, payments);
+
+  if (outstanding > 0) {
+    await addPayment(id, { amount: outstanding, note: 'Settled in full' });
+  } else {
+    await updateDebt(id, { status: 'settled' });
+  }
+}
+
+/** Reopens a settled record by undoing the repayment that closed it. */
+export async function unsettleDebt(id: number) {
+  const debt = await db.debts.get(id);
+  if (!debt) return;
+  const payments = await db.debtPayments.where('debtUuid').equals(debt.uuid).sortBy('paidAt');
+  const last = payments[payments.length - 1];
+
+  if (last) {
+    await removePayment(last.id);
+  } else {
+    await updateDebt(id, { status: 'pending' });
+  }
+}
+
+/**
+ * Clears everything open with one person, dues and receivables alike, so the
+ * net balance between you drops to zero.
+ */
+export async function settlePerson(personName: string) {
+  return db.transaction('rw', db.debts, db.debtPayments, async () => {
+    // Names are stored trimmed (see db.ts), so only case is left to ignore, as the People view does
+    const open = await db.debts
+      .where('personName').equalsIgnoreCase(personName.trim())
+      .filter((debt) => debt.status !== 'settled')
+      .toArray();
+    for (const debt of open) await settleDebt(debt.id!);
+    return open.length;
+  });
+}
+
+/**
+ * Takes a record and its ledger out of the live tables and returns the ledger,
+ * for a trash entry to hold. Call inside a transaction that also writes db.trash.
+ */
+export async function detachDebt(debt: DebtRecord): Promise<DebtPayment[]> {
+  const payments = await db.debtPayments.where('debtUuid').equals(debt.uuid).toArray();
+  await db.debts.delete(debt.id!);
+  await db.debtPayments.where('debtUuid').equals(debt.uuid).delete();
+
+  // Only records the server has seen need a delete sent to it
+  if (debt.syncedAt) {
+    await db.pendingDeletions.put({
+      id: `debts:${debt.uuid}`,
+      table: 'debts',
+      recordId: debt.uuid,
+      deletedAt: new Date().toISOString(),
+    });
+  }
+  return payments;
+}
+
+// Moves the record and its ledger to the trash (see lib/trash.ts). Returns the trash entry id.
+export async function deleteDebt(id: number): Promise<string | null> {
+  return db.transaction('rw', [db.debts, db.debtPayments, db.pendingDeletions, db.trash], async () => {
+    const debt = await db.debts.get(id);
+    if (!debt) return null;
+    const entryId = crypto.randomUUID();
+    await db.trash.add({
+      id: entryId,
+      kind: 'debt',
+      label: `${debt.type === 'due' ? 'Due to' : 'Receivable from'} ${debt.personName}`,
+      deletedAt: new Date().toISOString(),
+      debt,
+      payments: await detachDebt(debt),
+    });
+    return entryId;
+  });
+}
+
+// Takes the server's copy of a record, ledger included
+async function applyServerCopy(debt: ApiDebt, localId?: number) {
+  await db.transaction('rw', db.debts, db.debtPayments, async () => {
+    if (localId) {
+      await db.debts.update(localId, fromApi(debt));
+    } else {
+      await db.debts.add(fromApi(debt) as DebtRecord);
+    }
+    await db.debtPayments.where('debtUuid').equals(debt.id).delete();
+    await db.debtPayments.bulkAdd(paymentsFromApi(debt));
+  });
+}
+
+// --- Server reconciliation ---
+export async function reconcileDebts() {
+  const res = await apiRequest('GET', '/api/debts');
+  const remote = new Map((await res.json() as ApiDebt[]).map((debt) => [debt.id, debt]));
+
+  const deletions = await db.pendingDeletions.where('table').equals('debts').toArray();
+  for (const deletion of deletions) {
+    if (remote.has(deletion.recordId)) {
+      await apiRequest('DELETE', `/api/debts/${deletion.recordId}`);
+      remote.delete(deletion.recordId);
+    }
+    await db.pendingDeletions.delete(deletion.id);
+  }
+
+  const locals = await db.debts.toArray();
+  const allPayments = await db.debtPayments.toArray();
+  const paymentsOf = (debt: DebtRecord) => allPayments.filter((p) => p.debtUuid === debt.uuid);
+
+  for (const local of locals) {
+    const server = remote.get(local.uuid);
+    remote.delete(local.uuid);
+    const isDirty = !local.syncedAt || toMillis(local.updatedAt) > toMillis(local.syncedAt);
+
+    if (!server) {
+      if (local.syncedAt && !isDirty) {
+        // Known to the server once and untouched since, so it was deleted elsewhere
+        await db.transaction('rw', db.debts, db.debtPayments, async () => {
+          await db.debts.delete(local.id!);
+          await db.debtPayments.where('debtUuid').equals(local.uuid).delete();
+        });
+      } else {
+        await apiRequest('POST', '/api/debts', toApi(local, paymentsOf(local)));
+        await db.debts.update(local.id!, { syncedAt: local.updatedAt });
+      }
+    } else if (toMillis(server.updatedAt) > toMillis(local.updatedAt)) {
+      await applyServerCopy(server, local.id);
+    } else if (isDirty) {
+      await apiRequest('PUT', `/api/debts/${local.uuid}`, toApi(local, paymentsOf(local)));
+      await db.debts.update(local.id!, { syncedAt: local.updatedAt });
+    }
+  }
+
+  // Whatever is left was created on another device
+  for (const server of Array.from(remote.values())) {
+    await applyServerCopy(server);
+  }
+}
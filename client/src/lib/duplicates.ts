@@ -0,0 +1,125 @@
+import db from './db';
+import { Expense } from '@shared/schema';
+import { toBaseAmount } from './currency';
+import { trashExpense } from './trash';
+
+// ============================================================================
+// Duplicate detection.
+//
+// Two expenses are likely the same purchase when they have the same amount on
+// the same day and at least two of these agree: the time (within a window),
+// the category, and the place (`where`, compared loosely). Used to warn in the
+// expense form and to review freshly imported data.
+// ============================================================================
+
+export const DUPLICATE_TIME_WINDOW_MINUTES = 30;
+const WHERE_SIMILARITY = 0.6;
+const MIN_SIGNALS = 2;
+
+export interface DuplicateMatch {
+  expense: Expense;
+  reasons: string[];
+}
+
+const words = (value?: string) =>
+  new Set((value || '').toLowerCase().split(/[^a-z0-9]+/).filter((w) => w.length > 1));
+
+/** Overlap of the words in two place names, from 0 to 1 (Dice coefficient). */
+export function whereSimilarity(a?: string, b?: string) {
+  const left = words(a);
+  const right = words(b);
+  if (left.size === 0 || right.size === 0) return 0;
+  let shared = 0;
+  left.forEach((w) => { if (right.has(w)) shared++; });
+  return (2 * shared) / (left.size + right.size);
+}
+
+const minutesOf = (time?: string) => {
+  const match = time?.match(/^(\d{1,2}):(\d{2})/);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+};
+
+// Statement imports have no time of day and are stored at midnight
+const hasTime = (time?: string) => !!time && time !== '00:00';
+
+/** Why `a` and `b` look like the same purchase, or null when they do not. */
+export function duplicateReasons(a: Expense, b: Expense): string[] | null {
+  if (a.date.slice(0, 10) !== b.date.slice(0, 10)) return null;
+  if (Math.abs(toBaseAmount(a) - toBaseAmount(b)) >= 0.01) return null;
+
+  const reasons: string[] = [];
+  if (hasTime(a.time) && hasTime(b.time)) {
+    const gap = Math.abs((minutesOf(a.time) ?? 0) - (minutesOf(b.time) ?? 0));
+    if (gap <= DUPLICATE_TIME_WINDOW_MINUTES) reasons.push(gap === 0 ? 'same time' : `${gap} min apart`);
+  }
+  if (a.category === b.category) reasons.push('same category');
+  if (whereSimilarity(a.where, b.where) >= WHERE_SIMILARITY) reasons.push('same place');
+
+  return reasons.length >= MIN_SIGNALS ? reasons : null;
+}
+
+/** Existing expenses that `expense` would duplicate, best match first. */
+export function findDuplicatesOf(expense: Expense, pool: Expense[]): DuplicateMatch[] {
+  return pool
+    .filter((other) => other.id !== expense.id && !other.isTemplate)
+    .map((other) => ({ expense: other, reasons: duplicateReasons(expense, other) }))
+    .filter((match): match is DuplicateMatch => match.reasons !== null)
+    .sort((a, b) => b.reasons.length - a.reasons.length);
+}
+
+export interface DuplicatePair {
+  keep: Expense;      // The expense that was there first
+  duplicate: Expense; // The newer copy, merged into `keep` or left alone
+  reasons: string[];
+}
+
+/**
+ * Pairs each of the given (just imported) expenses with the older expense it
+ * most likely repeats. Each expense appears in at most one pair.
+ */
+export async function findDuplicatePairs(ids: string[]): Promise<DuplicatePair[]> {
+  const imported = (await db.expenses.bulkGet(ids)).filter((e): e is Expense => !!e && !e.isTemplate);
+  if (imported.length === 0) return [];
+
+  const dates = Array.from(new Set(imported.map((e) => e.date)));
+  const sameDay = await db.expenses.where('date').anyOf(dates).filter((e) => !e.isTemplate).toArray();
+  const used = new Set<string>();
+  const pairs: DuplicatePair[] = [];
+
+  const olderFirst = (a: Expense, b: Expense) => a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id);
+
+  for (const expense of [...imported].sort(olderFirst)) {
+    if (used.has(expense.id)) continue;
+    const match = findDuplicatesOf(expense, sameDay.filter((e) => !used.has(e.id)))[0];
+    if (!match) continue;
+
+    const [keep, duplicate] = [match.expense, expense].sort(olderFirst);
+    used.add(keep.id);
+    used.add(duplicate.id);
+    pairs.push({ keep, duplicate, reasons: match.reasons });
+  }
+
+  return pairs;
+}
+
+/**
+ * Folds `duplicate` into `keep`: empty text fields on `keep` are filled in,
+ * attachments move over, and `duplicate` goes to the trash along with any
+ * receivables its split raised.
+ */
+export async function mergeDuplicate(keepId: string, duplicateId: string) {
+  await db.transaction('rw', [db.expenses, db.attachments, db.debts, db.debtPayments, db.pendingDeletions, db.trash], async () => {
+    const [keep, duplicate] = await db.expenses.bulkGet([keepId, duplicateId]);
+    if (!keep || !duplicate) return;
+
+    const fill = (field: 'items' | 'where' | 'note') => keep[field] || duplicate[field] || '';
+    await db.expenses.update(keepId, {
+      items: fill('items'),
+      where: fill('where'),
+      note: fill('note'),
+      updatedAt: new Date().toISOString(),
+    });
+    await db.attachments.where('expenseId').equals(duplicateId).modify({ expenseId: keepId });
+    await trashExpense(duplicateId);
+  });
+}
@@ -0,0 +1,272 @@
+import db, { Group, GroupExpense } from './db';
+import { createDebt } from './debt-repository';
+import { computeSplit } from './splits';
+import { SplitMethod } from '@shared/schema';
+
+// ============================================================================
+// Groups.
+//
+// A group (flatmates, a trip) keeps a ledger of shared bills, whoever paid
+// them. Each member's balance is what they paid less their part of every bill.
+// Settling up works out the fewest payments that clear all balances; the ones
+// you are part of become dues and receivables, under the same person names,
+// and the bills are marked settled so the next round starts from zero.
+// ============================================================================
+
+// Stands for the device owner wherever a member name is expected
+export const YOU = 'You';
+
+// Groups up to this size are settled in the fewest payments possible; the
+// exact search doubles with every member, so bigger ones are matched greedily
+const EXACT_SETTLE_LIMIT = 15;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Trims names and drops blanks and repeats, keeping the first spelling
+function cleanMembers(members: string[]) {
+  const seen = new Set<string>();
+  const cleaned: string[] = [];
+  for (const member of members.map((name) => name.trim()).filter(Boolean)) {
+    const key = member.toLowerCase();
+    if (key === YOU.toLowerCase()) throw new Error(`"${YOU}" is already in every group`);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    cleaned.push(member);
+  }
+  if (cleaned.length === 0) throw new Error('Add at least one other member');
+  return cleaned;
+}
+
+export async function createGroup(name: string, members: string[]): Promise<Group> {
+  const now = new Date().toISOString();
+  const group: Group = {
+    id: crypto.randomUUID(),
+    name: name.trim(),
+    members: cleanMembers(members),
+    createdAt: now,
+    updatedAt: now,
+  };
+  await db.groups.add(group);
+  return group;
+}
+
+const usesMember = (expense: GroupExpense, member: string) =>
+  expense.paidBy === member || member in expense.shares;
+
+/** Renames a group or changes its members. Members with bills in the ledger can't be removed. */
+export async function updateGroup(id: string, name: string, members: string[]) {
+  await db.transaction('rw', db.groups, db.groupExpenses, async () => {
+    const group = await db.groups.get(id);
+    if (!group) throw new Error('Group not found');
+    const next = cleanMembers(members);
+
+    const expenses = await db.groupExpenses.where('groupId').equals(id).toArray();
+    const stuck = group.members.find((member) => !next.includes(member) && expenses.some((expense) => usesMember(expense, member)));
+    if (stuck) throw new Error(`${stuck} has bills in this group and can't be removed`);
+
+    await db.groups.update(id, { name: name.trim(), members: next, updatedAt: new Date().toISOString() });
+  });
+}
+
+/** Deletes a group and its whole ledger. Dues and receivables from past settle-ups stay. */
+export async function deleteGroup(id: string) {
+  await db.transaction('rw', db.groups, db.groupExpenses, async () => {
+    await db.groupExpenses.where('groupId').equals(id).delete();
+    await db.groups.delete(id);
+  });
+}
+
+export interface GroupExpenseInput {
+  description: string;
+  amount: number;
+  paidBy: string;
+  date: string;
+  method: SplitMethod;
+  participants: string[]; // Who shares the bill
+  values?: Record<string, number>; // Shares or exact amounts, by participant
+}
+
+/** Each participant's part of a bill. Rounding differences land on the first one. */
+export function groupShares({ amount, method, participants, values = {} }: GroupExpenseInput): Record<string, number> {
+  const [first, ...rest] = participants;
+  const { myShare, amounts } = computeSplit({
+    method,
+    total: amount,
+    myValue: values[first],
+    people: rest.map((name) => ({ value: values[name] })),
+  });
+  return Object.fromEntries([[first, myShare], ...rest.map((name, index) => [name, amounts[index]])]);
+}
+
+/** Adds a bill to a group's ledger, or replaces the one with `id`. */
+export async function saveGroupExpense(group: Group, input: GroupExpenseInput, id?: string) {
+  const everyone = [YOU, ...group.members];
+  if (!everyone.includes(input.paidBy)) throw new Error('Pick who paid');
+  const participants = everyone.filter((name) => input.participants.includes(name));
+  if (participants.length === 0) throw new Error('Pick who shares the bill');
+
+  if (input.method === 'exact') {
+    const entered = round(participants.reduce((sum, name) => sum + (input.values?.[name] ?? 0), 0));
+    if (entered !== round(input.amount)) throw new Error(`The amounts add up to ${entered}, not ${round(input.amount)}`);
+  }
+
+  // The payer absorbs any rounding, since they hold the money anyway
+  const ordered = participants.includes(input.paidBy)
+    ? [input.paidBy, ...participants.filter((name) => name !== input.paidBy)]
+    : participants;
+  const values = input.method === 'equal'
+    ? undefined
+    : Object.fromEntries(participants.map((name) => [name, input.values?.[name] ?? (input.method === 'shares' ? 1 : 0)]));
+
+  const now = new Date().toISOString();
+  const existing = id ? await db.groupExpenses.get(id) : undefined;
+  await db.groupExpenses.put({
+    id: existing?.id ?? crypto.randomUUID(),
+    groupId: group.id,
+    description: input.description.trim(),
+    amount: input.amount,
+    paidBy: input.paidBy,
+    date: input.date,
+    method: input.method,
+    values,
+    shares: groupShares({ ...input, participants: ordered, values }),
+    settledAt: existing?.settledAt,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  });
+}
+
+export function deleteGroupExpense(id: string) {
+  return db.groupExpenses.delete(id);
+}
+
+/** What each member is owed (positive) or owes (negative) over the bills not settled yet. */
+export function getGroupBalances(group: Group, expenses: GroupExpense[]): Map<string, number> {
+  const balances = new Map([YOU, ...group.members].map((name) => [name, 0]));
+  const add = (name: string, amount: number) => balances.set(name, (balances.get(name) ?? 0) + amount);
+
+  for (const expense of expenses) {
+    if (expense.settledAt) continue;
+    add(expense.paidBy, expense.amount);
+    for (const [name, share] of Object.entries(expense.shares)) add(name, -share);
+  }
+  balances.forEach((balance, name) => balances.set(name, round(balance)));
+  return balances;
+}
+
+export interface SettlementPayment {
+  from: string;
+  to: string;
+  amount: number;
+}
+
+interface Party {
+  name: string;
+  cents: number; // Positive when owed
+}
+
+// Pays the biggest debt into the biggest credit until everyone is even. Each
+// payment clears at least one party, so n parties need at most n - 1.
+function matchGreedily(parties: Party[]): SettlementPayment[] {
+  const creditors = parties.filter((party) => party.cents > 0).map((party) => ({ ...party })).sort((a, b) => b.cents - a.cents);
+  const debtors = parties.filter((party) => party.cents < 0).map((party) => ({ ...party, cents: -party.cents })).sort((a, b) => b.cents - a.cents);
+  const payments: SettlementPayment[] = [];
+
+  let c = 0;
+  let d = 0;
+  while (c < creditors.length && d < debtors.length) {
+    const cents = Math.min(creditors[c].cents, debtors[d].cents);
+    payments.push({ from: debtors[d].name, to: creditors[c].name, amount: cents / 100 });
+    creditors[c].cents -= cents;
+    debtors[d].cents -= cents;
+    if (creditors[c].cents === 0) c++;
+    if (debtors[d].cents === 0) d++;
+  }
+  return payments;
+}
+
+// Splits the parties into as many circles that net to zero among themselves
+// as possible. Every circle settles in one payment fewer than its size, so
+// the most circles means the fewest payments overall.
+function zeroSumCircles(parties: Party[]): Party[][] {
+  const n = parties.length;
+  const size = 1 << n;
+  const sums = new Float64Array(size);
+  const best = new Int8Array(size); // Most zero-sum circles the subset can be cut into
+  const removed = new Int8Array(size); // Which party to take out to get there
+
+  for (let mask = 1; mask < size; mask++) {
+    const low = mask & -mask;
+    sums[mask] = sums[mask ^ low] + parties[31 - Math.clz32(low)].cents;
+    let most = -1;
+    for (let i = 0; i < n; i++) {
+      if (mask & (1 << i) && best[mask ^ (1 << i)] > most) {
+        most = best[mask ^ (1 << i)];
+        removed[mask] = i;
+      }
+    }
+    best[mask] = most + (sums[mask] === 0 ? 1 : 0);
+  }
+
+  // Walk back from everyone; each time the rest nets to zero, a circle closes
+  const circles: Party[][] = [];
+  let circle: Party[] = [];
+  for (let mask = size - 1; mask; ) {
+    const i = removed[mask];
+    circle.push(parties[i]);
+    mask ^= 1 << i;
+    if (sums[mask] === 0) {
+      circles.push(circle);
+      circle = [];
+    }
+  }
+  return circles;
+}
+
+/** The fewest payments that bring every balance to zero. */
+export function settleUp(balances: Map<string, number>): SettlementPayment[] {
+  const parties = Array.from(balances, ([name, balance]) => ({ name, cents: Math.round(balance * 100) }))
+    .filter((party) => party.cents !== 0);
+  if (parties.length === 0) return [];
+
+  // Rounding can leave a stray cent; it goes to whoever is furthest from even
+  const drift = parties.reduce((sum, party) => sum + party.cents, 0);
+  if (drift !== 0) {
+    const largest = parties.reduce((a, b) => (Math.abs(b.cents) > Math.abs(a.cents) ? b : a));
+    largest.cents -= drift;
+  }
+
+  const circles = parties.length <= EXACT_SETTLE_LIMIT ? zeroSumCircles(parties.filter((party) => party.cents !== 0)) : [parties];
+  return circles.flatMap(matchGreedily);
+}
+
+/**
+ * Settles a group up: the payments you are part of are recorded as dues and
+ * receivables, and every open bill is marked settled. Returns all the
+ * payments, including the ones between other members.
+ */
+export async function settleGroup(groupId: string): Promise<SettlementPayment[]> {
+  return db.transaction('rw', [db.groups, db.groupExpenses, db.debts], async () => {
+    const group = await db.groups.get(groupId);
+    if (!group) throw new Error('Group not found');
+
+    const open = (await db.groupExpenses.where('groupId').equals(groupId).toArray()).filter((expense) => !expense.settledAt);
+    const payments = settleUp(getGroupBalances(group, open));
+    const now = new Date().toISOString();
+
+    for (const payment of payments) {
+      if (payment.from !== YOU && payment.to !== YOU) continue;
+      const youPay = payment.from === YOU;
+      await createDebt({
+        type: youPay ? 'due' : 'receivable',
+        amount: payment.amount,
+        purpose: `${group.name} settle-up`,
+        personName: youPay ? payment.to : payment.from,
+        datetime: now,
+      });
+    }
+
+    await db.groupExpenses.bulkPut(open.map((expense) => ({ ...expense, settledAt: now, updatedAt: now })));
+    return payments;
+  });
+}
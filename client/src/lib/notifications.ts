@@ -0,0 +1,191 @@
+import { liveQuery } from 'dexie';
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import db, { AppNotification } from './db';
+import { getBudgetLedger } from './budget-periods';
+import { budgetCovers } from './budget-scope';
+import { getUpcomingExpenses } from './recurring';
+import { getOutstanding } from './debt-repository';
+import { currencySymbol, getBaseCurrency, toBaseAmount } from './currency';
+import { CARD_DUE_REMINDER_DAYS, getCardStatement } from './card-statements';
+
+// ============================================================================
+// Notification center.
+//
+// Alerts are derived from local data whenever it changes: budget thresholds,
+// recurring charges due tomorrow, card bills coming due and receivables left
+// open too long. Each alert's id encodes what raised it, so re-running the
+// checks never repeats one. New alerts are mirrored to the Web Notifications
+// API when the user has granted permission. Everything is gated by
+// settings.notifications, budget thresholds additionally by settings.budgetAlerts.
+// ============================================================================
+
+export const DEFAULT_ALERT_THRESHOLDS = [50, 80, 100];
+
+// A receivable still open this long after it was recorded counts as overdue
+export const RECEIVABLE_OVERDUE_DAYS = 30;
+
+const CHECK_DEBOUNCE_MS = 1000;
+const RECHECK_INTERVAL_MS = 60 * 60 * 1000; // Picks up date changes while the app stays open
+
+type Candidate = Omit<AppNotification, 'createdAt' | 'readAt'>;
+
+async function collectCandidates(today: Date): Promise<Candidate[]> {
+  const settings = (await db.settings.toArray())[0];
+  if (!settings || settings.notifications === false) return [];
+
+  const symbol = currencySymbol(getBaseCurrency(settings));
+  const money = (amount: number) => `${symbol}${Math.round(amount).toLocaleString()}`;
+  const expenses = (await db.expenses.toArray()).filter((expense) => !expense.isTemplate);
+  const candidates: Candidate[] = [];
+
+  // Budget thresholds: only the highest mark crossed this period is raised
+  if (settings.budgetAlerts !== false) {
+    const thresholds = [...(settings.budgetAlertThresholds?.length ? settings.budgetAlertThresholds : DEFAULT_ALERT_THRESHOLDS)]
+      .sort((a, b) => b - a);
+    const budgets = (await db.budgets.toArray()).filter((budget) => budget.isActive !== false);
+    // Income and transfers share the table but never count against a budget
+    const spending = expenses.filter((expense) => !expense.type || expense.type === 'expense');
+
+    for (const budget of budgets) {
+      const ledger = getBudgetLedger(budget, spending.filter((e) => budgetCovers(budget, e)), today);
+      const { periodStart, spent, available } = ledger[ledger.length - 1];
+      if (available <= 0) continue;
+
+      const percent = (spent / available) * 100;
+      const crossed = thresholds.find((threshold) => percent >= threshold);
+      if (crossed === undefined) continue;
+
+      candidates.push({
+        id: `budget:${budget.id}:${periodStart}:${crossed}`,
+        kind: 'budget',
+        title: crossed >= 100 ? `${budget.name} is over budget` : `${budget.name} is at ${crossed}%`,
+        body: `${money(spent)} of ${money(available)} spent this period.`,
+      });
+    }
+  }
+
+  // Recurring charges falling due tomorrow
+  for (const { expense, date } of getUpcomingExpenses(expenses, 1, today)) {
+    candidates.push({
+      id: `recurring:${expense.id}:${date}`,
+      kind: 'recurring',
+      title: `${expense.items || expense.where || 'Recurring charge'} is due tomorrow`,
+      body: `${expense.currency ? `${currencySymbol(expense.currency)}${expense.amount.toLocaleString()}` : money(toBaseAmount(expense))} will be logged automatically.`,
+    });
+  }
+
+  // Card statements coming due that are not paid off, once per statement
+  const cards = await db.accounts.where('type').equals('credit_card').toArray();
+  for (const card of cards) {
+    const statement = getCardStatement(card, expenses, today);
+    if (!statement || statement.dueAmount <= 0) continue;
+    if (statement.daysUntilDue < 0 || statement.daysUntilDue > CARD_DUE_REMINDER_DAYS) continue;
+
+    const when = statement.daysUntilDue === 0 ? 'today' : statement.daysUntilDue === 1 ? 'tomorrow' : `in ${statement.daysUntilDue} days`;
+    candidates.push({
+      id: `card:${card.id}:${statement.statementDate}`,
+      kind: 'card',
+      title: `${card.name} bill is due ${when}`,
+      body: `${money(statement.dueAmount)} left to pay by ${format(parseISO(statement.dueDate), 'MMM d')}.`,
+    });
+  }
+
+  // Receivables nobody has paid back yet
+  const receivables = (await db.debts.where('type').equals('receivable').toArray())
+    .filter((debt) => debt.status !== 'settled');
+  for (const debt of receivables) {
+    const since = debt.datetime || debt.createdAt;
+    const age = differenceInCalendarDays(today, new Date(since));
+    if (age < RECEIVABLE_OVERDUE_DAYS) continue;
+
+    const payments = await db.debtPayments.where('debtUuid').equals(debt.uuid).toArray();
+    const outstanding = getOutstanding(debt, payments);
+    if (outstanding <= 0) continue;
+
+    candidates.push({
+      id: `receivable:${debt.uuid}`,
+      kind: 'receivable',
+      title: `${debt.personName} still owes you ${money(outstanding)}`,
+      body: `For ${debt.purpose}, ${age} days ago.`,
+    });
+  }
+
+  return candidates;
+}
+
+function showSystemNotification(notification: AppNotification) {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  try {
+    new Notification(notification.title, { body: notification.body, tag: notification.id });
+  } catch (error) {
+    // Some mobile browsers only allow notifications from a service worker
+    console.error('Failed to show notification:', error);
+  }
+}
+
+/** Runs every check once and stores the alerts that have not been raised before. */
+export async function checkNotifications(today = new Date()) {
+  const candidates = await collectCandidates(today);
+  if (candidates.length === 0) return [];
+
+  const existing = await db.notifications.bulkGet(candidates.map((c) => c.id));
+  const now = new Date().toISOString();
+  const fresh: AppNotification[] = candidates
+    .filter((_, i) => !existing[i])
+    .map((candidate) => ({ ...candidate, createdAt: now }));
+
+  await db.notifications.bulkAdd(fresh);
+  fresh.forEach(showSystemNotification);
+  return fresh;
+}
+
+/** Asks for browser permission; resolves to whether notifications can be shown. */
+export async function requestNotificationPermission() {
+  if (typeof Notification === 'undefined') return false;
+  if (Notification.permission === 'granted') return true;
+  if (Notification.permission === 'denied') return false;
+  return (await Notification.requestPermission()) === 'granted';
+}
+
+export async function markAllRead() {
+  const now = new Date().toISOString();
+  await db.notifications.filter((n) => !n.readAt).modify({ readAt: now });
+}
+
+// Cleared alerts stay in the table, hidden, so the same condition is not
+// raised again on the next check.
+export async function clearNotifications() {
+  const now = new Date().toISOString();
+  await db.notifications.filter((n) => !n.dismissedAt).modify({ dismissedAt: now, readAt: now });
+}
+
+/**
+ * Re-runs the checks whenever the data they read changes, plus hourly.
+ * Returns a cleanup function, like startSync().
+ */
+export function startNotificationChecks() {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const schedule = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      checkNotifications().catch((error) => console.error('Failed to check notifications:', error));
+    }, CHECK_DEBOUNCE_MS);
+  };
+
+  // Counting a whole table subscribes to every change in it
+  const subscription = liveQuery(() => Promise.all([
+    db.expenses.count(),
+    db.budgets.count(),
+    db.accounts.count(),
+    db.settings.count(),
+    db.debts.count(),
+    db.debtPayments.count(),
+  ])).subscribe({ next: schedule, error: (error) => console.error(error) });
+  const interval = setInterval(schedule, RECHECK_INTERVAL_MS);
+
+  return () => {
+    clearTimeout(timer);
+    clearInterval(interval);
+    subscription.unsubscribe();
+  };
+}
@@ -0,0 +1,151 @@
+import {
+  addDays, addMonths, addWeeks, addYears, differenceInCalendarDays, differenceInCalendarMonths,
+  differenceInCalendarYears, format, getDaysInMonth, parseISO, setDate, startOfMonth,
+} from 'date-fns';
+import db from './db';
+import { Expense } from '@shared/schema';
+
+// ============================================================================
+// Recurring expenses.
+//
+// An expense with `isRecurring` and a `recurrence` rule is the source of a
+// series: its own date is the first occurrence and later ones are copied into
+// db.expenses as they fall due. Occurrence ids are derived from the source id
+// and date, so two devices generating the same charge end up with one record.
+// ============================================================================
+
+const MAX_OCCURRENCES = 1000;
+
+export interface UpcomingExpense {
+  expense: Expense;
+  date: string;
+}
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+export const occurrenceId = (sourceId: string, date: string) => `${sourceId}:${date}`;
+
+export const isRecurringSource = (expense: Expense) =>
+  !!expense.isRecurring && !!expense.recurrence && !expense.isTemplate;
+
+function nthOccurrence(expense: Expense, n: number): Date {
+  const anchor = parseISO(expense.date);
+  const rule = expense.recurrence!;
+
+  switch (rule.frequency) {
+    case 'daily':
+      return addDays(anchor, n);
+    case 'weekly':
+      return addWeeks(anchor, n);
+    case 'monthly': {
+      const month = addMonths(startOfMonth(anchor), n);
+      const day = Math.min(rule.dayOfMonth ?? anchor.getDate(), getDaysInMonth(month));
+      return setDate(month, day);
+    }
+    case 'yearly':
+      return addYears(anchor, n);
+    case 'custom':
+      return addDays(anchor, n * Math.max(1, rule.interval || 1));
+  }
+}
+
+// Index of an occurrence on or before `after`, so long-running series don't
+// have to be walked from their first date
+function startIndex(expense: Expense, after: string): number {
+  const anchor = parseISO(expense.date);
+  const from = parseISO(after);
+  const rule = expense.recurrence!;
+
+  let periods: number;
+  switch (rule.frequency) {
+    case 'daily':
+      periods = differenceInCalendarDays(from, anchor);
+      break;
+    case 'weekly':
+      periods = Math.floor(differenceInCalendarDays(from, anchor) / 7);
+      break;
+    case 'monthly':
+      periods = differenceInCalendarMonths(from, anchor);
+      break;
+    case 'yearly':
+      periods = differenceInCalendarYears(from, anchor);
+      break;
+    case 'custom':
+      periods = Math.floor(differenceInCalendarDays(from, anchor) / Math.max(1, rule.interval || 1));
+      break;
+  }
+  return Math.max(0, periods - 1);
+}
+
+/** Dates of a recurring expense's occurrences after `after`, up to and including `until`. */
+export function getOccurrences(expense: Expense, after: string, until: string): string[] {
+  if (!isRecurringSource(expense)) return [];
+
+  const rule = expense.recurrence!;
+  const last = rule.endDate && rule.endDate < until ? rule.endDate : until;
+  const dates: string[] = [];
+
+  const start = startIndex(expense, after);
+  for (let n = start; n < start + MAX_OCCURRENCES; n++) {
+    const date = toDateString(nthOccurrence(expense, n));
+    if (date > last) break;
+    // The source itself is the first occurrence
+    if (date > after && date > expense.date) dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * Writes every occurrence that has fallen due into db.expenses and returns how
+ * many were created. Safe to call repeatedly.
+ */
+export async function materializeRecurringExpenses(today = new Date()): Promise<number> {
+  const until = toDateString(today);
+  const sources = await db.expenses.filter(isRecurringSource).toArray();
+  let created = 0;
+
+  for (const source of sources) {
+    const dates = getOccurrences(source, source.recurrence!.lastGenerated ?? source.date, until);
+    if (dates.length === 0) continue;
+
+    await db.transaction('rw', db.expenses, async () => {
+      const ids = dates.map((date) => occurrenceId(source.id, date));
+      const existing = await db.expenses.bulkGet(ids);
+      const now = new Date().toISOString();
+      // Occurrences raise no receivables, so they don't carry the source's split either
+      const { recurrence, attachments, split, ...fields } = source;
+
+      const occurrences: Expense[] = dates
+        .filter((_, i) => !existing[i])
+        .map((date) => ({
+          ...fields,
+          id: occurrenceId(source.id, date),
+          date,
+          isRecurring: false,
+          isTemplate: false,
+          recurringSourceId: source.id,
+          createdAt: now,
+          updatedAt: now,
+        }));
+
+      await db.expenses.bulkAdd(occurrences);
+      await db.expenses.update(source.id, {
+        recurrence: { ...recurrence!, lastGenerated: dates[dates.length - 1] },
+      });
+      created += occurrences.length;
+    });
+  }
+
+  return created;
+}
+
+/** Occurrences that will be generated over the next `days` days, soonest first. */
+export function getUpcomingExpenses(expenses: Expense[], days = 30, today = new Date()): UpcomingExpense[] {
+  const from = toDateString(today);
+  const until = toDateString(addDays(today, days));
+
+  return expenses
+    .filter(isRecurringSource)
+    .flatMap((expense) => getOccurrences(expense, from, until).map((date) => ({ expense, date })))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
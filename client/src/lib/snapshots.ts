@@ -0,0 +1,101 @@
+import db, { Snapshot } from './db';
+import { AutoBackupFrequency } from '@shared/schema';
+import { Backup, readBackup } from './backup';
+
+// ============================================================================
+// Automatic local snapshots.
+//
+// A snapshot is a full backup kept inside the app's own database, taken on a
+// schedule (daily or weekly) and right before anything that wipes data
+// (restoring a backup, clearing all data). Only the newest `retention`
+// snapshots are kept. They are restored through the same dialog as a file.
+// ============================================================================
+
+export const DEFAULT_AUTO_BACKUP: AutoBackupFrequency = 'daily';
+export const DEFAULT_SNAPSHOT_RETENTION = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INTERVAL_MS: Record<Exclude<AutoBackupFrequency, 'off'>, number> = {
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+};
+const RECHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+export const SNAPSHOT_REASONS: Record<Snapshot['reason'], string> = {
+  scheduled: 'Scheduled',
+  manual: 'Manual',
+  'before-restore': 'Before restore',
+  'before-clear': 'Before clearing data',
+};
+
+async function retention() {
+  const settings = await db.settings.get('default');
+  return settings?.autoBackupRetention || DEFAULT_SNAPSHOT_RETENTION;
+}
+
+/** Drops all but the newest `keep` snapshots. */
+export async function pruneSnapshots(keep: number) {
+  const stale = await db.snapshots.orderBy('createdAt').reverse().offset(keep).primaryKeys();
+  await db.transaction('rw', db.snapshots, db.snapshotData, async () => {
+    await db.snapshots.bulkDelete(stale);
+    await db.snapshotData.bulkDelete(stale);
+  });
+}
+
+/**
+ * Saves a snapshot of everything and prunes old ones. Returns null without
+ * saving when there is nothing to keep, so an empty database never pushes
+ * good snapshots out.
+ */
+export async function takeSnapshot(reason: Snapshot['reason']): Promise<Snapshot | null> {
+  const backup = await readBackup();
+  if (backup.expenses.length + backup.budgets.length + backup.debts.length === 0) return null;
+
+  const snapshot: Snapshot = {
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+    reason,
+    expenseCount: backup.expenses.length,
+  };
+  await db.transaction('rw', db.snapshots, db.snapshotData, async () => {
+    await db.snapshots.add(snapshot);
+    await db.snapshotData.add({ id: snapshot.id, backup });
+  });
+  await pruneSnapshots(await retention());
+  return snapshot;
+}
+
+export async function getSnapshotBackup(id: string): Promise<Backup | undefined> {
+  return (await db.snapshotData.get(id))?.backup;
+}
+
+export async function deleteSnapshot(id: string) {
+  await db.transaction('rw', db.snapshots, db.snapshotData, async () => {
+    await db.snapshots.delete(id);
+    await db.snapshotData.delete(id);
+  });
+}
+
+/** Takes a scheduled snapshot if the last one is older than the configured interval. */
+export async function runScheduledSnapshot(now = new Date()) {
+  const settings = await db.settings.get('default');
+  const frequency = settings?.autoBackup ?? DEFAULT_AUTO_BACKUP;
+  if (frequency === 'off') return null;
+
+  const last = await db.snapshots.orderBy('createdAt').filter((s) => s.reason === 'scheduled').last();
+  if (last && now.getTime() - new Date(last.createdAt).getTime() < INTERVAL_MS[frequency]) return null;
+  return takeSnapshot('scheduled');
+}
+
+/**
+ * Checks for a due snapshot now and then hourly.
+ * Returns a cleanup function, like startSync().
+ */
+export function startAutoBackups() {
+  const check = () => {
+    runScheduledSnapshot().catch((error) => console.error('Failed to take snapshot:', error));
+  };
+  check();
+  const interval = setInterval(check, RECHECK_INTERVAL_MS);
+  return () => clearInterval(interval);
+}
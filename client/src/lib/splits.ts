@@ -0,0 +1,117 @@
+import db, { DebtPayment, DebtRecord } from './db';
+import { toBaseAmount } from './currency';
+import { expenseLabel } from './trash';
+import { DebtInput, createDebt, deleteDebt, getOutstanding, updateDebt } from './debt-repository';
+import { Expense, ExpenseSplit, SplitMethod, SplitParticipant } from '@shared/schema';
+
+// ============================================================================
+// Split expenses.
+//
+// When you pay a shared bill, the expense records only your share and the
+// split keeps the whole bill and who owes what. Each person's part becomes a
+// receivable in Dues & Receivables, linked back by expenseId, so repayments
+// made there show up against the original expense.
+// ============================================================================
+
+export const SPLIT_METHOD_LABELS: Record<SplitMethod, string> = {
+  equal: 'Equally',
+  shares: 'By Shares',
+  exact: 'Exact Amounts',
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export interface SplitResult {
+  myShare: number; // Negative when exact amounts add up to more than the bill
+  amounts: number[]; // What each person owes, in the same order as `people`
+}
+
+/** Works out everyone's part of the bill. Rounding differences land on your share. */
+export function computeSplit(split: Pick<ExpenseSplit, 'method' | 'total' | 'myValue'> & { people: Pick<SplitParticipant, 'value'>[] }): SplitResult {
+  const { method, total, people } = split;
+  let amounts: number[];
+
+  if (method === 'equal') {
+    amounts = people.map(() => round(total / (people.length + 1)));
+  } else if (method === 'shares') {
+    const weights = people.map((person) => person.value ?? 1);
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, split.myValue ?? 1);
+    amounts = weights.map((weight) => (totalWeight > 0 ? round((total * weight) / totalWeight) : 0));
+  } else {
+    amounts = people.map((person) => round(person.value ?? 0));
+  }
+
+  return { myShare: round(total - amounts.reduce((sum, amount) => sum + amount, 0)), amounts };
+}
+
+/** Fills in each person's amount and gives everyone who owes something the id of their receivable. */
+export function prepareSplit(split: ExpenseSplit): SplitResult & { split: ExpenseSplit } {
+  const result = computeSplit(split);
+  const people = split.people.map((person, index) => ({
+    ...person,
+    name: person.name.trim(),
+    amount: result.amounts[index],
+    debtUuid: result.amounts[index] > 0 ? person.debtUuid || crypto.randomUUID() : undefined,
+  }));
+  return { ...result, split: { ...split, people } };
+}
+
+/** What left the account: the whole bill for a split expense, in the base currency. */
+export function amountPaid(expense: Expense) {
+  return toBaseAmount(expense.split ? { ...expense, amount: expense.split.total } : expense);
+}
+
+/**
+ * Brings the receivables of an expense in line with its split: new people get
+ * one, changed amounts are updated (repayments are kept) and people taken off
+ * the split, or the whole split, send theirs to the trash.
+ */
+export async function saveSplitReceivables(expense: Expense) {
+  const owing = (expense.split?.people ?? []).filter((person) => person.debtUuid && person.amount > 0);
+  const keep = new Set(owing.map((person) => person.debtUuid));
+
+  await db.transaction('rw', [db.debts, db.debtPayments, db.pendingDeletions, db.trash], async () => {
+    const linked = await db.debts.where('expenseId').equals(expense.id).toArray();
+    for (const debt of linked) {
+      if (!keep.has(debt.uuid)) await deleteDebt(debt.id!);
+    }
+
+    for (const person of owing) {
+      const values: DebtInput = {
+        type: 'receivable',
+        amount: round(toBaseAmount({ ...expense, amount: person.amount })),
+        purpose: `Share of ${expenseLabel(expense)}`,
+        personName: person.name,
+        datetime: new Date(`${expense.date}T${expense.time || '00:00'}`).toISOString(),
+        expenseId: expense.id,
+      };
+      const existing = linked.find((debt) => debt.uuid === person.debtUuid);
+      if (!existing) {
+        await createDebt(values, person.debtUuid);
+      } else if (
+        existing.amount !== values.amount ||
+        existing.personName !== values.personName ||
+        existing.purpose !== values.purpose ||
+        existing.datetime !== values.datetime
+      ) {
+        await updateDebt(existing.id!, values);
+      }
+    }
+  });
+}
+
+export interface SplitReceivable {
+  debt: DebtRecord;
+  outstanding: number;
+}
+
+/** Receivables raised by split expenses, grouped by the expense they came from. */
+export function groupSplitReceivables(debts: DebtRecord[], payments: DebtPayment[]) {
+  const byExpense = new Map<string, SplitReceivable[]>();
+  for (const debt of debts) {
+    if (!debt.expenseId) continue;
+    const entry = { debt, outstanding: getOutstanding(debt, payments.filter((p) => p.debtUuid === debt.uuid)) };
+    byExpense.set(debt.expenseId, [...(byExpense.get(debt.expenseId) ?? []), entry]);
+  }
+  return byExpense;
+}
@@ -0,0 +1,397 @@
+import ExcelJS from 'exceljs';
+import { format, isValid, parse } from 'date-fns';
+import db from './db';
+import { addMissingAccounts } from './accounts';
+import { Expense } from '@shared/schema';
+
+// ============================================================================
+// Bank and UPI statement import.
+//
+// A statement is read into a grid of strings, then a mapping says which
+// columns hold the date, amount (or separate debit/credit), description and
+// account. Mappings refer to columns by header text so they can be saved as
+// presets and reused on next month's file even if the bank adds a few rows of
+// preamble. Only debits become expenses. Each imported row gets an id derived
+// from its account, date, amount and description, so importing the same
+// statement twice adds nothing new.
+// ============================================================================
+
+export type StatementGrid = string[][];
+
+export const DATE_FORMATS = [
+  'auto',
+  'd/M/yyyy',
+  'd/M/yy',
+  'd-M-yyyy',
+  'd-M-yy',
+  'd MMM yyyy',
+  'd-MMM-yyyy',
+  'd-MMM-yy',
+  'M/d/yyyy',
+  'yyyy-MM-dd',
+] as const;
+
+export type DateFormat = typeof DATE_FORMATS[number];
+
+export interface StatementMapping {
+  date: string;
+  description: string;
+  amountMode: 'single' | 'split';
+  amount?: string;        // 'single': one signed column
+  debitIsNegative?: boolean; // 'single': whether spending shows as negative numbers
+  debit?: string;         // 'split': money out
+  credit?: string;        // 'split': money in
+  account?: string;       // Column with the account; falls back to defaultAccount
+  defaultAccount: string;
+  dateFormat: DateFormat;
+}
+
+// A saved mapping. Built-in presets ship with the app, the rest live in db.importPresets.
+export interface ImportPreset {
+  id: string;
+  name: string;
+  mapping: StatementMapping;
+  builtIn?: boolean;
+  updatedAt: string;
+}
+
+export const BUILT_IN_PRESETS: ImportPreset[] = [
+  {
+    id: 'builtin:icici',
+    name: 'ICICI Bank',
+    builtIn: true,
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    mapping: {
+      date: 'Transaction Date',
+      description: 'Transaction Remarks',
+      amountMode: 'split',
+      debit: 'Withdrawal Amount (INR )',
+      credit: 'Deposit Amount (INR )',
+      defaultAccount: 'ICICI',
+      dateFormat: 'd/M/yyyy',
+    },
+  },
+  {
+    id: 'builtin:sbi',
+    name: 'SBI',
+    builtIn: true,
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    mapping: {
+      date: 'Txn Date',
+      description: 'Description',
+      amountMode: 'split',
+      debit: 'Debit',
+      credit: 'Credit',
+      defaultAccount: 'SBI',
+      dateFormat: 'd MMM yyyy',
+    },
+  },
+  {
+    id: 'builtin:hdfc',
+    name: 'HDFC Bank',
+    builtIn: true,
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    mapping: {
+      date: 'Date',
+      description: 'Narration',
+      amountMode: 'split',
+      debit: 'Withdrawal Amt.',
+      credit: 'Deposit Amt.',
+      defaultAccount: 'HDFC',
+      dateFormat: 'd/M/yy',
+    },
+  },
+];
+
+// --- Reading files ---
+
+/** Splits CSV text into rows, honouring quoted fields. The delimiter is guessed from the first line. */
+export function parseCsv(text: string): StatementGrid {
+  const clean = text.replace(/^\uFEFF/, '');
+  const firstLine = clean.split(/\r?\n/, 1)[0] || '';
+  const delimiter = [',', ';', '\t'].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best, ',');
+
+  const rows: StatementGrid = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < clean.length; i++) {
+    const ch = clean[i];
+    if (quoted) {
+      if (ch === '"' && clean[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(cell.trim()); cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && clean[i + 1] === '\n') i++;
+      row.push(cell.trim()); cell = '';
+      rows.push(row); row = [];
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell || row.length) { row.push(cell.trim()); rows.push(row); }
+
+  return rows.filter((r) => r.some((c) => c !== ''));
+}
+
+function cellToString(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return '';
+  // Excel stores dates as UTC midnight
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value === 'object') {
+    if ('result' in value) return cellToString(value.result as ExcelJS.CellValue);
+    if ('richText' in value) return value.richText.map((t) => t.text).join('');
+    if ('text' in value) return String(value.text);
+    return '';
+  }
+  return String(value).trim();
+}
+
+async function parseXlsx(buffer: ArrayBuffer): Promise<StatementGrid> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer);
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: StatementGrid = [];
+  sheet.eachRow({ includeEmpty: false }, (row) => {
+    const cells: string[] = [];
+    row.eachCell({ includeEmpty: true }, (cell, col) => { cells[col - 1] = cellToString(cell.value); });
+    rows.push(Array.from(cells, (c) => c ?? ''));
+  });
+  return rows.filter((r) => r.some((c) => c !== ''));
+}
+
+export async function readStatementFile(file: File): Promise<StatementGrid> {
+  if (/\.xlsx$/i.test(file.name)) return parseXlsx(await file.arrayBuffer());
+  return parseCsv(await file.text());
+}
+
+// --- Mapping ---
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+function hasHeaders(row: string[], mapping: Pick<StatementMapping, 'date' | 'description'>) {
+  const cells = row.map(normalize);
+  return [mapping.date, mapping.description].every((name) => cells.includes(normalize(name)));
+}
+
+/**
+ * Index of the header row: the first row containing every column the mapping
+ * names, or, without a mapping, the first row that looks like a header (mostly
+ * filled, no numbers).
+ */
+export function findHeaderRow(grid: StatementGrid, mapping?: Pick<StatementMapping, 'date' | 'description'>) {
+  if (mapping) {
+    const index = grid.findIndex((row) => hasHeaders(row, mapping));
+    if (index >= 0) return index;
+  }
+  const width = Math.max(...grid.slice(0, 30).map((r) => r.length), 0);
+  const index = grid.findIndex((row) =>
+    row.filter((c) => c && isNaN(Number(c.replace(/,/g, '')))).length >= Math.min(3, width));
+  return Math.max(0, index);
+}
+
+/** The first preset whose date and description headers appear in the file. */
+export function matchPreset(grid: StatementGrid, presets: ImportPreset[]) {
+  return presets.find((preset) => grid.slice(0, 40).some((row) => hasHeaders(row, preset.mapping)));
+}
+
+const columnIndex = (headers: string[], name?: string) =>
+  name ? headers.map(normalize).indexOf(normalize(name)) : -1;
+
+/** Rewrites a preset's column names to the exact header text found in this file. */
+export function alignMapping(headers: string[], mapping: StatementMapping): StatementMapping {
+  const align = (name?: string) => {
+    const index = columnIndex(headers, name);
+    return index >= 0 ? headers[index] : name;
+  };
+  return {
+    ...mapping,
+    date: align(mapping.date) || '',
+    description: align(mapping.description) || '',
+    amount: align(mapping.amount),
+    debit: align(mapping.debit),
+    credit: align(mapping.credit),
+    account: align(mapping.account),
+  };
+}
+
+function parseAmount(value: string) {
+  if (!value) return 0;
+  const negative = /^\(.*\)$/.test(value.trim()) || /^-/.test(value.trim()) || /\bdr\.?$/i.test(value.trim());
+  const number = Number(value.replace(/[^0-9.]/g, ''));
+  if (!isFinite(number)) return 0;
+  return negative ? -number : number;
+}
+
+const AUTO_FORMATS = DATE_FORMATS.filter((f) => f !== 'auto');
+
+/** Returns yyyy-MM-dd and HH:mm, or null when the value is not a date. */
+export function parseStatementDate(value: string, dateFormat: DateFormat) {
+  const [datePart, timePart] = value.trim().split(/[\sT]+(?=\d{1,2}:\d{2})/);
+  // Spreadsheet cells arrive as ISO dates whatever the bank's text format is
+  const formats = dateFormat === 'auto' || /^\d{4}-\d{2}-\d{2}$/.test(datePart.trim())
+    ? AUTO_FORMATS
+    : [dateFormat];
+
+  for (const fmt of formats) {
+    const date = parse(datePart.trim(), fmt, new Date());
+    if (isValid(date) && date.getFullYear() > 1970) {
+      const time = timePart?.match(/^(\d{1,2}):(\d{2})/);
+      return {
+        date: format(date, 'yyyy-MM-dd'),
+        time: time ? `${time[1].padStart(2, '0')}:${time[2]}` : '00:00',
+      };
+    }
+  }
+  return null;
+}
+
+// A short, stable fingerprint (FNV-1a) used to build import ids
+function fingerprint(value: string) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+export interface StatementRow {
+  line: number; // 1-based, counting only the non-empty rows of the file
+  id: string;
+  date: string;
+  time: string;
+  amount: number;
+  description: string;
+  account: string;
+  // Why the row cannot be imported, if it cannot
+  skipReason?: 'credit' | 'invalid';
+  // An existing expense that looks like the same transaction
+  duplicateOf?: string;
+}
+
+/** Applies a mapping to every row under the header. */
+export function mapStatementRows(grid: StatementGrid, headerRow: number, mapping: StatementMapping): StatementRow[] {
+  const headers = grid[headerRow] || [];
+  const col = {
+    date: columnIndex(headers, mapping.date),
+    description: columnIndex(headers, mapping.description),
+    amount: columnIndex(headers, mapping.amount),
+    debit: columnIndex(headers, mapping.debit),
+    credit: columnIndex(headers, mapping.credit),
+    account: columnIndex(headers, mapping.account),
+  };
+
+  // Identical rows (two coffees on the same day) are told apart by their order
+  const seen = new Map<string, number>();
+
+  return grid.slice(headerRow + 1).map((cells, i) => {
+    const line = headerRow + i + 2;
+    const parsedDate = parseStatementDate(cells[col.date] || '', mapping.dateFormat);
+    const description = (cells[col.description] || '').replace(/\s+/g, ' ').trim();
+    const account = (col.account >= 0 && cells[col.account]) || mapping.defaultAccount;
+
+    let spent: number;
+    if (mapping.amountMode === 'split') {
+      spent = Math.abs(parseAmount(cells[col.debit] || '')) - Math.abs(parseAmount(cells[col.credit] || ''));
+    } else {
+      const amount = parseAmount(cells[col.amount] || '');
+      spent = mapping.debitIsNegative === false ? amount : -amount;
+    }
+
+    const row: StatementRow = {
+      line,
+      id: '',
+      date: parsedDate?.date || '',
+      time: parsedDate?.time || '00:00',
+      amount: Math.round(Math.abs(spent) * 100) / 100,
+      description,
+      account,
+    };
+    if (!parsedDate || spent === 0) row.skipReason = 'invalid';
+    else if (spent < 0) row.skipReason = 'credit';
+
+    const key = fingerprint([account, row.date, row.time, row.amount, description].join('|'));
+    const count = seen.get(key) || 0;
+    seen.set(key, count + 1);
+    row.id = count ? `stmt:${key}:${count}` : `stmt:${key}`;
+    return row;
+  }).filter((row) => row.description || row.date);
+}
+
+/**
+ * Flags rows that were imported before (same id) or that match an expense
+ * already logged by hand on the same day for the same amount.
+ */
+export async function markDuplicates(rows: StatementRow[]) {
+  const candidates = rows.filter((row) => !row.skipReason);
+  const existing = await db.expenses.bulkGet(candidates.map((row) => row.id));
+  const dates = Array.from(new Set(candidates.map((row) => row.date)));
+  const sameDay = await db.expenses.where('date').anyOf(dates).filter((e) => !e.isTemplate).toArray();
+
+  candidates.forEach((row, i) => {
+    if (existing[i]) {
+      row.duplicateOf = row.id;
+      return;
+    }
+    const match = sameDay.find((e) => e.date.slice(0, 10) === row.date && Math.abs(e.amount - row.amount) < 0.01);
+    if (match) row.duplicateOf = match.id;
+  });
+  return rows;
+}
+
+export interface ImportOptions {
+  category: string;
+  paymentMethod: string;
+}
+
+/** Writes the chosen rows as expenses and returns how many were added. */
+export async function importStatementRows(rows: StatementRow[], options: ImportOptions) {
+  const now = new Date().toISOString();
+  const expenses: Expense[] = rows.map((row) => ({
+    id: row.id,
+    amount: row.amount,
+    date: row.date,
+    time: row.time,
+    category: options.category,
+    items: row.description.slice(0, 120),
+    where: '',
+    note: 'Imported from statement',
+    paymentMethod: /\bupi\b/i.test(row.description) ? 'UPI' : options.paymentMethod,
+    account: row.account,
+    isRecurring: false,
+    isTemplate: false,
+    createdAt: now,
+    updatedAt: now,
+  }));
+
+  // bulkPut so a row re-imported on purpose (the same id) overwrites itself
+  await db.expenses.bulkPut(expenses);
+  await addMissingAccounts();
+  return expenses.length;
+}
+
+// --- Presets ---
+
+export async function getPresets(): Promise<ImportPreset[]> {
+  const saved = await db.importPresets.orderBy('name').toArray();
+  return [...BUILT_IN_PRESETS, ...saved];
+}
+
+export async function savePreset(name: string, mapping: StatementMapping, id?: string) {
+  const preset: ImportPreset = { id: id || crypto.randomUUID(), name, mapping, updatedAt: new Date().toISOString() };
+  await db.importPresets.put(preset);
+  return preset;
+}
+
+export async function deletePreset(id: string) {
+  await db.importPresets.delete(id);
+}
@@ -0,0 +1,275 @@
+import Dexie, { Table, Transaction } from 'dexie';
+import db from './db';
+import { apiRequest } from './queryClient';
+import { reconcileDebts } from './debt-repository';
+import { alignRatesToBase } from './currency';
+import { SYNC_TABLES, SyncTable, SyncDeletion, SyncPushResult } from '@shared/schema';
+
+// ============================================================================
+// Offline-first sync between Dexie and the server.
+//
+// Every local write stamps `updatedAt` (see registerHooks). When the device is
+// online and signed in we push everything changed since the last push, then
+// pull everything the server received since the last pull. Both sides keep
+// whichever copy of a record has the newest `updatedAt`. Dues & receivables go
+// through their own API and are reconciled by lib/debt-repository.ts.
+// ============================================================================
+
+export type SyncStatus = 'idle' | 'syncing' | 'synced' | 'offline' | 'signed-out' | 'error';
+
+export interface SyncSnapshot {
+  status: SyncStatus;
+  lastSyncedAt?: string;
+  error?: string;
+}
+
+const PUSH_BATCH_SIZE = 200;
+const SYNC_DEBOUNCE_MS = 3000;
+
+const tables: Record<SyncTable, Table<any, string>> = {
+  expenses: db.expenses,
+  categories: db.categories,
+  budgets: db.budgets,
+  settings: db.settings,
+  accounts: db.accounts,
+};
+
+// --- Status store (read through useSyncStatus) ---
+let snapshot: SyncSnapshot = { status: 'idle' };
+const listeners = new Set<() => void>();
+
+function setSnapshot(next: Partial<SyncSnapshot>) {
+  snapshot = { ...snapshot, ...next };
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeSync(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getSyncSnapshot() {
+  return snapshot;
+}
+
+// --- Helpers ---
+const toMillis = (value: unknown) =>
+  value ? new Date(value as string | Date).getTime() || 0 : 0;
+
+// Categories keep Date objects locally, everything else ISO strings
+const stampFor = (table: SyncTable) =>
+  table === 'categories' ? new Date() : new Date().toISOString();
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+// Fields that never leave the device and survive a pull
+const DEVICE_ONLY_FIELDS: Partial<Record<SyncTable, string[]>> = {
+  expenses: ['attachments'],
+  budgets: ['createdAt'], // The server has no column for it
+};
+
+// Server rows carry bookkeeping columns and nulls the local forms don't expect;
+// a null is a field cleared elsewhere and becomes an absent key
+function fromServer(table: SyncTable, row: Record<string, unknown>) {
+  const { userId, syncedAt, ...rest } = row;
+  const record: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(rest)) {
+    if (value !== null) record[key] = value;
+  }
+  if (table === 'categories') {
+    record.userId = 'local';
+    record.updatedAt = new Date(record.updatedAt as string);
+  }
+  return record;
+}
+
+// --- Change tracking ---
+// Transactions opened by the sync engine itself must not be tracked as local edits
+const remoteTransactions = new WeakSet<Transaction>();
+let hooksRegistered = false;
+
+function registerHooks() {
+  if (hooksRegistered) return;
+  hooksRegistered = true;
+
+  for (const name of SYNC_TABLES) {
+    const table = tables[name];
+
+    table.hook('creating', (_key, obj, tx) => {
+      if (remoteTransactions.has(tx)) return;
+      if (!obj.updatedAt) obj.updatedAt = stampFor(name);
+      scheduleSync();
+    });
+
+    table.hook('updating', (mods, _key, _obj, tx) => {
+      if (remoteTransactions.has(tx)) return;
+      scheduleSync();
+      if (!('updatedAt' in mods)) return { updatedAt: stampFor(name) };
+    });
+
+    table.hook('deleting', (key, _obj, tx) => {
+      if (remoteTransactions.has(tx)) return;
+      const deletedAt = new Date().toISOString();
+      tx.on('complete', () => {
+        db.pendingDeletions
+          .put({ id: `${name}:${key}`, table: name, recordId: String(key), deletedAt })
+          .then(scheduleSync);
+      });
+    });
+  }
+}
+
+// --- Push / Pull ---
+async function pushChanges(since: number) {
+  for (const name of SYNC_TABLES) {
+    const changed = await tables[name]
+      .filter((record) => toMillis(record.updatedAt) > since)
+      .toArray();
+
+    // Attachments stay on the device
+    const records = changed.map(({ attachments, ...record }) => record);
+
+    for (const batch of chunk(records, PUSH_BATCH_SIZE)) {
+      const res = await apiRequest('POST', '/api/sync', { [name]: batch });
+      const result: SyncPushResult = await res.json();
+      if (result.rejected.length > 0) {
+        console.warn(`Sync rejected ${result.rejected.length} ${name} record(s):`, result.rejected);
+      }
+    }
+  }
+
+  const deletions = await db.pendingDeletions
+    .filter((d) => (SYNC_TABLES as readonly string[]).includes(d.table))
+    .toArray();
+  for (const batch of chunk(deletions, PUSH_BATCH_SIZE)) {
+    await apiRequest('POST', '/api/sync', {
+      deletions: batch.map((d) => ({ table: d.table, id: d.recordId, deletedAt: d.deletedAt })),
+    });
+    await db.pendingDeletions.bulkDelete(batch.map((d) => d.id));
+  }
+}
+
+async function pullChanges(since?: string): Promise<string> {
+  const query = since ? `?since=${encodeURIComponent(since)}` : '';
+  const res = await apiRequest('GET', `/api/sync${query}`);
+  const changes = await res.json();
+
+  await db.transaction('rw', [db.expenses, db.categories, db.budgets, db.settings, db.accounts], async () => {
+    remoteTransactions.add(Dexie.currentTransaction);
+
+    for (const name of SYNC_TABLES) {
+      for (const row of changes[name] as Record<string, unknown>[]) {
+        const remote = fromServer(name, row);
+        const local = await tables[name].get(remote.id as string);
+        if (!local || toMillis(remote.updatedAt) > toMillis(local.updatedAt)) {
+          // The server copy replaces the synced fields outright, so fields
+          // cleared elsewhere are cleared here too
+          const record = { ...remote };
+          for (const field of DEVICE_ONLY_FIELDS[name] ?? []) {
+            if (local?.[field] !== undefined) record[field] = local[field];
+          }
+          await tables[name].put(record);
+        }
+      }
+    }
+
+    for (const deletion of changes.deletions as SyncDeletion[]) {
+      const local = await tables[deletion.table].get(deletion.id);
+      if (local && toMillis(local.updatedAt) <= toMillis(deletion.deletedAt)) {
+        await tables[deletion.table].delete(deletion.id);
+      }
+    }
+  });
+
+  return changes.serverTime;
+}
+
+// --- Engine ---
+let started = false;
+let running = false;
+let rerunRequested = false;
+let debounceTimer: ReturnType<typeof setTimeout> | undefined;
+
+export function scheduleSync() {
+  if (!started) return;
+  clearTimeout(debounceTimer);
+  debounceTimer = setTimeout(() => { syncNow(); }, SYNC_DEBOUNCE_MS);
+}
+
+export async function syncNow() {
+  if (running) {
+    rerunRequested = true;
+    return;
+  }
+  if (!navigator.onLine) {
+    setSnapshot({ status: 'offline' });
+    return;
+  }
+
+  running = true;
+  setSnapshot({ status: 'syncing' });
+
+  try {
+    const me = await fetch('/api/current-user', { credentials: 'include' });
+    // Static deployments answer with the app shell instead of JSON
+    const isApi = me.headers.get('content-type')?.includes('application/json');
+    if (me.status === 401 || !isApi) {
+      setSnapshot({ status: 'signed-out', error: undefined });
+      return;
+    }
+    if (!me.ok) throw new Error(`${me.status}: ${me.statusText}`);
+
+    const startedAt = Date.now();
+    const state = (await db.syncState.get('default')) ?? { id: 'default', lastPushedAt: 0 };
+
+    await pushChanges(state.lastPushedAt);
+    const lastPulledAt = await pullChanges(state.lastPulledAt);
+    // The pull may have brought a base currency changed on another device
+    await alignRatesToBase();
+    await reconcileDebts();
+
+    await db.syncState.put({ id: 'default', lastPushedAt: startedAt, lastPulledAt });
+    setSnapshot({ status: 'synced', lastSyncedAt: new Date().toISOString(), error: undefined });
+  } catch (error: any) {
+    console.error('Sync failed:', error);
+    setSnapshot({
+      status: navigator.onLine ? 'error' : 'offline',
+      error: error?.message ?? String(error),
+    });
+  } finally {
+    running = false;
+    if (rerunRequested) {
+      rerunRequested = false;
+      scheduleSync();
+    }
+  }
+}
+
+/**
+ * Starts tracking local changes and syncing on launch, on reconnect and shortly
+ * after local edits. Returns a cleanup function for the event listeners.
+ */
+export function startSync() {
+  registerHooks();
+  started = true;
+
+  const handleOnline = () => { syncNow(); };
+  const handleOffline = () => setSnapshot({ status: 'offline' });
+
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+  syncNow();
+
+  return () => {
+    started = false;
+    clearTimeout(debounceTimer);
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', handleOffline);
+  };
+}
@@ -0,0 +1,169 @@
+import db, { DebtPayment, DebtRecord, TrashEntry } from './db';
+import { detachDebt } from './debt-repository';
+import { Budget } from '@shared/schema';
+
+// ============================================================================
+// Trash.
+//
+// Deleting an expense, debt or category moves the whole record (and what went
+// with it: attachments, repayments) into db.trash. From there it can be put
+// back with Undo or from the Trash list, until it is purged after the
+// configured number of days. The live tables never see trashed records, so
+// nothing else has to filter them out.
+// ============================================================================
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const expenseLabel = (expense: { items?: string; where?: string }) =>
+  expense.items || expense.where || 'Expense';
+
+/**
+ * Moves an expense, its attachments and the receivables its split raised to
+ * the trash. Returns the trash entry id.
+ */
+export async function trashExpense(id: string): Promise<string | null> {
+  return db.transaction('rw', [db.expenses, db.attachments, db.debts, db.debtPayments, db.pendingDeletions, db.trash], async () => {
+    const expense = await db.expenses.get(id);
+    if (!expense) return null;
+
+    const receivables: TrashEntry['receivables'] = [];
+    for (const debt of await db.debts.where('expenseId').equals(id).toArray()) {
+      receivables.push({ debt, payments: await detachDebt(debt) });
+    }
+
+    const entry: TrashEntry = {
+      id: crypto.randomUUID(),
+      kind: 'expense',
+      label: expenseLabel(expense),
+      deletedAt: new Date().toISOString(),
+      expense,
+      attachments: await db.attachments.where('expenseId').equals(id).toArray(),
+      receivables: receivables.length > 0 ? receivables : undefined,
+    };
+    await db.trash.add(entry);
+    await db.expenses.delete(id);
+    return entry.id;
+  });
+}
+
+const budgetUses = (id: string) => (budget: Budget) =>
+  budget.category === id || !!budget.categories?.includes(id);
+
+/** How many expenses (templates included) and budgets point at a category. */
+export async function countCategoryUsage(id: string) {
+  const [expenses, budgets] = await Promise.all([
+    db.expenses.where('category').equals(id).count(),
+    db.budgets.filter(budgetUses(id)).count(),
+  ]);
+  return expenses + budgets;
+}
+
+/**
+ * Moves a category to the trash. Expenses and budgets using it are moved to
+ * `reassignTo` first, and moved back if the category is restored.
+ */
+export async function trashCategory(id: string, reassignTo?: string): Promise<string | null> {
+  return db.transaction('rw', [db.categories, db.expenses, db.budgets, db.trash], async () => {
+    const category = await db.categories.get(id);
+    if (!category) return null;
+
+    const now = new Date().toISOString();
+    const expenseIds = (await db.expenses.where('category').equals(id).primaryKeys()) as string[];
+    const budgets = await db.budgets.filter(budgetUses(id)).toArray();
+    if ((expenseIds.length > 0 || budgets.length > 0) && !reassignTo) throw new Error('Category is in use');
+
+    if (expenseIds.length > 0) {
+      await db.expenses.where('category').equals(id).modify({ category: reassignTo, updatedAt: now });
+    }
+    for (const budget of budgets) {
+      await db.budgets.update(budget.id, {
+        category: budget.category === id ? reassignTo : budget.category,
+        categories: budget.categories && Array.from(new Set(budget.categories.map((c) => (c === id ? reassignTo! : c)))),
+        updatedAt: now,
+      });
+    }
+
+    const entry: TrashEntry = {
+      id: crypto.randomUUID(),
+      kind: 'category',
+      label: category.name,
+      deletedAt: now,
+      category,
+      reassigned: (expenseIds.length > 0 || budgets.length > 0) && reassignTo
+        ? {
+          to: reassignTo,
+          expenseIds,
+          budgets: budgets.map(({ id, category, categories }) => ({ id, category, categories })),
+        }
+        : undefined,
+    };
+    await db.trash.add(entry);
+    await db.categories.delete(id);
+    return entry.id;
+  });
+}
+
+/** Puts a trashed record back where it was. */
+export async function restoreFromTrash(entryId: string) {
+  await db.transaction('rw', [db.trash, db.expenses, db.attachments, db.categories, db.budgets, db.debts, db.debtPayments, db.pendingDeletions], async () => {
+    const entry = await db.trash.get(entryId);
+    if (!entry) return;
+    const now = new Date().toISOString();
+
+    // A fresh updatedAt makes sync send the record back up as a new change
+    const putBackDebt = async (debt: DebtRecord, payments: DebtPayment[] = []) => {
+      await db.debts.put({ ...debt, updatedAt: now });
+      await db.debtPayments.bulkPut(payments);
+      await db.pendingDeletions.delete(`debts:${debt.uuid}`);
+    };
+
+    if (entry.expense) {
+      await db.expenses.put({ ...entry.expense, updatedAt: now });
+      await db.attachments.bulkPut(entry.attachments ?? []);
+      await db.pendingDeletions.delete(`expenses:${entry.expense.id}`);
+      for (const { debt, payments } of entry.receivables ?? []) await putBackDebt(debt, payments);
+    }
+
+    if (entry.debt) await putBackDebt(entry.debt, entry.payments);
+
+    if (entry.category) {
+      const { id } = entry.category;
+      await db.categories.put({ ...entry.category, updatedAt: new Date(now) });
+      await db.pendingDeletions.delete(`categories:${id}`);
+      if (entry.reassigned) {
+        const { to, expenseIds } = entry.reassigned;
+        // Leave alone anything that was recategorised again since
+        await db.expenses
+          .where('id').anyOf(expenseIds)
+          .filter((expense) => expense.category === to)
+          .modify({ category: id, updatedAt: now });
+        // Budgets are put back as they were unless edited since the delete
+        for (const original of entry.reassigned.budgets ?? []) {
+          const budget = await db.budgets.get(original.id);
+          if (budget?.updatedAt !== entry.deletedAt) continue;
+          await db.budgets.update(original.id, { category: original.category, categories: original.categories, updatedAt: now });
+        }
+      }
+    }
+
+    await db.trash.delete(entryId);
+  });
+}
+
+export function deleteForever(entryId: string) {
+  return db.trash.delete(entryId);
+}
+
+export function emptyTrash() {
+  return db.trash.clear();
+}
+
+/** Drops trash entries older than the configured retention. */
+export async function purgeTrash(now = new Date()) {
+  const settings = await db.settings.get('default');
+  const days = settings?.trashRetentionDays || DEFAULT_TRASH_RETENTION_DAYS;
+  const cutoff = new Date(now.getTime() - days * DAY_MS).toISOString();
+  return db.trash.where('deletedAt').below(cutoff).delete();
+}
@@ -0,0 +1,532 @@
+import { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Card, CardContent } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Plus, Pencil, Trash2, Merge, Landmark, Wallet, CreditCard, Banknote, LucideIcon } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { ACCOUNT_TYPES, Account, AccountType, InsertAccount, accountFormSchema } from '@shared/schema';
+import { ACCOUNT_TYPE_LABELS, AccountBalance, createAccount, deleteAccount, mergeAccounts, updateAccount } from '@/lib/accounts';
+import { CardStatement, recordCardPayment } from '@/lib/card-statements';
+import { useAccountBalances } from '@/hooks/use-accounts';
+import { useSettings } from '@/hooks/use-settings';
+import { useToast } from '@/hooks/use-toast';
+
+// Blank inputs leave optional numbers unset instead of turning them into 0
+const optionalNumber = ({ value, onChange, ...field }: { value?: number; onChange: (value?: number) => void }) => ({
+  ...field,
+  value: value ?? '',
+  onChange: (e: React.ChangeEvent<HTMLInputElement>) => onChange(e.target.value === '' ? undefined : Number(e.target.value)),
+});
+
+const TYPE_ICONS: Record<AccountType, LucideIcon> = {
+  bank: Landmark,
+  wallet: Wallet,
+  credit_card: CreditCard,
+  cash: Banknote,
+};
+
+export function Accounts() {
+  const balances = useAccountBalances();
+  const settings = useSettings();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<Account | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [merging, setMerging] = useState<Account | null>(null);
+  const [paying, setPaying] = useState<{ card: Account; statement: CardStatement } | null>(null);
+
+  const currency = settings?.currency || '₹';
+  const formatAmount = (amount: number) =>
+    `${amount < 0 ? '-' : ''}${currency}${Math.abs(amount).toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+  const assets = balances.reduce((sum, { balance }) => sum + Math.max(balance, 0), 0);
+  const owed = balances.reduce((sum, { balance }) => sum + Math.min(balance, 0), 0);
+
+  const openCreate = () => {
+    setEditing(null);
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (account: Account) => {
+    setEditing(account);
+    setIsFormOpen(true);
+  };
+
+  const handleDelete = async ({ account, transactionCount }: AccountBalance) => {
+    if (transactionCount > 0) return;
+    if (!confirm(`Delete the account "${account.name}"?`)) return;
+    try {
+      await deleteAccount(account.id);
+      toast({ title: "Success", description: "Account deleted." });
+    } catch (error) {
+      console.error('Failed to delete account:', error);
+      toast({ title: "Error", description: "Failed to delete the account. Templates may still use it; merge it instead.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="p-4 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Accounts</h1>
+          <p className="text-gray-500 dark:text-gray-400">
+            Balances across your banks, wallets and cards
+          </p>
+        </div>
+        <Button className="bg-primary hover:bg-primary/90" onClick={openCreate}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Account
+        </Button>
+      </div>
+
+      <Card className="bg-white dark:bg-gray-800 shadow-sm">
+        <CardContent className="p-4 grid grid-cols-3 gap-3 text-center">
+          <div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">Assets</p>
+            <p className="text-lg font-bold text-green-600 dark:text-green-400">{formatAmount(assets)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">Owed</p>
+            <p className="text-lg font-bold text-red-600 dark:text-red-400">{formatAmount(Math.abs(owed))}</p>
+          </div>
+          <div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">Net Worth</p>
+            <p className={`text-lg font-bold ${assets + owed < 0 ? 'text-red-600 dark:text-red-400' : 'text-blue-600 dark:text-blue-400'}`}>
+              {formatAmount(assets + owed)}
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+
+      {ACCOUNT_TYPES.map((type) => {
+        const group = balances.filter(({ account }) => account.type === type);
+        if (group.length === 0) return null;
+        const Icon = TYPE_ICONS[type];
+
+        return (
+          <div key={type} className="space-y-2">
+            <h3 className="text-sm font-medium text-muted-foreground">{ACCOUNT_TYPE_LABELS[type]}</h3>
+            {group.map((entry) => (
+              <Card key={entry.account.id} className="bg-white dark:bg-gray-800 shadow-sm">
+                <CardContent className="p-3 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <div className="p-2.5 rounded-full shrink-0 bg-primary/10 text-primary">
+                        <Icon className="w-4 h-4" />
+                      </div>
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{entry.account.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {entry.transactionCount} {entry.transactionCount === 1 ? 'transaction' : 'transactions'}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <p className={`font-semibold mr-2 ${entry.balance < 0 ? 'text-red-600 dark:text-red-400' : ''}`}>
+                        {formatAmount(entry.balance)}
+                      </p>
+                      <Button variant="ghost" size="icon" className="h-8 w-8 text-blue-500" onClick={() => openEdit(entry.account)} title="Edit">
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => setMerging(entry.account)}
+                        disabled={balances.length < 2}
+                        title="Merge into another account"
+                      >
+                        <Merge className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-red-500"
+                        onClick={() => handleDelete(entry)}
+                        disabled={entry.transactionCount > 0}
+                        title={entry.transactionCount > 0 ? 'In use; merge it into another account instead' : 'Delete'}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  {entry.statement && (
+                    <CardCycle
+                      statement={entry.statement}
+                      creditLimit={entry.account.creditLimit}
+                      formatAmount={formatAmount}
+                      onPay={() => setPaying({ card: entry.account, statement: entry.statement! })}
+                    />
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        );
+      })}
+
+      <AccountFormDialog open={isFormOpen} onOpenChange={setIsFormOpen} account={editing} />
+      <PayCardDialog
+        payment={paying}
+        accounts={balances.map(({ account }) => account)}
+        onClose={() => setPaying(null)}
+      />
+      <MergeAccountDialog
+        source={merging}
+        accounts={balances.map(({ account }) => account)}
+        onClose={() => setMerging(null)}
+      />
+    </div>
+  );
+}
+
+function CardCycle({ statement, creditLimit, formatAmount, onPay }: {
+  statement: CardStatement;
+  creditLimit?: number;
+  formatAmount: (amount: number) => string;
+  onPay: () => void;
+}) {
+  const overdue = statement.daysUntilDue < 0 && statement.dueAmount > 0;
+  const utilization = statement.utilization === null ? null : Math.round(statement.utilization * 100);
+
+  return (
+    <div className="space-y-2 border-t pt-3 dark:border-gray-700 text-sm">
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <p className="text-xs text-muted-foreground">Statement of {format(parseISO(statement.statementDate), 'MMM d')}</p>
+          <p className="font-medium">{formatAmount(statement.statementAmount)}</p>
+          <p className={`text-xs ${overdue ? 'text-red-500 font-medium' : 'text-muted-foreground'}`}>
+            {statement.dueAmount > 0
+              ? `${formatAmount(statement.dueAmount)} ${overdue ? 'overdue since' : 'due'} ${format(parseISO(statement.dueDate), 'MMM d')}`
+              : 'Paid'}
+          </p>
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">Unbilled</p>
+          <p className="font-medium">{formatAmount(statement.unbilled)}</p>
+        </div>
+      </div>
+
+      {utilization !== null && creditLimit && (
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>{utilization}% of {formatAmount(creditLimit)} limit used</span>
+            <span>{formatAmount(Math.max(0, creditLimit - Math.max(0, statement.outstanding)))} available</span>
+          </div>
+          <Progress
+            value={Math.min(100, utilization)}
+            className="h-2"
+            style={{
+              '--progress-background': utilization >= 90 ? '#ef4444' : utilization > 30 ? '#f59e0b' : '#22c55e'
+            } as React.CSSProperties}
+          />
+        </div>
+      )}
+
+      {statement.outstanding > 0 && (
+        <Button variant="outline" size="sm" className="w-full" onClick={onPay}>
+          Pay Card
+        </Button>
+      )}
+    </div>
+  );
+}
+
+function PayCardDialog({ payment, accounts, onClose }: {
+  payment: { card: Account; statement: CardStatement } | null;
+  accounts: Account[];
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const [amount, setAmount] = useState('');
+  const [fromAccount, setFromAccount] = useState('');
+  const [date, setDate] = useState('');
+  const sources = accounts.filter((account) => account.type !== 'credit_card');
+
+  useEffect(() => {
+    if (!payment) return;
+    const { dueAmount, outstanding } = payment.statement;
+    setAmount(String(Math.round((dueAmount || outstanding) * 100) / 100));
+    setFromAccount(sources.find((account) => account.type === 'bank')?.name ?? sources[0]?.name ?? '');
+    setDate(format(new Date(), 'yyyy-MM-dd'));
+  }, [payment]);
+
+  const handlePay = async () => {
+    const value = parseFloat(amount);
+    if (!payment || !fromAccount || !(value > 0)) return;
+    try {
+      await recordCardPayment(payment.card, fromAccount, value, date);
+      toast({ title: "Success", description: `Payment to ${payment.card.name} recorded.` });
+      onClose();
+    } catch (error) {
+      console.error('Failed to record card payment:', error);
+      toast({ title: "Error", description: "Failed to record the payment.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={!!payment} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Pay {payment?.card.name}</DialogTitle>
+          <DialogDescription>
+            Recorded as a transfer from the account you pay with, so it does not count as spending.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="card-payment-amount">Amount</Label>
+            <Input id="card-payment-amount" type="number" step="0.01" min="0" value={amount} onChange={(e) => setAmount(e.target.value)} />
+          </div>
+          <div className="space-y-1.5">
+            <Label>Pay From</Label>
+            <Select value={fromAccount} onValueChange={setFromAccount}>
+              <SelectTrigger><SelectValue placeholder="Select an account" /></SelectTrigger>
+              <SelectContent>
+                {sources.map((account) => (
+                  <SelectItem key={account.id} value={account.name}>{account.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="card-payment-date">Date</Label>
+            <Input id="card-payment-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handlePay} disabled={!fromAccount || !(parseFloat(amount) > 0) || !date}>Record Payment</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function AccountFormDialog({ open, onOpenChange, account }: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  account: Account | null;
+}) {
+  const { toast } = useToast();
+  const form = useForm<InsertAccount>({
+    resolver: zodResolver(accountFormSchema),
+    defaultValues: { name: '', type: 'bank', openingBalance: 0 },
+  });
+  const isCard = form.watch('type') === 'credit_card';
+
+  useEffect(() => {
+    if (!open) return;
+    form.reset(account
+      ? {
+          name: account.name,
+          type: account.type,
+          openingBalance: account.openingBalance,
+          statementDay: account.statementDay,
+          dueDay: account.dueDay,
+          creditLimit: account.creditLimit,
+        }
+      : { name: '', type: 'bank', openingBalance: 0 });
+  }, [open, account, form]);
+
+  const onSubmit = async (values: InsertAccount) => {
+    try {
+      if (account) {
+        await updateAccount(account.id, values);
+      } else {
+        await createAccount(values);
+      }
+      toast({ title: "Success", description: account ? "Account updated." : "Account added." });
+      onOpenChange(false);
+    } catch (error: any) {
+      console.error('Failed to save account:', error);
+      toast({ title: "Error", description: error?.message || "Failed to save the account.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{account ? 'Edit Account' : 'Add Account'}</DialogTitle>
+          {account && (
+            <DialogDescription>Renaming updates every transaction, template and budget that uses it.</DialogDescription>
+          )}
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., HDFC Savings" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Type</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {ACCOUNT_TYPES.map((type) => (
+                        <SelectItem key={type} value={type}>{ACCOUNT_TYPE_LABELS[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="openingBalance"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Opening Balance</FormLabel>
+                  <FormControl>
+                    <Input type="number" step="0.01" {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    What the account held before your first transaction here. Enter card dues as a negative amount.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {isCard && (
+              <>
+                <FormField
+                  control={form.control}
+                  name="creditLimit"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Credit Limit</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.01" min="0" placeholder="Optional" {...optionalNumber(field)} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="statementDay"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Statement Day</FormLabel>
+                        <FormControl>
+                          <Input type="number" min="1" max="31" placeholder="e.g. 10" {...optionalNumber(field)} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="dueDay"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Due Day</FormLabel>
+                        <FormControl>
+                          <Input type="number" min="1" max="31" placeholder="e.g. 28" {...optionalNumber(field)} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground -mt-2">
+                  Days of the month the bill is generated and due. Charges are expenses with this card as their account.
+                </p>
+              </>
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {account ? 'Save Changes' : 'Add Account'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function MergeAccountDialog({ source, accounts, onClose }: {
+  source: Account | null;
+  accounts: Account[];
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const [targetId, setTargetId] = useState('');
+  const targets = accounts.filter((account) => account.id !== source?.id);
+
+  useEffect(() => setTargetId(''), [source]);
+
+  const handleMerge = async () => {
+    if (!source || !targetId) return;
+    try {
+      await mergeAccounts(source.id, targetId);
+      toast({ title: "Success", description: `${source.name} was merged.` });
+      onClose();
+    } catch (error) {
+      console.error('Failed to merge accounts:', error);
+      toast({ title: "Error", description: "Failed to merge the accounts.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={!!source} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Merge {source?.name}</DialogTitle>
+          <DialogDescription>
+            Its transactions move to the account you pick, the opening balances are added together and {source?.name} is removed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Select value={targetId} onValueChange={setTargetId}>
+          <SelectTrigger><SelectValue placeholder="Merge into..." /></SelectTrigger>
+          <SelectContent>
+            {targets.map((account) => (
+              <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleMerge} disabled={!targetId}>Merge</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -6,43 +6,115 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Progress } from '@/components/ui/progress';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
-import { Plus, PiggyBank } from 'lucide-react';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Switch } from '@/components/ui/switch';
+import { Plus, PiggyBank, Pencil, Trash2, Pause, Play, ChevronDown, ChevronUp, List, Mail, Repeat } from 'lucide-react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { useBudgets, useBudgetProgress, useAddBudget } from '@/hooks/use-budgets';
+import {
+  useBudgets, useBudgetProgress, useBudgetHistory, useAddBudget, useUpdateBudget, useToggleBudget, useDeleteBudget,
+} from '@/hooks/use-budgets';
+import { BUDGET_PERIODS, type Budget as BudgetRecord } from '@shared/schema';
+import { PERIOD_LABELS } from '@/lib/budget-periods';
+import { BudgetEnvelopes } from '@/components/budget-envelopes';
+import { budgetCategoryIds, describeBudgetScope } from '@/lib/budget-scope';
 import { useLiveQuery } from 'dexie-react-hooks';
 import db from '@/lib/db';
+import { categoryType } from '@/lib/categories';
+import { TRANSFER_METHOD } from '@/lib/accounts';
+import { useAccounts } from '@/hooks/use-accounts';
 import { useSettings } from '@/hooks/use-settings';
-import { format } from 'date-fns';
+import { format, parseISO } from 'date-fns';
 
 export function Budget() {
   const [isCreateOpen, setIsCreateOpen] = useState(false);
-  const budgets = useBudgets();
-  const categories = useLiveQuery(() => db.categories.toArray()) || [];
+  const [editingBudget, setEditingBudget] = useState<BudgetRecord | null>(null);
+  const [view, setView] = useState<'budgets' | 'envelopes'>('budgets');
+  const budgets = useBudgets(true);
+  // Budgets cap spending, so income categories are left out
+  const categories = useLiveQuery(() => db.categories.filter((category) => categoryType(category) === 'expense').toArray()) || [];
   const settings = useSettings();
   const addBudgetMutation = useAddBudget();
+  const updateBudgetMutation = useUpdateBudget();
+  const isSaving = addBudgetMutation.isPending || updateBudgetMutation.isPending;
   
   const currency = settings?.currency || '₹';
 
+  const emptyBudget = {
+    name: '',
+    amount: 0,
+    scope: 'category' as BudgetRecord['scope'],
+    category: '',
+    categories: [] as string[],
+    accounts: [] as string[],
+    paymentMethods: [] as string[],
+    period: 'monthly' as BudgetRecord['period'],
+    cycleDays: undefined as number | undefined,
+    startDate: format(new Date(), 'yyyy-MM-dd'),
+    isActive: true,
+    rollover: false,
+  };
+
   const form = useForm({
-    defaultValues: {
-      name: '',
-      amount: 0,
-      category: '',
-      period: 'monthly' as const,
-      startDate: format(new Date(), 'yyyy-MM-dd'),
-      isActive: true,
-    },
+    defaultValues: emptyBudget,
   });
+  const scope = form.watch('scope');
+
+  // Payment methods seen on expenses, plus the usual ones
+  const accountOptions = useAccounts().map(account => account.name);
+  const paymentMethodOptions = useLiveQuery(async () => Array.from(new Set([
+    'UPI', 'Cash', 'Card',
+    ...(await db.expenses.orderBy('paymentMethod').uniqueKeys()).map(String),
+  ])).filter(method => method && method !== TRANSFER_METHOD)) || [];
+
+  const handleOpenChange = (open: boolean) => {
+    setIsCreateOpen(open);
+    if (!open) {
+      setEditingBudget(null);
+      form.reset(emptyBudget);
+    }
+  };
+
+  const openEdit = (budget: BudgetRecord) => {
+    setEditingBudget(budget);
+    form.reset({
+      name: budget.name,
+      amount: budget.amount,
+      scope: budget.scope || 'category',
+      category: budget.category,
+      categories: budget.categories || [],
+      accounts: budget.accounts || [],
+      paymentMethods: budget.paymentMethods || [],
+      period: budget.period,
+      cycleDays: budget.cycleDays,
+      startDate: budget.startDate,
+      isActive: budget.isActive,
+      rollover: budget.rollover ?? false,
+    });
+    setIsCreateOpen(true);
+  };
 
   const onSubmit = async (data: any) => {
+    if (data.scope === 'category' && !data.category) {
+      form.setError('category', { message: 'Category is required' });
+      return;
+    }
+    if (data.scope === 'categories' && !data.categories?.length) {
+      form.setError('categories', { message: 'Pick at least one category' });
+      return;
+    }
+    if (data.scope !== 'category') data.category = '';
+    if (data.scope !== 'categories') data.categories = [];
+
     try {
-      await addBudgetMutation.mutateAsync(data);
-      form.reset();
-      setIsCreateOpen(false);
+      if (editingBudget) {
+        await updateBudgetMutation.mutateAsync({ ...editingBudget, ...data });
+      } else {
+        await addBudgetMutation.mutateAsync(data);
+      }
+      handleOpenChange(false);
     } catch (error) {
-      console.error('Failed to create budget:', error);
+      console.error('Failed to save budget:', error);
     }
   };
 
@@ -61,16 +133,16 @@ export function Budget() {
           </p>
         </div>
         
-        <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <Dialog open={isCreateOpen} onOpenChange={handleOpenChange}>
           <DialogTrigger asChild>
             <Button className="bg-primary hover:bg-primary/90">
               <Plus className="w-4 h-4 mr-2" />
               Add Budget
             </Button>
           </DialogTrigger>
-          <DialogContent>
+          <DialogContent className="max-h-[90vh] overflow-y-auto">
             <DialogHeader>
-              <DialogTitle>Create New Budget</DialogTitle>
+              <DialogTitle>{editingBudget ? 'Edit Budget' : 'Create New Budget'}</DialogTitle>
             </DialogHeader>
             
             <Form {...form}>
@@ -97,7 +169,7 @@ export function Budget() {
                       <FormLabel>Budget Amount</FormLabel>
                       <FormControl>
                         <div className="relative">
-                          <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-500">₹</span>
+                          <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-500">{currency}</span>
                           <Input
                             type="number"
                             placeholder="0.00"
@@ -116,22 +188,20 @@ export function Budget() {
 
                 <FormField
                   control={form.control}
-                  name="category"
+                  name="scope"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Category</FormLabel>
+                      <FormLabel>Covers</FormLabel>
                       <Select onValueChange={field.onChange} value={field.value}>
                         <FormControl>
                           <SelectTrigger>
-                            <SelectValue placeholder="Select category" />
+                            <SelectValue />
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
-                          {categories.map(category => (
-                            <SelectItem key={category.id} value={category.id}>
-                              {category.icon} {category.name}
-                            </SelectItem>
-                          ))}
+                          <SelectItem value="category">One category</SelectItem>
+                          <SelectItem value="categories">Several categories</SelectItem>
+                          <SelectItem value="all">All spending</SelectItem>
                         </SelectContent>
                       </Select>
                       <FormMessage />
@@ -139,6 +209,82 @@ export function Budget() {
                   )}
                 />
 
+                {scope === 'category' && (
+                  <FormField
+                    control={form.control}
+                    name="category"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Category</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select category" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {categories.map(category => (
+                              <SelectItem key={category.id} value={category.id}>
+                                {category.icon} {category.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                {scope === 'categories' && (
+                  <FormField
+                    control={form.control}
+                    name="categories"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Categories</FormLabel>
+                        <ToggleChips
+                          options={categories.map(category => ({ value: category.id, label: `${category.icon} ${category.name}` }))}
+                          selected={field.value || []}
+                          onChange={field.onChange}
+                        />
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                <FormField
+                  control={form.control}
+                  name="accounts"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Only Accounts</FormLabel>
+                      <ToggleChips
+                        options={accountOptions.map(account => ({ value: account, label: account }))}
+                        selected={field.value || []}
+                        onChange={field.onChange}
+                      />
+                      <FormDescription>Leave empty to count every account.</FormDescription>
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="paymentMethods"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Only Payment Methods</FormLabel>
+                      <ToggleChips
+                        options={paymentMethodOptions.map(method => ({ value: method, label: method }))}
+                        selected={field.value || []}
+                        onChange={field.onChange}
+                      />
+                    </FormItem>
+                  )}
+                />
+
                 <FormField
                   control={form.control}
                   name="period"
@@ -152,9 +298,9 @@ export function Budget() {
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
-                          <SelectItem value="weekly">Weekly</SelectItem>
-                          <SelectItem value="monthly">Monthly</SelectItem>
-                          <SelectItem value="yearly">Yearly</SelectItem>
+                          {BUDGET_PERIODS.map(period => (
+                            <SelectItem key={period} value={period}>{PERIOD_LABELS[period]}</SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
                       <FormMessage />
@@ -162,6 +308,29 @@ export function Budget() {
                   )}
                 />
 
+                {form.watch('period') === 'custom' && (
+                  <FormField
+                    control={form.control}
+                    name="cycleDays"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Cycle Length (days)</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min="1"
+                            placeholder="30"
+                            {...field}
+                            value={field.value ?? ''}
+                            onChange={(e) => field.onChange(parseInt(e.target.value) || undefined)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
                 <FormField
                   control={form.control}
                   name="startDate"
@@ -171,26 +340,45 @@ export function Budget() {
                       <FormControl>
                         <Input type="date" {...field} />
                       </FormControl>
+                      <FormDescription>
+                        Each period starts on this date, e.g. your salary day.
+                      </FormDescription>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
 
+                <FormField
+                  control={form.control}
+                  name="rollover"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between space-y-0">
+                      <div>
+                        <FormLabel>Roll Over</FormLabel>
+                        <FormDescription>Carry leftovers and overspending into the next period</FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+
                 <div className="flex space-x-3 pt-4">
                   <Button
                     type="button"
                     variant="outline"
                     className="flex-1"
-                    onClick={() => setIsCreateOpen(false)}
+                    onClick={() => handleOpenChange(false)}
                   >
                     Cancel
                   </Button>
                   <Button
                     type="submit"
                     className="flex-1"
-                    disabled={addBudgetMutation.isPending}
+                    disabled={isSaving}
                   >
-                    {addBudgetMutation.isPending ? 'Creating...' : 'Create Budget'}
+                    {isSaving ? 'Saving...' : editingBudget ? 'Save Changes' : 'Create Budget'}
                   </Button>
                 </div>
               </form>
@@ -199,6 +387,17 @@ export function Budget() {
         </Dialog>
       </div>
 
+      {budgets.length > 0 && (
+        <div className="flex justify-center gap-2">
+          <button type="button" onClick={() => setView('budgets')} className={`text-sm flex items-center gap-1 px-4 py-2 rounded-full border transition-colors ${view === 'budgets' ? 'bg-primary text-primary-foreground border-primary' : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300'}`}>
+            <List size={16} /> Budgets
+          </button>
+          <button type="button" onClick={() => setView('envelopes')} className={`text-sm flex items-center gap-1 px-4 py-2 rounded-full border transition-colors ${view === 'envelopes' ? 'bg-primary text-primary-foreground border-primary' : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300'}`}>
+            <Mail size={16} /> Envelopes
+          </button>
+        </div>
+      )}
+
       {/* Budgets List */}
       {budgets.length === 0 ? (
         <Card>
@@ -210,6 +409,8 @@ export function Budget() {
             </p>
           </CardContent>
         </Card>
+      ) : view === 'envelopes' ? (
+        <BudgetEnvelopes budgets={budgets} formatAmount={formatAmount} />
       ) : (
         <div className="space-y-4">
           {budgets.map((budget) => (
@@ -218,6 +419,7 @@ export function Budget() {
               budget={budget}
               currency={currency}
               formatAmount={formatAmount}
+              onEdit={openEdit}
             />
           ))}
         </div>
@@ -226,14 +428,59 @@ export function Budget() {
   );
 }
 
-function BudgetCard({ budget, currency, formatAmount }: any) {
+function ToggleChips({ options, selected, onChange }: {
+  options: { value: string; label: string }[];
+  selected: string[];
+  onChange: (value: string[]) => void;
+}) {
+  const toggle = (value: string) =>
+    onChange(selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value]);
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {options.map(option => (
+        <button
+          key={option.value}
+          type="button"
+          onClick={() => toggle(option.value)}
+          className={`text-xs px-3 py-1.5 rounded-full border transition-colors ${selected.includes(option.value) ? 'bg-primary text-primary-foreground border-primary' : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300'}`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// Windows can start on any day, so they are always shown as a range
+const formatWindow = (start: string, end: string) => {
+  const startDate = parseISO(start);
+  const endDate = parseISO(end);
+  const pattern = startDate.getFullYear() === endDate.getFullYear() ? 'MMM d' : 'MMM d, yyyy';
+  return `${format(startDate, pattern)} - ${format(endDate, pattern)}`;
+};
+
+function BudgetCard({ budget, currency, formatAmount, onEdit }: any) {
   const progress = useBudgetProgress(budget);
+  const history = useBudgetHistory(budget);
   const categories = useLiveQuery(() => db.categories.toArray()) || [];
+  const toggleBudgetMutation = useToggleBudget();
+  const deleteBudgetMutation = useDeleteBudget();
+  const [showHistory, setShowHistory] = useState(false);
   
-  const category = categories.find(cat => cat.id === budget.category);
+  const category = budgetCategoryIds(budget)?.length === 1
+    ? categories.find(cat => cat.id === budgetCategoryIds(budget)![0])
+    : undefined;
+  const isPaused = budget.isActive === false;
+
+  const handleDelete = () => {
+    if (confirm(`Are you sure you want to delete the "${budget.name}" budget?`)) {
+      deleteBudgetMutation.mutate(budget.id);
+    }
+  };
 
   return (
-    <Card>
+    <Card className={isPaused ? 'opacity-60' : undefined}>
       <CardHeader>
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-3">
@@ -242,15 +489,17 @@ function BudgetCard({ budget, currency, formatAmount }: any) {
             </div>
             <div>
               <CardTitle className="text-base">{budget.name}</CardTitle>
-              <p className="text-sm text-gray-500 dark:text-gray-400 capitalize">
-                {budget.period} • {category?.name || 'Unknown Category'}
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {PERIOD_LABELS[budget.period as BudgetRecord['period']]}{budget.period === 'custom' && ` (${budget.cycleDays || 30}d)`} • {describeBudgetScope(budget, categories)}{isPaused && ' • Paused'}
               </p>
             </div>
           </div>
           <div className="text-right">
-            <p className="font-semibold">{formatAmount(budget.amount)}</p>
+            <p className="font-semibold">{formatAmount(progress.available)}</p>
             <p className="text-sm text-gray-500 dark:text-gray-400">
-              {format(new Date(budget.startDate), 'MMM d')}
+              {progress.available !== budget.amount
+                ? `Limit ${formatAmount(budget.amount)}`
+                : format(new Date(budget.startDate), 'MMM d')}
             </p>
           </div>
         </div>
@@ -276,9 +525,84 @@ function BudgetCard({ budget, currency, formatAmount }: any) {
           <div className="flex justify-between items-center text-xs text-gray-500 dark:text-gray-400">
             <span>{Math.round(progress.percentage)}% used</span>
             <span>
-              {format(new Date(progress.periodStart), 'MMM d')} - {format(new Date(progress.periodEnd), 'MMM d')}
+              {formatWindow(progress.periodStart, progress.periodEnd)} · {progress.daysRemaining} {progress.daysRemaining === 1 ? 'day' : 'days'} left
             </span>
           </div>
+
+          {(progress.carriedIn !== 0 || progress.moved !== 0) && (
+            <div className="flex flex-wrap gap-x-3 text-xs text-gray-500 dark:text-gray-400">
+              {progress.carriedIn !== 0 && (
+                <span className="flex items-center gap-1">
+                  <Repeat className="w-3 h-3" />
+                  {progress.carriedIn > 0 ? '+' : '-'}{formatAmount(Math.abs(Math.round(progress.carriedIn)))} carried over
+                </span>
+              )}
+              {progress.moved !== 0 && (
+                <span>
+                  {progress.moved > 0 ? '+' : '-'}{formatAmount(Math.abs(Math.round(progress.moved)))} moved {progress.moved > 0 ? 'in' : 'out'}
+                </span>
+              )}
+            </div>
+          )}
+
+          {!isPaused && !progress.isOverBudget && progress.spent > 0 && (
+            <p className={`text-xs ${progress.isProjectedOver ? 'text-amber-600 dark:text-amber-400' : 'text-gray-500 dark:text-gray-400'}`}>
+              On pace for {formatAmount(Math.round(progress.projected))} this period
+              {progress.isProjectedOver && ` (${formatAmount(Math.round(progress.projected - progress.available))} over)`}
+            </p>
+          )}
+
+          {showHistory && (
+            <div className="space-y-2 pt-2 border-t dark:border-gray-800">
+              {history.length === 0 ? (
+                <p className="text-xs text-center text-gray-400 dark:text-gray-500 py-2">No past periods yet</p>
+              ) : (
+                history.map((period) => (
+                  <div key={period.periodStart} className="space-y-1">
+                    <div className="flex justify-between text-xs">
+                      <span className="text-gray-500 dark:text-gray-400">
+                        {formatWindow(period.periodStart, period.periodEnd)}
+                      </span>
+                      <span className={period.spent > period.available ? 'text-red-500' : undefined}>
+                        {formatAmount(period.spent)} / {formatAmount(period.available)}
+                      </span>
+                    </div>
+                    <Progress
+                      value={period.available > 0 ? Math.min(100, (period.spent / period.available) * 100) : 100}
+                      className="h-1.5"
+                      style={{
+                        '--progress-background': period.spent > period.available ? '#ef4444' : '#22c55e'
+                      } as React.CSSProperties}
+                    />
+                  </div>
+                ))
+              )}
+            </div>
+          )}
+
+          <div className="flex items-center justify-between pt-1">
+            <Button variant="ghost" size="sm" className="h-8 px-2 text-gray-500" onClick={() => setShowHistory(!showHistory)}>
+              {showHistory ? <ChevronUp className="w-4 h-4 mr-1" /> : <ChevronDown className="w-4 h-4 mr-1" />}
+              History
+            </Button>
+            <div className="flex items-center">
+              <Button variant="ghost" size="icon" className="h-8 w-8 text-gray-500" onClick={() => onEdit(budget)}>
+                <Pencil className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-gray-500"
+                title={isPaused ? 'Resume' : 'Pause'}
+                onClick={() => toggleBudgetMutation.mutate({ id: budget.id, isActive: isPaused })}
+              >
+                {isPaused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+              </Button>
+              <Button variant="ghost" size="icon" className="h-8 w-8 text-red-500 hover:text-red-600" onClick={handleDelete}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
         </div>
       </CardContent>
     </Card>
@@ -1,12 +1,19 @@
 import React, { useState, useMemo } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
-import db, { DebtRecord } from '@/lib/db';
-import { Plus, Filter, X, MoreVertical, Edit2, Trash2, CheckCircle, ChevronDown, ChevronUp, History, Undo } from 'lucide-react';
+import db, { DebtRecord, DebtPayment } from '@/lib/db';
+import {
+  createDebt, updateDebt, deleteDebt as removeDebt, addPayment, removePayment,
+  settleDebt as settleRecord, unsettleDebt as unsettleRecord, settlePerson, getOutstanding, DebtInput,
+} from '@/lib/debt-repository';
+import { scheduleSync } from '@/lib/sync';
+import { Plus, Filter, X, MoreVertical, Edit2, Trash2, CheckCircle, ChevronDown, ChevronUp, History, Undo, Coins, Users, List } from 'lucide-react';
 import { useToast } from "@/hooks/use-toast";
+import { useUndoToast } from '@/hooks/use-trash';
 import { useSettings } from '@/hooks/use-settings';
 
 export default function DuesReceivables() {
   const { toast } = useToast();
+  const showUndo = useUndoToast();
   const settings = useSettings();
 
   // Determine Currency Symbol
@@ -21,6 +28,7 @@ export default function DuesReceivables() {
   }, [settings?.currency]);
 
   // Main UI States
+  const [view, setView] = useState<'records' | 'people'>('records');
   const [activeTab, setActiveTab] = useState<'due' | 'receivable'>('due');
   const [showAddForm, setShowAddForm] = useState(false);
   const [showFilters, setShowFilters] = useState(false);
@@ -30,9 +38,15 @@ export default function DuesReceivables() {
   // Confirmation Modal State
   const [confirmAction, setConfirmAction] = useState<{id: number, type: 'settle' | 'unsettle' | 'delete'} | null>(null);
 
+  // Repayment Modal State
+  const [paymentTarget, setPaymentTarget] = useState<DebtRecord | null>(null);
+  const [paymentData, setPaymentData] = useState({ amount: '', paidAt: '', note: '' });
+
   // Card Interaction States
   const [expandedCardId, setExpandedCardId] = useState<number | null>(null);
   const [openMenuId, setOpenMenuId] = useState<number | null>(null);
+  const [expandedPerson, setExpandedPerson] = useState<string | null>(null);
+  const [settlePersonName, setSettlePersonName] = useState<string | null>(null);
 
   // Settled Section States
   const [showSettledSection, setShowSettledSection] = useState(false);
@@ -48,14 +62,23 @@ export default function DuesReceivables() {
   // Data Fetching (Dexie)
   // -------------------------------------------------------------
   const debts = useLiveQuery(() => db.debts.toArray()) || [];
+  const payments = useLiveQuery(() => db.debtPayments.orderBy('paidAt').toArray()) || [];
+
+  const paymentsByDebt = useMemo(() => {
+    const map = new Map<string, DebtPayment[]>();
+    payments.forEach(p => map.set(p.debtUuid, [...(map.get(p.debtUuid) || []), p]));
+    return map;
+  }, [payments]);
+
+  const outstandingOf = (debt: DebtRecord) => getOutstanding(debt, paymentsByDebt.get(debt.uuid) || []);
 
   // -------------------------------------------------------------
-  // Mutations (Dexie)
+  // Mutations (offline-first via the debt repository)
   // -------------------------------------------------------------
   const saveDebt = async () => {
     setIsSubmitting(true);
     try {
-      const debtPayload: Omit<DebtRecord, 'id'> = {
+      const debtPayload: DebtInput = {
         type: activeTab,
         amount: Number(formData.amount),
         purpose: formData.purpose,
@@ -63,17 +86,16 @@ export default function DuesReceivables() {
         personName: formData.personName,
         notes: formData.notes || undefined,
         datetime: formData.datetime || new Date().toISOString(),
-        status: 'pending',
-        createdAt: new Date().toISOString()
       };
 
       if (editId) {
-        await db.debts.update(editId, debtPayload);
+        await updateDebt(editId, debtPayload);
         toast({ title: "Success", description: "Record updated successfully." });
       } else {
-        await db.debts.add(debtPayload as DebtRecord);
+        await createDebt(debtPayload);
         toast({ title: "Success", description: "Record saved successfully." });
       }
+      scheduleSync();
       resetForm();
     } catch (error: any) {
       toast({ title: "Error", description: error.message, variant: "destructive" });
@@ -84,7 +106,8 @@ export default function DuesReceivables() {
 
   const settleDebt = async (id: number) => {
     try {
-      await db.debts.update(id, { status: 'settled' });
+      await settleRecord(id);
+      scheduleSync();
       toast({ title: "Success", description: "Record marked as settled!" });
     } catch (error: any) {
       toast({ title: "Error", description: "Failed to settle record.", variant: "destructive" });
@@ -93,17 +116,62 @@ export default function DuesReceivables() {
 
   const unsettleDebt = async (id: number) => {
     try {
-      await db.debts.update(id, { status: 'pending' });
-      toast({ title: "Success", description: "Record moved back to pending." });
+      await unsettleRecord(id);
+      scheduleSync();
+      toast({ title: "Success", description: "Record reopened." });
     } catch (error: any) {
       toast({ title: "Error", description: "Failed to unsettle record.", variant: "destructive" });
     }
   };
 
+  const savePayment = async () => {
+    if (!paymentTarget) return;
+    const amount = Number(paymentData.amount);
+    const outstanding = outstandingOf(paymentTarget);
+    if (!(amount > 0) || amount > outstanding + 0.005) {
+      toast({ title: "Error", description: `Enter an amount up to ${currencySymbol}${outstanding.toFixed(2)}.`, variant: "destructive" });
+      return;
+    }
+
+    try {
+      await addPayment(paymentTarget.id!, {
+        amount,
+        paidAt: paymentData.paidAt ? new Date(paymentData.paidAt).toISOString() : undefined,
+        note: paymentData.note,
+      });
+      scheduleSync();
+      toast({ title: "Success", description: amount >= outstanding ? "Record fully settled!" : "Payment recorded." });
+      setPaymentTarget(null);
+    } catch (error: any) {
+      toast({ title: "Error", description: "Failed to record payment.", variant: "destructive" });
+    }
+  };
+
+  const deletePayment = async (paymentId: string) => {
+    try {
+      await removePayment(paymentId);
+      scheduleSync();
+      toast({ title: "Deleted", description: "Payment has been removed." });
+    } catch (error: any) {
+      toast({ title: "Error", description: "Failed to remove payment.", variant: "destructive" });
+    }
+  };
+
+  const settleWithPerson = async (personName: string) => {
+    try {
+      const count = await settlePerson(personName);
+      scheduleSync();
+      toast({ title: "Success", description: `Settled ${count} record${count === 1 ? '' : 's'} with ${personName}.` });
+    } catch (error: any) {
+      toast({ title: "Error", description: "Failed to settle balance.", variant: "destructive" });
+    }
+  };
+
   const deleteDebt = async (id: number) => {
     try {
-      await db.debts.delete(id);
-      toast({ title: "Deleted", description: "Record has been removed." });
+      const entryId = await removeDebt(id);
+      scheduleSync();
+      showUndo(entryId, "Record deleted");
     } catch (error: any) {
       toast({ title: "Error", description: "Failed to delete record.", variant: "destructive" });
     }
@@ -112,20 +180,45 @@ export default function DuesReceivables() {
   // -------------------------------------------------------------
   // Derived Data & Calculations
   // -------------------------------------------------------------
-  const pendingDebts = useMemo(() => debts.filter(d => d.status === 'pending'), [debts]);
+  // Partially settled records stay in the open list until fully repaid
+  const pendingDebts = useMemo(() => debts.filter(d => d.status !== 'settled'), [debts]);
   const settledDebts = useMemo(() => debts.filter(d => d.status === 'settled'), [debts]);
 
   // Net Balance Calculation
   const netBalance = useMemo(() => {
-    const totalDues = pendingDebts.filter(d => d.type === 'due').reduce((sum, d) => sum + d.amount, 0);
-    const totalReceivables = pendingDebts.filter(d => d.type === 'receivable').reduce((sum, d) => sum + d.amount, 0);
+    const totalDues = pendingDebts.filter(d => d.type === 'due').reduce((sum, d) => sum + outstandingOf(d), 0);
+    const totalReceivables = pendingDebts.filter(d => d.type === 'receivable').reduce((sum, d) => sum + outstandingOf(d), 0);
     return {
       amount: Math.abs(totalReceivables - totalDues),
       type: totalReceivables >= totalDues ? 'receivable' : 'due'
     };
-  }, [pendingDebts]);
-
-  const uniquePersons = useMemo(() => Array.from(new Set(debts.map(d => d.personName).filter(Boolean))), [debts]);
+  }, [pendingDebts, paymentsByDebt]);
+
+  // One entry per person, ignoring differences in case and stray spaces
+  const uniquePersons = useMemo(() => {
+    const names = new Map<string, string>();
+    debts.forEach(d => {
+      const name = d.personName?.trim();
+      if (name && !names.has(name.toLowerCase())) names.set(name.toLowerCase(), name);
+    });
+    return Array.from(names.values());
+  }, [debts]);
+
+  // People view: every record per person, netted into a single balance
+  const people = useMemo(() => {
+    return uniquePersons
+      .map(name => {
+        const records = debts
+          .filter(d => d.personName?.trim().toLowerCase() === name.toLowerCase())
+          .sort((a, b) => new Date(b.datetime || b.createdAt).getTime() - new Date(a.datetime || a.createdAt).getTime());
+        const open = records.filter(d => d.status !== 'settled');
+        const receivable = open.filter(d => d.type === 'receivable').reduce((sum, d) => sum + outstandingOf(d), 0);
+        const due = open.filter(d => d.type === 'due').reduce((sum, d) => sum + outstandingOf(d), 0);
+        return { name, records, openCount: open.length, net: receivable - due };
+      })
+      .filter(person => !filterPerson || person.name.toLowerCase().includes(filterPerson.toLowerCase()))
+      .sort((a, b) => Math.abs(b.net) - Math.abs(a.net) || a.name.localeCompare(b.name));
+  }, [uniquePersons, debts, paymentsByDebt, filterPerson]);
 
   // Grouping Function
   const getGroupedData = (dataList: DebtRecord[], activeType: string) => {
@@ -179,6 +272,12 @@ export default function DuesReceivables() {
     saveDebt();
   };
 
+  const handlePaymentInit = (debt: DebtRecord) => {
+    setPaymentTarget(debt);
+    setPaymentData({ amount: outstandingOf(debt).toFixed(2), paidAt: '', note: '' });
+    setOpenMenuId(null);
+  };
+
   const toggleMenu = (id: number) => {
     setOpenMenuId(openMenuId === id ? null : id);
   };
@@ -192,6 +291,9 @@ export default function DuesReceivables() {
     const isExpanded = expandedCardId === debt.id;
     const isMenuOpen = openMenuId === debt.id;
     const isDue = debt.type === 'due';
+    const ledger = paymentsByDebt.get(debt.uuid) || [];
+    const outstanding = outstandingOf(debt);
+    const isPartial = debt.status === 'partially_settled';
 
     return (
       <div key={debt.id} className="relative p-4 bg-white dark:bg-gray-800 border border-gray-100 dark:border-gray-700 rounded-xl shadow-sm transition-all hover:shadow-md">
@@ -204,30 +306,41 @@ export default function DuesReceivables() {
             <div className="flex-1">
               <p className={`font-bold text-gray-900 dark:text-white leading-tight ${isSettledView ? 'line-through opacity-70' : ''}`}>{debt.personName}</p>
               <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mt-0.5">{debt.purpose}</p>
+              {isPartial && (
+                <span className="inline-block mt-1 px-2 py-0.5 text-xs font-semibold rounded-full bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400">
+                  Partially settled
+                </span>
+              )}
             </div>
           </div>
 
           <div className="flex flex-col items-end gap-1">
             <div className="flex items-center gap-2">
               <p className={`font-bold text-lg ${isDue ? 'text-red-500' : 'text-green-500'} ${isSettledView ? 'opacity-70' : ''}`}>
-                {isDue ? '-' : '+'}{currencySymbol}{debt.amount.toFixed(2)}
+                {isDue ? '-' : '+'}{currencySymbol}{(isSettledView ? debt.amount : outstanding).toFixed(2)}
               </p>
               {/* 3 Dots Menu Button - Now visible on both pending and settled views */}
               <button onClick={(e) => { e.stopPropagation(); toggleMenu(debt.id!); }} className="p-1 text-gray-400 hover:text-gray-800 dark:hover:text-white rounded-full bg-gray-50 dark:bg-gray-700/50">
                 <MoreVertical size={16} />
               </button>
             </div>
+            {isPartial && (
+              <p className="text-xs text-gray-400">of {currencySymbol}{debt.amount.toFixed(2)}</p>
+            )}
           </div>
         </div>
 
         {/* 3-Dots Dropdown Menu */}
         {isMenuOpen && (
-          <div className="absolute right-4 top-12 w-32 bg-white dark:bg-gray-800 rounded-lg shadow-xl border border-gray-100 dark:border-gray-700 z-10 overflow-hidden text-sm">
+          <div className="absolute right-4 top-12 w-40 bg-white dark:bg-gray-800 rounded-lg shadow-xl border border-gray-100 dark:border-gray-700 z-10 overflow-hidden text-sm">
             {!isSettledView ? (
               <>
                 <button onClick={() => setConfirmAction({ id: debt.id!, type: 'settle' })} className="w-full text-left px-4 py-2 hover:bg-green-50 dark:hover:bg-green-900/20 text-green-600 flex items-center gap-2">
                   <CheckCircle size={14} /> Settle
                 </button>
+                <button onClick={() => handlePaymentInit(debt)} className="w-full text-left px-4 py-2 hover:bg-blue-50 dark:hover:bg-blue-900/20 text-blue-600 flex items-center gap-2">
+                  <Coins size={14} /> Record Payment
+                </button>
                 <button onClick={() => handleEditInit(debt)} className="w-full text-left px-4 py-2 hover:bg-gray-50 dark:hover:bg-gray-700 flex items-center gap-2 dark:text-white">
                   <Edit2 size={14} /> Edit
                 </button>
@@ -255,12 +368,109 @@ export default function DuesReceivables() {
             {debt.location && <p><span className="font-semibold text-gray-700 dark:text-gray-300">Where:</span> {debt.location}</p>}
             {debt.notes && <p><span className="font-semibold text-gray-700 dark:text-gray-300">Notes:</span> <span className="italic">"{debt.notes}"</span></p>}
             <p><span className="font-semibold text-gray-700 dark:text-gray-300">Date:</span> {new Date(debt.datetime || debt.createdAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}</p>
+            {debt.expenseId && <p className="text-xs">Raised from a split expense. Changing the split updates this record.</p>}
+
+            {/* Repayment Timeline */}
+            {ledger.length > 0 && (
+              <div className="pt-2">
+                <p className="font-semibold text-gray-700 dark:text-gray-300 mb-2">Repayments</p>
+                <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-1 space-y-3">
+                  {ledger.map(payment => (
+                    <li key={payment.id} className="ml-4">
+                      <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-blue-500 border-2 border-white dark:border-gray-900"></span>
+                      <div className="flex justify-between items-start gap-2">
+                        <div>
+                          <p className="font-semibold text-gray-800 dark:text-gray-200">{currencySymbol}{payment.amount.toFixed(2)}</p>
+                          <p className="text-xs text-gray-500">{new Date(payment.paidAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}</p>
+                          {payment.note && <p className="text-xs italic">"{payment.note}"</p>}
+                        </div>
+                        <button onClick={() => deletePayment(payment.id)} className="p-1 text-gray-400 hover:text-red-500 rounded-full" title="Remove payment">
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+                {!isSettledView && (
+                  <p className="mt-2 text-xs"><span className="font-semibold">Outstanding:</span> {currencySymbol}{outstanding.toFixed(2)}</p>
+                )}
+              </div>
+            )}
           </div>
         )}
       </div>
     );
   };
 
+  const renderPersonCard = (person: typeof people[number]) => {
+    const isExpanded = expandedPerson === person.name;
+    const isSquare = Math.abs(person.net) < 0.005;
+    const theyOwe = person.net > 0;
+
+    return (
+      <div key={person.name} className="p-4 bg-white dark:bg-gray-800 border border-gray-100 dark:border-gray-700 rounded-xl shadow-sm transition-all hover:shadow-md">
+        <div className="flex justify-between items-center gap-2">
+          <div className="flex items-center gap-3 flex-1">
+            <div className={`w-10 h-10 rounded-full flex-shrink-0 flex items-center justify-center font-bold text-white shadow-inner ${isSquare ? 'bg-gray-400' : theyOwe ? 'bg-green-400' : 'bg-red-400'}`}>
+              {person.name.charAt(0).toUpperCase()}
+            </div>
+            <div className="flex-1">
+              <p className="font-bold text-gray-900 dark:text-white leading-tight">{person.name}</p>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-0.5">
+                {isSquare
+                  ? 'All square'
+                  : theyOwe
+                    ? `Owes you ${currencySymbol}${person.net.toFixed(2)} overall`
+                    : `You owe ${currencySymbol}${Math.abs(person.net).toFixed(2)} overall`}
+              </p>
+            </div>
+          </div>
+          <p className={`font-bold text-lg ${isSquare ? 'text-gray-400' : theyOwe ? 'text-green-500' : 'text-red-500'}`}>
+            {isSquare ? '' : theyOwe ? '+' : '-'}{currencySymbol}{Math.abs(person.net).toFixed(2)}
+          </p>
+        </div>
+
+        {person.openCount > 0 && (
+          <button onClick={() => setSettlePersonName(person.name)} className="mt-3 w-full py-2 text-sm font-semibold rounded-lg bg-green-50 text-green-600 hover:bg-green-100 dark:bg-green-900/20 dark:hover:bg-green-900/30 flex items-center justify-center gap-2 transition-colors">
+            <CheckCircle size={14} /> Settle Net Balance
+          </button>
+        )}
+
+        <div
+          className="mt-2 flex items-center justify-center pt-2 border-t border-gray-100 dark:border-gray-700/50 cursor-pointer text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+          onClick={() => setExpandedPerson(isExpanded ? null : person.name)}
+        >
+          {isExpanded ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+        </div>
+
+        {isExpanded && (
+          <ul className="mt-2 text-sm space-y-2 bg-gray-50 dark:bg-gray-900/50 p-3 rounded-lg">
+            {person.records.map(debt => {
+              const isDue = debt.type === 'due';
+              const isSettled = debt.status === 'settled';
+              return (
+                <li key={debt.id} className="flex justify-between items-start gap-2">
+                  <div className={isSettled ? 'opacity-60' : ''}>
+                    <p className="font-medium text-gray-800 dark:text-gray-200">{debt.purpose}</p>
+                    <p className="text-xs text-gray-500">
+                      {new Date(debt.datetime || debt.createdAt).toLocaleDateString(undefined, { dateStyle: 'medium' })}
+                      {' · '}{isDue ? 'You owe' : 'Owes you'}
+                      {debt.expenseId && ' · Split'}
+                      {' · '}{isSettled ? 'Settled' : debt.status === 'partially_settled' ? 'Partially settled' : 'Pending'}
+                    </p>
+                  </div>
+                  <p className={`font-semibold whitespace-nowrap ${isDue ? 'text-red-500' : 'text-green-500'} ${isSettled ? 'line-through opacity-60' : ''}`}>
+                    {isDue ? '-' : '+'}{currencySymbol}{(isSettled ? debt.amount : outstandingOf(debt)).toFixed(2)}
+                  </p>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    );
+  };
+
   return (
     // Changed max-w-md to max-w-5xl to allow wider layout on desktop
     <div className="p-4 max-w-5xl mx-auto" onClick={handleContainerClick}>
@@ -281,6 +491,16 @@ export default function DuesReceivables() {
         </div>
       </div>
       
+      <div className="flex justify-center gap-2 mb-4">
+        <button type="button" onClick={() => setView('records')} className={`text-sm flex items-center gap-1 px-4 py-2 rounded-full border transition-colors ${view === 'records' ? 'bg-primary text-primary-foreground border-primary' : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300'}`}>
+          <List size={16} /> Records
+        </button>
+        <button type="button" onClick={() => setView('people')} className={`text-sm flex items-center gap-1 px-4 py-2 rounded-full border transition-colors ${view === 'people' ? 'bg-primary text-primary-foreground border-primary' : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300'}`}>
+          <Users size={16} /> People
+        </button>
+      </div>
+
+      {view === 'records' && (
       <div className="flex bg-gray-200 dark:bg-gray-800 rounded-lg p-1 mb-4 max-w-2xl mx-auto">
         <button type="button" className={`flex-1 py-2 rounded-md font-semibold text-sm transition-all ${activeTab === 'due' ? 'bg-white dark:bg-gray-700 shadow text-black dark:text-white' : 'text-gray-500'}`} onClick={() => setActiveTab('due')}>
           Dues (To Pay)
@@ -289,6 +509,7 @@ export default function DuesReceivables() {
           Receivables (To Get)
         </button>
       </div>
+      )}
 
       <div className="flex justify-end mb-4">
          <button onClick={() => setShowFilters(!showFilters)} className="text-sm flex items-center gap-1 px-4 py-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-full text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors">
@@ -303,6 +524,21 @@ export default function DuesReceivables() {
         </div>
       )}
 
+      {view === 'people' && (
+        <div className="space-y-4 mb-10">
+          {people.length === 0 ? (
+            <div className="text-center py-12 bg-gray-50 dark:bg-gray-800/50 rounded-xl border border-dashed border-gray-200 dark:border-gray-700">
+              <p className="text-gray-500 dark:text-gray-400 text-lg">No people yet.</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {people.map(person => renderPersonCard(person))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {view === 'records' && (<>
       {!showAddForm && (
         <button type="button" onClick={() => setShowAddForm(true)} className="w-full bg-primary/10 text-primary dark:text-blue-400 font-semibold py-4 rounded-xl mb-6 flex items-center justify-center gap-2 hover:bg-primary/20 transition-colors border border-primary/20">
           <Plus size={20} /> Add New {activeTab === 'due' ? 'Due' : 'Receivable'}
@@ -396,7 +632,65 @@ export default function DuesReceivables() {
           </div>
         </div>
       )}
-      
+      </>)}
+
+      {/* Settle Person Modal */}
+      {settlePersonName && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 animate-in fade-in">
+          <div className="bg-white dark:bg-gray-800 rounded-2xl p-6 max-w-sm w-full shadow-2xl animate-in zoom-in-95">
+            <h3 className="text-xl font-bold mb-3 dark:text-white">Settle with {settlePersonName}?</h3>
+            <p className="text-gray-600 dark:text-gray-400 mb-6">
+              Every open due and receivable with {settlePersonName} will be marked as settled, bringing your net balance to zero.
+            </p>
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={() => setSettlePersonName(null)}
+                className="px-5 py-2.5 font-medium text-gray-600 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => {
+                  settleWithPerson(settlePersonName);
+                  setSettlePersonName(null);
+                }}
+                className="px-5 py-2.5 font-bold text-white rounded-lg transition-colors bg-blue-600 hover:bg-blue-700"
+              >
+                Yes, Settle All
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Record Payment Modal */}
+      {paymentTarget && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 animate-in fade-in" onClick={() => setPaymentTarget(null)}>
+          <div className="bg-white dark:bg-gray-800 rounded-2xl p-6 max-w-sm w-full shadow-2xl animate-in zoom-in-95" onClick={e => e.stopPropagation()}>
+            <h3 className="text-xl font-bold mb-1 dark:text-white">Record Payment</h3>
+            <p className="text-sm text-gray-500 mb-4">
+              {paymentTarget.personName} · {currencySymbol}{outstandingOf(paymentTarget).toFixed(2)} outstanding
+            </p>
+            <form onSubmit={(e) => { e.preventDefault(); savePayment(); }} className="space-y-3">
+              <div className="relative w-full">
+                <span className="absolute left-3 top-3 text-gray-400 font-bold">{currencySymbol}</span>
+                <input required type="number" step="0.01" min="0.01" placeholder="Amount" className="w-full pl-8 p-3 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg dark:text-white" value={paymentData.amount} onChange={e => setPaymentData({...paymentData, amount: e.target.value})} />
+              </div>
+              <input type="datetime-local" className="w-full p-3 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg text-gray-600 dark:text-gray-300" value={paymentData.paidAt} onChange={e => setPaymentData({...paymentData, paidAt: e.target.value})} />
+              <input type="text" placeholder="Note (Optional)" className="w-full p-3 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg dark:text-white" value={paymentData.note} onChange={e => setPaymentData({...paymentData, note: e.target.value})} />
+              <div className="flex justify-end gap-3 pt-2">
+                <button type="button" onClick={() => setPaymentTarget(null)} className="px-5 py-2.5 font-medium text-gray-600 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600 rounded-lg transition-colors">
+                  Cancel
+                </button>
+                <button type="submit" className="px-5 py-2.5 font-bold text-white rounded-lg transition-colors bg-blue-600 hover:bg-blue-700">
+                  Save Payment
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
       {/* Confirmation Modal */}
       {confirmAction && (
         <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 animate-in fade-in">
@@ -406,10 +700,10 @@ export default function DuesReceivables() {
             </h3>
             <p className="text-gray-600 dark:text-gray-400 mb-6">
               {confirmAction.type === 'delete' 
-                ? 'Are you sure you want to permanently delete this record? This cannot be undone.'
+                ? 'The record and its payments will be moved to the Trash, where they can be restored for a while.'
                 : confirmAction.type === 'settle' 
-                  ? 'Are you sure you want to mark this record as settled?' 
-                  : 'Are you sure you want to move this record back to pending?'}
+                  ? 'The remaining balance will be recorded as a final payment and the record marked as settled.' 
+                  : 'The payment that settled this record will be removed and the record reopened.'}
             </p>
             <div className="flex justify-end gap-3">
               <button 
@@ -6,19 +6,37 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Filter, Search, Pencil, Trash2, ChevronDown, ChevronUp, FileText } from 'lucide-react';
+import { Filter, Search, Pencil, Trash2, ChevronDown, ChevronUp, Paperclip, ArrowLeftRight, Users } from 'lucide-react';
 import { getCategoryColor } from '@/lib/categories';
 import { getIconComponent } from '@/components/category-selector';
+import { AttachmentGallery } from '@/components/attachment-gallery';
+import { getAttachments } from '@/lib/attachments';
+import { formatMoney, toBaseAmount } from '@/lib/currency';
 import { useToast } from '@/hooks/use-toast';
+import { isIncome, isSpending, isTransaction, isTransfer } from '@/hooks/use-expenses';
+import { useAccounts } from '@/hooks/use-accounts';
+import { useUndoToast } from '@/hooks/use-trash';
+import { trashExpense } from '@/lib/trash';
+import { SplitReceivable, groupSplitReceivables } from '@/lib/splits';
 import { Expense } from '@shared/schema';
 
 interface ExpensesProps {
   onOpenExpenseForm: (expense?: Expense | string) => void;
 }
 
-function ExpenseItemCard({ expense, category, onEdit, onDelete, currencySymbol }: any) {
+function ExpenseItemCard({ expense, category, onEdit, onDelete, currencySymbol, receivables = [] }: any) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const attachments = useLiveQuery(() => getAttachments(expense.id), [expense.id]) || [];
   const colors = getCategoryColor(category?.color || 'gray');
+  const money = (value: number) => expense.currency ? formatMoney(value, expense.currency) : `${currencySymbol}${value.toFixed(2)}`;
+
+  // Each person on a split, with what is left on their receivable
+  const split = (expense as Expense).split;
+  const splitStatus = split?.people.map(person => ({
+    person,
+    receivable: (receivables as SplitReceivable[]).find(entry => entry.debt.uuid === person.debtUuid),
+  })) ?? [];
+  const unsettled = splitStatus.filter(({ receivable }) => receivable && receivable.outstanding > 0).length;
 
   return (
     <Card className="overflow-hidden hover:shadow-md transition-all duration-200">
@@ -27,24 +45,33 @@ function ExpenseItemCard({ expense, category, onEdit, onDelete, currencySymbol }
         onClick={() => setIsExpanded(!isExpanded)}
       >
         <div className="flex items-center gap-3 overflow-hidden">
-          <div className={`p-2.5 rounded-full shrink-0 ${colors.bg} ${colors.text}`}>
-            {getIconComponent(category?.icon || 'tag', "w-4 h-4")}
+          <div className={`p-2.5 rounded-full shrink-0 ${isTransfer(expense) ? 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300' : `${colors.bg} ${colors.text}`}`}>
+            {isTransfer(expense) ? <ArrowLeftRight className="w-4 h-4" /> : getIconComponent(category?.icon || 'tag', "w-4 h-4")}
           </div>
           <div className="overflow-hidden">
             <p className="font-medium truncate text-sm sm:text-base">
-              {expense.items || 'Unnamed Expense'}
+              {expense.items || (isTransfer(expense) ? 'Transfer' : 'Unnamed Expense')}
             </p>
-            <p className="text-xs text-muted-foreground truncate capitalize">
-              {category?.name || 'Uncategorized'} • {expense.paymentMethod}
+            <p className="text-xs text-muted-foreground truncate capitalize flex items-center gap-1">
+              {isTransfer(expense) ? `${expense.account} → ${expense.toAccount}` : `${category?.name || 'Uncategorized'} • ${expense.paymentMethod}`}
+              {attachments.length > 0 && <Paperclip className="w-3 h-3 shrink-0" />}
+              {split && <Users className={`w-3 h-3 shrink-0 ${unsettled > 0 ? 'text-amber-500' : 'text-green-600'}`} />}
             </p>
           </div>
         </div>
         
         <div className="flex items-center gap-2 shrink-0 ml-2">
           <div className="text-right mr-2">
-            <p className="font-semibold text-sm sm:text-base">
-              {currencySymbol}{Number(expense.amount).toFixed(2)}
+            <p className={`font-semibold text-sm sm:text-base ${isIncome(expense) ? 'text-green-600 dark:text-green-400' : isTransfer(expense) ? 'text-blue-600 dark:text-blue-400' : ''}`}>
+              {isIncome(expense) && '+'}
+              {money(Number(expense.amount))}
             </p>
+            {split && (
+              <p className="text-xs text-muted-foreground">of {money(split.total)}</p>
+            )}
+            {expense.currency && (
+              <p className="text-xs text-muted-foreground">≈ {currencySymbol}{toBaseAmount(expense).toFixed(2)}</p>
+            )}
           </div>
           <div className="flex items-center gap-1">
             <Button
@@ -85,47 +112,40 @@ function ExpenseItemCard({ expense, category, onEdit, onDelete, currencySymbol }
             {expense.note && (
               <div><span className="font-medium text-foreground">Note:</span> {expense.note}</div>
             )}
-            {expense.account && (
+            {expense.account && !isTransfer(expense) && (
               <div><span className="font-medium text-foreground">Account:</span> {expense.account}</div>
             )}
             {expense.time && (
               <div><span className="font-medium text-foreground">Time:</span> {expense.time}</div>
             )}
-            {expense.attachments?.length > 0 && (
+            {split && (
+              <div className="col-span-1 md:col-span-2 space-y-1">
+                <span className="font-medium text-foreground">
+                  Split {split.method === 'equal' ? 'equally' : split.method === 'shares' ? 'by shares' : 'by amount'}:
+                </span>
+                {splitStatus.map(({ person, receivable }, index) => (
+                  <div key={person.debtUuid ?? index} className="flex items-center justify-between gap-2">
+                    <span className="truncate">{person.name} · {money(person.amount)}</span>
+                    {!receivable ? (
+                      <span className="text-xs">{person.amount > 0 ? 'Receivable removed' : 'Nothing owed'}</span>
+                    ) : receivable.outstanding > 0 ? (
+                      <span className="text-xs text-amber-600 dark:text-amber-400">
+                        {currencySymbol}{receivable.outstanding.toFixed(2)} {receivable.debt.status === 'partially_settled' ? 'left' : 'pending'}
+                      </span>
+                    ) : (
+                      <span className="text-xs text-green-600 dark:text-green-400">Settled</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+            {attachments.length > 0 && (
               <div className="col-span-1 md:col-span-2">
                 <span className="font-medium text-foreground">Attachments:</span>
-                <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
-                  {((expense.attachments ?? []) as string[]).map((attachment, idx) => {
-                    const isPdf = attachment.startsWith('data:application/pdf');
-                    return (
-                      <button
-                        key={idx}
-                        type="button"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          window.open(attachment, '_blank');
-                        }}
-                        className="group flex h-24 w-full flex-col items-center justify-center gap-2 overflow-hidden rounded-lg border border-border bg-white p-2 text-center transition hover:border-primary hover:bg-primary/5"
-                      >
-                        {isPdf ? (
-                          <>
-                            <FileText className="h-6 w-6 text-primary" />
-                            <span className="text-xs font-medium text-foreground">Open PDF</span>
-                          </>
-                        ) : (
-                          <img
-                            src={attachment}
-                            alt={`Expense attachment ${idx + 1}`}
-                            className="h-full w-full object-cover"
-                          />
-                        )}
-                      </button>
-                    );
-                  })}
-                </div>
+                <AttachmentGallery attachments={attachments} />
               </div>
             )}
-            {!expense.where && !expense.note && (!expense.attachments || expense.attachments.length === 0) && (
+            {!expense.where && !expense.note && !split && attachments.length === 0 && (
               <div className="italic">No additional details provided.</div>
             )}
           </div>
@@ -137,10 +157,14 @@ function ExpenseItemCard({ expense, category, onEdit, onDelete, currencySymbol }
 
 export function Expenses({ onOpenExpenseForm }: ExpensesProps) {
   const { toast } = useToast();
+  const showUndo = useUndoToast();
   
-  const expenses = useLiveQuery(() => db.expenses.orderBy('date').reverse().toArray()) || [];
+  const expenses = useLiveQuery(() => db.expenses.orderBy('date').reverse().filter(isTransaction).toArray()) || [];
   const categories = useLiveQuery(() => db.categories.toArray()) || [];
   const settings = useLiveQuery(() => db.settings.toArray()) || [];
+  const splitDebts = useLiveQuery(() => db.debts.filter(debt => !!debt.expenseId).toArray()) || [];
+  const debtPayments = useLiveQuery(() => db.debtPayments.toArray()) || [];
+  const splitReceivables = useMemo(() => groupSplitReceivables(splitDebts, debtPayments), [splitDebts, debtPayments]);
   
   const userCurrency = settings[0]?.currency || 'INR';
   const currencySymbol = userCurrency === 'INR' ? '₹' : userCurrency === 'USD' ? '$' : userCurrency === 'EUR' ? '€' : userCurrency === 'GBP' ? '£' : userCurrency;
@@ -152,12 +176,13 @@ export function Expenses({ onOpenExpenseForm }: ExpensesProps) {
   const [categoryFilter, setCategoryFilter] = useState('ALL');
   const [paymentMethodFilter, setPaymentMethodFilter] = useState('ALL');
   const [accountFilter, setAccountFilter] = useState('ALL');
+  const [typeFilter, setTypeFilter] = useState<'expense' | 'income' | 'transfer' | 'ALL'>('expense');
+  const accounts = useAccounts();
 
   const handleDelete = async (id: string) => {
     if (confirm('Are you sure you want to delete this expense?')) {
       try {
-        await db.expenses.delete(id);
-        toast({ title: 'Expense deleted successfully' });
+        showUndo(await trashExpense(id), 'Expense deleted');
       } catch (e) {
         toast({ title: 'Failed to delete expense', variant: 'destructive' });
       }
@@ -171,6 +196,7 @@ export function Expenses({ onOpenExpenseForm }: ExpensesProps) {
     setCategoryFilter('ALL');
     setPaymentMethodFilter('ALL');
     setAccountFilter('ALL');
+    setTypeFilter('expense');
   };
 
   // Dynamically extract unique payment methods and accounts for the filter dropdowns
@@ -179,10 +205,7 @@ export function Expenses({ onOpenExpenseForm }: ExpensesProps) {
     ...expenses.map(e => e.paymentMethod).filter(Boolean)
   ]));
   
-  const uniqueAccounts = Array.from(new Set([
-    'ICICI', 'HDFC', 'SBI', 
-    ...expenses.map(e => (e as any).account).filter(Boolean)
-  ]));
+  const uniqueAccounts = accounts.map(account => account.name);
 
   const filteredExpenses = useMemo(() => {
     return expenses.filter(expense => {
@@ -196,11 +219,19 @@ export function Expenses({ onOpenExpenseForm }: ExpensesProps) {
       const matchesDate = (!dateFrom || expenseDate >= dateFrom) && (!dateTo || expenseDate <= dateTo);
       const matchesCategory = categoryFilter === 'ALL' || expense.category === categoryFilter;
       const matchesPayment = paymentMethodFilter === 'ALL' || expense.paymentMethod === paymentMethodFilter;
-      const matchesAccount = accountFilter === 'ALL' || (expense as any).account === accountFilter;
+      const matchesAccount = accountFilter === 'ALL' || expense.account === accountFilter || expense.toAccount === accountFilter;
+      const matchesType = typeFilter === 'ALL' || (expense.type || 'expense') === typeFilter;
 
-      return matchesSearch && matchesDate && matchesCategory && matchesPayment && matchesAccount;
+      return matchesSearch && matchesDate && matchesCategory && matchesPayment && matchesAccount && matchesType;
     });
-  }, [expenses, searchTerm, dateFrom, dateTo, categoryFilter, paymentMethodFilter, accountFilter]);
+  }, [expenses, searchTerm, dateFrom, dateTo, categoryFilter, paymentMethodFilter, accountFilter, typeFilter]);
+
+  // With every type shown, totals are the net: income less spending, transfers aside
+  const valueOf = (expense: Expense) => {
+    if (typeFilter !== 'ALL') return toBaseAmount(expense);
+    if (isIncome(expense)) return toBaseAmount(expense);
+    return isSpending(expense) ? -toBaseAmount(expense) : 0;
+  };
 
   const groupedExpenses = useMemo(() => {
     const groups: Record<string, Expense[]> = {};
@@ -214,15 +245,16 @@ export function Expenses({ onOpenExpenseForm }: ExpensesProps) {
 
   // Calculate total of currently filtered expenses
   const filteredTotal = useMemo(() => {
-    return filteredExpenses.reduce((sum, expense) => sum + Number(expense.amount), 0);
-  }, [filteredExpenses]);
+    return filteredExpenses.reduce((sum, expense) => sum + valueOf(expense), 0);
+  }, [filteredExpenses, typeFilter]);
 
   const activeFilterCount = (searchTerm ? 1 : 0) + 
                             (dateFrom ? 1 : 0) + 
                             (dateTo ? 1 : 0) + 
                             (categoryFilter !== 'ALL' ? 1 : 0) + 
                             (paymentMethodFilter !== 'ALL' ? 1 : 0) + 
-                            (accountFilter !== 'ALL' ? 1 : 0);
+                            (accountFilter !== 'ALL' ? 1 : 0) +
+                            (typeFilter !== 'expense' ? 1 : 0);
 
   return (
     <div className="p-4 space-y-6 pb-24">
@@ -276,7 +308,20 @@ export function Expenses({ onOpenExpenseForm }: ExpensesProps) {
               </div>
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="space-y-1.5">
+                <label className="text-xs font-medium text-muted-foreground">Type</label>
+                <Select value={typeFilter} onValueChange={(value) => setTypeFilter(value as typeof typeFilter)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="expense">Expenses</SelectItem>
+                    <SelectItem value="income">Income</SelectItem>
+                    <SelectItem value="transfer">Transfers</SelectItem>
+                    <SelectItem value="ALL">All</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
               <div className="space-y-1.5">
                 <label className="text-xs font-medium text-muted-foreground">Category</label>
                 <Select value={categoryFilter} onValueChange={setCategoryFilter}>
@@ -331,7 +376,7 @@ export function Expenses({ onOpenExpenseForm }: ExpensesProps) {
           {filteredExpenses.length} {filteredExpenses.length === 1 ? 'transaction' : 'transactions'} found
         </span>
         <span className="text-muted-foreground">
-          Total: <strong className="text-foreground text-base">{currencySymbol}{filteredTotal.toFixed(2)}</strong>
+          {typeFilter === 'ALL' ? 'Net' : 'Total'}: <strong className="text-foreground text-base">{currencySymbol}{filteredTotal.toFixed(2)}</strong>
         </span>
       </div>
 
@@ -343,7 +388,7 @@ export function Expenses({ onOpenExpenseForm }: ExpensesProps) {
         ) : (
           Object.keys(groupedExpenses).sort((a, b) => b.localeCompare(a)).map(date => {
             // Calculate Daily Total
-            const dailyTotal = groupedExpenses[date].reduce((sum, exp) => sum + Number(exp.amount), 0);
+            const dailyTotal = groupedExpenses[date].reduce((sum, exp) => sum + valueOf(exp), 0);
 
             return (
             <div key={date} className="space-y-3">
@@ -367,6 +412,7 @@ export function Expenses({ onOpenExpenseForm }: ExpensesProps) {
                       onEdit={onOpenExpenseForm}
                       onDelete={handleDelete}
                       currencySymbol={currencySymbol}
+                      receivables={splitReceivables.get(expense.id)}
                     />
                   );
                 })}
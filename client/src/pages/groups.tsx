@@ -0,0 +1,544 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { format, parseISO } from 'date-fns';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Plus, Pencil, Trash2, ArrowLeft, ArrowRight, Users, UserPlus, X, Handshake, ChevronDown, ChevronUp } from 'lucide-react';
+import db, { Group, GroupExpense } from '@/lib/db';
+import {
+  YOU, SettlementPayment, createGroup, updateGroup, deleteGroup, saveGroupExpense, deleteGroupExpense,
+  getGroupBalances, groupShares, settleGroup, settleUp,
+} from '@/lib/groups';
+import { SPLIT_METHOD_LABELS } from '@/lib/splits';
+import { scheduleSync } from '@/lib/sync';
+import { SPLIT_METHODS, SplitMethod } from '@shared/schema';
+import { useSettings } from '@/hooks/use-settings';
+import { useToast } from '@/hooks/use-toast';
+
+// Names already used in Dues & Receivables, offered when adding members
+function useKnownPeople() {
+  return (useLiveQuery(() => db.debts.orderBy('personName').uniqueKeys()) || []).map(String);
+}
+
+export function Groups() {
+  const settings = useSettings();
+  const { toast } = useToast();
+  const groups = useLiveQuery(() => db.groups.orderBy('name').toArray()) || [];
+  const groupExpenses = useLiveQuery(() => db.groupExpenses.orderBy('date').reverse().toArray()) || [];
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isGroupFormOpen, setIsGroupFormOpen] = useState(false);
+  const [editingGroup, setEditingGroup] = useState<Group | null>(null);
+  const [isBillFormOpen, setIsBillFormOpen] = useState(false);
+  const [editingBill, setEditingBill] = useState<GroupExpense | null>(null);
+  const [isSettleOpen, setIsSettleOpen] = useState(false);
+  const [showSettled, setShowSettled] = useState(false);
+
+  const currency = settings?.currency || '₹';
+  const formatAmount = (amount: number) =>
+    `${currency}${Math.abs(amount).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  const ledgers = useMemo(() => groups.map((group) => {
+    const bills = groupExpenses.filter((expense) => expense.groupId === group.id);
+    return { group, bills, balances: getGroupBalances(group, bills) };
+  }), [groups, groupExpenses]);
+
+  const selected = ledgers.find(({ group }) => group.id === selectedId) ?? null;
+  const payments = useMemo(() => (selected ? settleUp(selected.balances) : []), [selected]);
+
+  const openCreateGroup = () => {
+    setEditingGroup(null);
+    setIsGroupFormOpen(true);
+  };
+
+  const openBill = (bill: GroupExpense | null) => {
+    setEditingBill(bill);
+    setIsBillFormOpen(true);
+  };
+
+  const handleDeleteGroup = async (group: Group) => {
+    if (!confirm(`Delete the group "${group.name}" and all its bills? Dues and receivables from past settle-ups are kept.`)) return;
+    try {
+      await deleteGroup(group.id);
+      setSelectedId(null);
+      toast({ title: "Success", description: "Group deleted." });
+    } catch (error) {
+      console.error('Failed to delete group:', error);
+      toast({ title: "Error", description: "Failed to delete the group.", variant: "destructive" });
+    }
+  };
+
+  const handleDeleteBill = async (bill: GroupExpense) => {
+    if (!confirm(`Delete "${bill.description}"?`)) return;
+    try {
+      await deleteGroupExpense(bill.id);
+      toast({ title: "Success", description: "Bill deleted." });
+    } catch (error) {
+      console.error('Failed to delete group bill:', error);
+      toast({ title: "Error", description: "Failed to delete the bill.", variant: "destructive" });
+    }
+  };
+
+  if (selected) {
+    const { group, bills, balances } = selected;
+    const open = bills.filter((bill) => !bill.settledAt);
+    const settled = bills.filter((bill) => bill.settledAt);
+
+    const renderBill = (bill: GroupExpense) => (
+      <Card key={bill.id} className={bill.settledAt ? 'opacity-60' : ''}>
+        <CardContent className="p-3 flex items-center justify-between gap-2">
+          <div className="overflow-hidden">
+            <p className="font-medium truncate">{bill.description}</p>
+            <p className="text-xs text-muted-foreground truncate">
+              {bill.paidBy === YOU ? 'You paid' : `${bill.paidBy} paid`} · {format(parseISO(bill.date), 'MMM d')}
+              {' · '}{SPLIT_METHOD_LABELS[bill.method].toLowerCase()}
+            </p>
+          </div>
+          <div className="flex items-center gap-1 shrink-0">
+            <div className="text-right mr-1">
+              <p className="font-semibold text-sm">{formatAmount(bill.amount)}</p>
+              <p className="text-xs text-muted-foreground">Your share {formatAmount(bill.shares[YOU] ?? 0)}</p>
+            </div>
+            {!bill.settledAt && (
+              <Button variant="ghost" size="icon" className="h-8 w-8 text-blue-500" onClick={() => openBill(bill)}>
+                <Pencil className="w-4 h-4" />
+              </Button>
+            )}
+            <Button variant="ghost" size="icon" className="h-8 w-8 text-red-500" onClick={() => handleDeleteBill(bill)}>
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+
+    return (
+      <div className="p-4 space-y-6">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 overflow-hidden">
+            <Button variant="ghost" size="icon" onClick={() => setSelectedId(null)} aria-label="Back to groups">
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <div className="overflow-hidden">
+              <h1 className="text-2xl font-bold truncate">{group.name}</h1>
+              <p className="text-gray-500 dark:text-gray-400 truncate">{[YOU, ...group.members].join(', ')}</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-1 shrink-0">
+            <Button variant="ghost" size="icon" className="text-blue-500" onClick={() => { setEditingGroup(group); setIsGroupFormOpen(true); }}>
+              <Pencil className="w-4 h-4" />
+            </Button>
+            <Button variant="ghost" size="icon" className="text-red-500" onClick={() => handleDeleteGroup(group)}>
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+
+        <Card className="bg-white dark:bg-gray-800 shadow-sm">
+          <CardContent className="p-4 space-y-2">
+            <p className="text-sm font-semibold">Balances</p>
+            {Array.from(balances).map(([name, balance]) => (
+              <div key={name} className="flex items-center justify-between text-sm">
+                <span>{name}</span>
+                <span className={balance > 0 ? 'text-green-600 dark:text-green-400' : balance < 0 ? 'text-red-600 dark:text-red-400' : 'text-muted-foreground'}>
+                  {balance === 0 ? 'Even' : `${balance > 0 ? 'gets back' : 'owes'} ${formatAmount(balance)}`}
+                </span>
+              </div>
+            ))}
+            <Button className="w-full mt-2" variant="outline" disabled={payments.length === 0} onClick={() => setIsSettleOpen(true)}>
+              <Handshake className="w-4 h-4 mr-2" />
+              Settle Up
+            </Button>
+          </CardContent>
+        </Card>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold">Bills</h2>
+            <Button size="sm" className="bg-primary hover:bg-primary/90" onClick={() => openBill(null)}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Bill
+            </Button>
+          </div>
+          {open.length === 0 && (
+            <p className="text-sm text-muted-foreground py-4 text-center">No open bills. Add what someone paid for the group.</p>
+          )}
+          {open.map(renderBill)}
+
+          {settled.length > 0 && (
+            <>
+              <button
+                className="w-full flex items-center justify-center gap-1 pt-2 text-sm text-muted-foreground hover:text-foreground"
+                onClick={() => setShowSettled(!showSettled)}
+              >
+                {settled.length} settled {settled.length === 1 ? 'bill' : 'bills'}
+                {showSettled ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+              </button>
+              {showSettled && settled.map(renderBill)}
+            </>
+          )}
+        </div>
+
+        <GroupFormDialog open={isGroupFormOpen} onOpenChange={setIsGroupFormOpen} group={editingGroup} />
+        <GroupBillDialog open={isBillFormOpen} onOpenChange={setIsBillFormOpen} group={group} bill={editingBill} formatAmount={formatAmount} />
+        <SettleUpDialog
+          open={isSettleOpen}
+          onOpenChange={setIsSettleOpen}
+          group={group}
+          payments={payments}
+          formatAmount={formatAmount}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Groups</h1>
+          <p className="text-gray-500 dark:text-gray-400">
+            Shared bills with flatmates and trips
+          </p>
+        </div>
+        <Button className="bg-primary hover:bg-primary/90" onClick={openCreateGroup}>
+          <Plus className="w-4 h-4 mr-2" />
+          New Group
+        </Button>
+      </div>
+
+      {ledgers.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center text-muted-foreground">
+            <Users className="w-10 h-10 mx-auto mb-3 opacity-50" />
+            <p>No groups yet. Create one to keep track of who paid for what.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {ledgers.map(({ group, bills, balances }) => {
+            const mine = balances.get(YOU) ?? 0;
+            const openCount = bills.filter((bill) => !bill.settledAt).length;
+            return (
+              <Card key={group.id} className="cursor-pointer hover:shadow-md transition-all duration-200" onClick={() => setSelectedId(group.id)}>
+                <CardContent className="p-4 flex items-center justify-between gap-2">
+                  <div className="overflow-hidden">
+                    <p className="font-semibold truncate">{group.name}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {group.members.length + 1} members · {openCount} open {openCount === 1 ? 'bill' : 'bills'}
+                    </p>
+                  </div>
+                  <p className={`text-sm font-medium shrink-0 ${mine > 0 ? 'text-green-600 dark:text-green-400' : mine < 0 ? 'text-red-600 dark:text-red-400' : 'text-muted-foreground'}`}>
+                    {mine === 0 ? 'All settled' : mine > 0 ? `You get back ${formatAmount(mine)}` : `You owe ${formatAmount(mine)}`}
+                  </p>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <GroupFormDialog
+        open={isGroupFormOpen}
+        onOpenChange={setIsGroupFormOpen}
+        group={editingGroup}
+        onCreated={(group) => setSelectedId(group.id)}
+      />
+    </div>
+  );
+}
+
+function GroupFormDialog({ open, onOpenChange, group, onCreated }: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  group: Group | null;
+  onCreated?: (group: Group) => void;
+}) {
+  const { toast } = useToast();
+  const knownPeople = useKnownPeople();
+  const [name, setName] = useState('');
+  const [members, setMembers] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(group?.name ?? '');
+    setMembers(group ? [...group.members] : ['']);
+  }, [open, group]);
+
+  const handleSave = async () => {
+    try {
+      if (group) {
+        await updateGroup(group.id, name, members);
+      } else {
+        onCreated?.(await createGroup(name, members));
+      }
+      toast({ title: "Success", description: group ? "Group updated." : "Group created." });
+      onOpenChange(false);
+    } catch (error: any) {
+      console.error('Failed to save group:', error);
+      toast({ title: "Error", description: error?.message || "Failed to save the group.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{group ? 'Edit Group' : 'New Group'}</DialogTitle>
+          <DialogDescription>
+            You are in every group. Use the names you use in Dues & Receivables so settle-ups add up per person.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="group-name">Name</Label>
+            <Input id="group-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Flat 4B, Goa trip" />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Members</Label>
+            {members.map((member, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  value={member}
+                  onChange={(e) => setMembers((prev) => prev.map((value, i) => (i === index ? e.target.value : value)))}
+                  placeholder="Name"
+                  list="group-people"
+                />
+                <Button type="button" variant="ghost" size="icon" onClick={() => setMembers((prev) => prev.filter((_, i) => i !== index))}>
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <datalist id="group-people">
+              {knownPeople.map((person) => <option key={person} value={person} />)}
+            </datalist>
+            <Button type="button" variant="outline" size="sm" onClick={() => setMembers((prev) => [...prev, ''])}>
+              <UserPlus className="w-4 h-4 mr-2" />Add Member
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={!name.trim()}>{group ? 'Save' : 'Create'}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function GroupBillDialog({ open, onOpenChange, group, bill, formatAmount }: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  group: Group;
+  bill: GroupExpense | null;
+  formatAmount: (amount: number) => string;
+}) {
+  const { toast } = useToast();
+  const everyone = [YOU, ...group.members];
+  const [description, setDescription] = useState('');
+  const [amount, setAmount] = useState('');
+  const [paidBy, setPaidBy] = useState(YOU);
+  const [date, setDate] = useState('');
+  const [method, setMethod] = useState<SplitMethod>('equal');
+  const [participants, setParticipants] = useState<string[]>([]);
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!open) return;
+    setDescription(bill?.description ?? '');
+    setAmount(bill ? String(bill.amount) : '');
+    setPaidBy(bill?.paidBy ?? YOU);
+    setDate(bill?.date ?? format(new Date(), 'yyyy-MM-dd'));
+    setMethod(bill?.method ?? 'equal');
+    setParticipants(bill ? Object.keys(bill.shares) : [...everyone]);
+    setValues(bill?.values ? Object.fromEntries(Object.entries(bill.values).map(([name, value]) => [name, String(value)])) : {});
+  }, [open, bill]);
+
+  // Blank boxes fall back to one share, or nothing for exact amounts
+  const input = () => ({
+    description,
+    amount: parseFloat(amount),
+    paidBy,
+    date,
+    method,
+    participants: everyone.filter((name) => participants.includes(name)),
+    values: Object.fromEntries(Object.entries(values).filter(([, value]) => value.trim() !== '').map(([name, value]) => [name, Number(value)])),
+  });
+  const current = input();
+  const preview = current.amount > 0 && current.participants.length > 0 ? groupShares(current) : {};
+
+  const toggleParticipant = (name: string, checked: boolean) =>
+    setParticipants((prev) => (checked ? [...prev, name] : prev.filter((value) => value !== name)));
+
+  const handleSave = async () => {
+    try {
+      await saveGroupExpense(group, input(), bill?.id);
+      toast({ title: "Success", description: bill ? "Bill updated." : "Bill added." });
+      onOpenChange(false);
+    } catch (error: any) {
+      console.error('Failed to save group bill:', error);
+      toast({ title: "Error", description: error?.message || "Failed to save the bill.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{bill ? 'Edit Bill' : 'Add Bill'}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="bill-description">Description</Label>
+            <Input id="bill-description" value={description} onChange={(e) => setDescription(e.target.value)} placeholder="e.g. Groceries, Hotel" />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1.5">
+              <Label htmlFor="bill-amount">Amount</Label>
+              <Input id="bill-amount" type="number" step="0.01" min="0" value={amount} onChange={(e) => setAmount(e.target.value)} placeholder="0.00" />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="bill-date">Date</Label>
+              <Input id="bill-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label>Paid By</Label>
+            <Select value={paidBy} onValueChange={setPaidBy}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {everyone.map((name) => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Split</Label>
+            <div className="grid grid-cols-3 gap-1 p-1 rounded-lg bg-gray-100 dark:bg-gray-800">
+              {SPLIT_METHODS.map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setMethod(value)}
+                  className={`py-1.5 text-xs font-medium rounded-md transition-colors ${
+                    method === value ? 'bg-primary text-primary-foreground' : 'text-gray-600 dark:text-gray-300'
+                  }`}
+                >
+                  {SPLIT_METHOD_LABELS[value]}
+                </button>
+              ))}
+            </div>
+
+            {everyone.map((name) => {
+              const included = participants.includes(name);
+              return (
+                <div key={name} className="flex items-center gap-2">
+                  <Checkbox id={`bill-member-${name}`} checked={included} onCheckedChange={(checked) => toggleParticipant(name, checked === true)} />
+                  <Label htmlFor={`bill-member-${name}`} className="flex-1 font-normal">{name}</Label>
+                  {method !== 'equal' && included && (
+                    <Input
+                      className="w-20 h-8"
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={values[name] ?? ''}
+                      onChange={(e) => setValues((prev) => ({ ...prev, [name]: e.target.value }))}
+                      placeholder={method === 'shares' ? '1' : '0.00'}
+                    />
+                  )}
+                  <span className="w-20 text-right text-sm text-muted-foreground">
+                    {included && preview[name] !== undefined ? formatAmount(preview[name]) : '-'}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={!description.trim() || !(current.amount > 0) || !date || current.participants.length === 0}>
+            {bill ? 'Save' : 'Add'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function SettleUpDialog({ open, onOpenChange, group, payments, formatAmount }: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  group: Group;
+  payments: SettlementPayment[];
+  formatAmount: (amount: number) => string;
+}) {
+  const { toast } = useToast();
+  const yours = payments.filter((payment) => payment.from === YOU || payment.to === YOU).length;
+
+  const handleSettle = async () => {
+    try {
+      await settleGroup(group.id);
+      scheduleSync();
+      toast({
+        title: "Success",
+        description: yours > 0
+          ? `Settled up. ${yours} ${yours === 1 ? 'record was' : 'records were'} added to Dues & Receivables.`
+          : 'Settled up.',
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Failed to settle group:', error);
+      toast({ title: "Error", description: "Failed to settle up.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Settle Up {group.name}</DialogTitle>
+          <DialogDescription>
+            The fewest payments that even everyone out. Yours are added to Dues & Receivables and the open bills are marked settled.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ul className="space-y-2">
+          {payments.map((payment, index) => {
+            const involvesYou = payment.from === YOU || payment.to === YOU;
+            return (
+              <li
+                key={index}
+                className={`flex items-center justify-between gap-2 p-2 rounded-lg text-sm ${involvesYou ? 'bg-primary/10 font-medium' : 'bg-gray-50 dark:bg-gray-900/50'}`}
+              >
+                <span className="flex items-center gap-1.5 overflow-hidden">
+                  <span className="truncate">{payment.from}</span>
+                  <ArrowRight className="w-3.5 h-3.5 shrink-0" />
+                  <span className="truncate">{payment.to}</span>
+                </span>
+                <span className="shrink-0">{formatAmount(payment.amount)}</span>
+              </li>
+            );
+          })}
+        </ul>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSettle} disabled={payments.length === 0}>Settle Up</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
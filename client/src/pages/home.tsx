@@ -2,6 +2,8 @@ import { StatsOverview } from '@/components/stats-overview';
 import { CategorySelector } from '@/components/category-selector';
 import { RecentExpenses } from '@/components/recent-expenses';
 import { BudgetOverview } from '@/components/budget-overview';
+import { UpcomingExpenses } from '@/components/upcoming-expenses';
+import { TemplateQuickAdd } from '@/components/template-quick-add';
 
 interface HomeProps {
   onTabChange: (tab: string) => void;
@@ -23,9 +25,13 @@ export function Home({ onTabChange, onOpenExpenseForm }: HomeProps) {
           variant="pill"
           limit={4} 
         />
+
+        <TemplateQuickAdd />
       </div>
 
       <BudgetOverview />
+
+      <UpcomingExpenses />
       
       <RecentExpenses onViewAll={() => onTabChange('expenses')} />
     </div>
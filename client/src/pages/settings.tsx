@@ -7,15 +7,34 @@ import { Switch } from '@/components/ui/switch';
 import { Separator } from '@/components/ui/separator';
 import { Input } from '@/components/ui/input';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { Download, Upload, Trash2, Pencil, Check, X, ChevronRight, Tags, FileSpreadsheet } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download, Upload, Trash2, Pencil, Check, X, ChevronRight, Tags, FileSpreadsheet, Zap, ArrowLeftRight, Landmark, Lock, History } from 'lucide-react';
 import { useSettings, useUpdateSettings } from '@/hooks/use-settings';
 import { useTheme } from '@/components/theme-provider';
 import { useToast } from '@/hooks/use-toast';
+import { isTransaction } from '@/hooks/use-expenses';
 import db from '@/lib/db';
 import { DEFAULT_CATEGORIES } from '@/lib/categories';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { getIconComponent } from '@/components/category-selector';
-import { getCategoryColor } from '@/lib/categories';
+import { categoryType, getCategoryColor } from '@/lib/categories';
+import { useUndoToast } from '@/hooks/use-trash';
+import { DEFAULT_TRASH_RETENTION_DAYS, countCategoryUsage, purgeTrash, trashCategory } from '@/lib/trash';
+import { TrashDialog } from '@/components/trash-dialog';
+import { addMissingAccounts } from '@/lib/accounts';
+import { ManageTemplatesDialog } from '@/components/manage-templates-dialog';
+import { ExchangeRatesDialog } from '@/components/exchange-rates-dialog';
+import { StatementImportDialog } from '@/components/statement-import-dialog';
+import { DuplicateReviewDialog } from '@/components/duplicate-review-dialog';
+import { DuplicatePair, findDuplicatePairs } from '@/lib/duplicates';
+import { CURRENCIES, getBaseCurrency, getRate, rebaseRates } from '@/lib/currency';
+import { DEFAULT_ALERT_THRESHOLDS, requestNotificationPermission } from '@/lib/notifications';
+import { RestoreBackupDialog } from '@/components/restore-backup-dialog';
+import { Backup, createBackup, parseBackup } from '@/lib/backup';
+import { SnapshotsDialog } from '@/components/snapshots-dialog';
+import { DEFAULT_AUTO_BACKUP, DEFAULT_SNAPSHOT_RETENTION, pruneSnapshots, takeSnapshot } from '@/lib/snapshots';
+import { BackupPassphraseDialog } from '@/components/backup-passphrase-dialog';
+import { EncryptedBackup, decryptBackup, encryptBackup, isEncryptedBackup } from '@/lib/backup-crypto';
 import ExcelJS from 'exceljs';
 
 // A sub-component to handle the Manage Categories Dialog cleanly
@@ -26,15 +45,28 @@ function ManageCategoriesDialog({ children }: { children: React.ReactNode }) {
   const [isOpen, setIsOpen] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editName, setEditName] = useState("");
+  // A category still used by expenses or budgets needs somewhere to move them first
+  const [reassigning, setReassigning] = useState<{ id: string; name: string; count: number } | null>(null);
+  const [reassignTo, setReassignTo] = useState('');
+  const showUndo = useUndoToast();
+
+  const deleteCategory = async (id: string, moveTo?: string) => {
+    try {
+      showUndo(await trashCategory(id, moveTo), "Category deleted");
+      setReassigning(null);
+    } catch (e) {
+      console.error('Failed to delete category:', e);
+      toast({ title: "Failed to delete category", variant: "destructive" });
+    }
+  };
 
   const handleDeleteCategory = async (id: string, name: string) => {
-    if (confirm(`Are you sure you want to delete the "${name}" category?`)) {
-      try {
-        await db.categories.delete(id);
-        toast({ title: "Category deleted" });
-      } catch (e) {
-        toast({ title: "Failed to delete category", variant: "destructive" });
-      }
+    const count = await countCategoryUsage(id);
+    if (count > 0) {
+      setReassignTo('');
+      setReassigning({ id, name, count });
+    } else if (confirm(`Are you sure you want to delete the "${name}" category?`)) {
+      await deleteCategory(id);
     }
   };
 
@@ -58,7 +90,10 @@ function ManageCategoriesDialog({ children }: { children: React.ReactNode }) {
   return (
     <Dialog open={isOpen} onOpenChange={(open) => {
       setIsOpen(open);
-      if (!open) setEditingId(null); // Reset editing state when closed
+      if (!open) {
+        setEditingId(null); // Reset editing state when closed
+        setReassigning(null);
+      }
     }}>
       <DialogTrigger asChild>
         {children}
@@ -68,6 +103,35 @@ function ManageCategoriesDialog({ children }: { children: React.ReactNode }) {
         <DialogHeader>
           <DialogTitle>Manage Categories</DialogTitle>
         </DialogHeader>
+
+        {reassigning && (
+          <div className="p-3 rounded-lg border border-amber-300 bg-amber-50 dark:border-amber-900 dark:bg-amber-950 space-y-2">
+            <p className="text-sm">
+              {reassigning.count} expense(s) or budget(s) use "{reassigning.name}". Move them to:
+            </p>
+            <Select value={reassignTo} onValueChange={setReassignTo}>
+              <SelectTrigger className="h-9">
+                <SelectValue placeholder="Select category" />
+              </SelectTrigger>
+              <SelectContent>
+                {categories.filter((c) => c.id !== reassigning.id).map((c) => (
+                  <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setReassigning(null)}>Cancel</Button>
+              <Button
+                variant="destructive"
+                size="sm"
+                disabled={!reassignTo}
+                onClick={() => deleteCategory(reassigning.id, reassignTo)}
+              >
+                Move & Delete
+              </Button>
+            </div>
+          </div>
+        )}
         
         <div className="flex-1 overflow-y-auto pr-2 space-y-2 mt-4 pb-4">
           {categories.map((category) => {
@@ -94,6 +158,11 @@ function ManageCategoriesDialog({ children }: { children: React.ReactNode }) {
                       {getIconComponent(category.icon, "w-4 h-4")}
                     </div>
                     <span className="font-medium truncate">{category.name}</span>
+                    {categoryType(category) === 'income' && (
+                      <span className="text-[10px] text-green-600 dark:text-green-400 uppercase tracking-wider ml-1 border border-green-600/40 px-1.5 rounded-full">
+                        Income
+                      </span>
+                    )}
                     {category.isDefault && (
                       <span className="text-[10px] text-muted-foreground uppercase tracking-wider ml-1 border px-1.5 rounded-full">
                         Default
@@ -171,25 +240,83 @@ export function Settings() {
     }
   };
 
-  const exportData = async () => {
+  // Imports can bring in copies of the same expense; offer to merge them
+  const [duplicatePairs, setDuplicatePairs] = useState<DuplicatePair[]>([]);
+  const [pendingRestore, setPendingRestore] = useState<{ backup: Backup; fileName: string } | null>(null);
+  const [pendingDecrypt, setPendingDecrypt] = useState<{ encrypted: EncryptedBackup; fileName: string } | null>(null);
+  const [encryptingExport, setEncryptingExport] = useState(false);
+  const reviewDuplicates = async (ids: string[]) => {
+    setDuplicatePairs(await findDuplicatePairs(ids));
+  };
+
+  const handleNotificationsChange = async (checked: boolean) => {
+    await handleSettingChange('notifications', checked);
+    if (checked && !(await requestNotificationPermission())) {
+      toast({
+        title: "In-app only",
+        description: "Browser notifications are blocked, alerts will show under the bell.",
+      });
+    }
+  };
+
+  const handleThresholdsChange = async (value: string) => {
+    const thresholds = Array.from(new Set(
+      value.split(/[,\s]+/).map(Number).filter((n) => Number.isInteger(n) && n > 0 && n <= 500)
+    )).sort((a, b) => a - b);
+    if (thresholds.length === 0) return;
+    await handleSettingChange('budgetAlertThresholds', thresholds);
+  };
+
+  const handleRetentionChange = async (value: string) => {
+    const retention = Number(value);
+    if (!Number.isInteger(retention) || retention < 1 || retention > 60) return;
+    if (retention === settings?.autoBackupRetention) return;
+    await handleSettingChange('autoBackupRetention', retention);
+    await pruneSnapshots(retention);
+  };
+
+  const handleTrashRetentionChange = async (value: string) => {
+    const days = Number(value);
+    if (!Number.isInteger(days) || days < 1 || days > 365) return;
+    if (days === settings?.trashRetentionDays) return;
+    await handleSettingChange('trashRetentionDays', days);
+    await purgeTrash();
+  };
+
+  const handleBaseCurrencyChange = async (code: string) => {
+    const oldBase = getBaseCurrency(settings);
+    if (code === oldBase) return;
+    // Everything is converted through the new base's rate, so it has to exist first
+    if (!(await getRate(code, oldBase))) {
+      toast({
+        title: `Add a rate for ${code} first`,
+        description: `Totals are converted through the ${code} rate in Exchange Rates.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    if (!confirm(`Switch totals to ${code}? Expenses, budgets and account balances are converted to ${code}; dues, receivables and group balances keep their numbers.`)) return;
     try {
-      const expenses = await db.expenses.toArray();
-      const budgets = await db.budgets.toArray();
-      const categories = await db.categories.toArray();
-      
-      const data = {
-        expenses,
-        budgets,
-        categories,
-        settings,
-        exportDate: new Date().toISOString(),
-      };
+      const info = CURRENCIES.find((c) => c.code === code)!;
+      await rebaseRates(oldBase, code);
+      await updateSettingsMutation.mutateAsync({ baseCurrency: code, currency: info.symbol });
+    } catch (error) {
+      console.error('Failed to update base currency:', error);
+      toast({ title: "Failed to change base currency", variant: "destructive" });
+    }
+  };
+
+  // With a passphrase the backup is written encrypted (see lib/backup-crypto.ts)
+  const exportData = async (passphrase?: string) => {
+    try {
+      const backup = JSON.stringify(await createBackup(), null, 2);
+      const contents = passphrase ? JSON.stringify(await encryptBackup(backup, passphrase), null, 2) : backup;
       
-      const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+      const blob = new Blob([contents], { type: 'application/json' });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `expense-tracker-backup-${new Date().toISOString().split('T')[0]}.json`;
+      a.download = `expense-tracker-backup-${new Date().toISOString().split('T')[0]}${passphrase ? '.encrypted' : ''}.json`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -200,6 +327,7 @@ export function Settings() {
         description: "Data exported successfully!",
       });
     } catch (error) {
+      console.error('Failed to export data:', error);
       toast({
         title: "Error",
         description: "Failed to export data.",
@@ -210,7 +338,8 @@ export function Settings() {
 
   const exportToExcel = async () => {
     try {
-      const expenses = await db.expenses.toArray();
+      // Templates aren't spending; importing them back would turn them into expenses
+      const expenses = await db.expenses.filter(isTransaction).toArray();
       const budgets = await db.budgets.toArray();
       const categories = await db.categories.toArray();
 
@@ -229,6 +358,8 @@ export function Settings() {
         { header: 'Account', key: 'account', width: 15 },
         { header: 'Notes', key: 'note', width: 30 },
         { header: 'Created At', key: 'createdAt', width: 20 },
+        { header: 'Type', key: 'type', width: 10 },
+        { header: 'To Account', key: 'toAccount', width: 15 },
       ];
       expenses.forEach(exp => expensesSheet.addRow(exp));
 
@@ -289,26 +420,19 @@ export function Settings() {
     reader.onload = async (e) => {
       try {
         const data = JSON.parse(e.target?.result as string);
-        
-        if (confirm('This will replace all your current data. Are you sure?')) {
-          await db.expenses.clear();
-          await db.budgets.clear();
-          await db.categories.clear();
-          
-          if (data.expenses) await db.expenses.bulkAdd(data.expenses);
-          if (data.budgets) await db.budgets.bulkAdd(data.budgets);
-          if (data.categories) await db.categories.bulkAdd(data.categories);
-          if (data.settings) await updateSettingsMutation.mutateAsync(data.settings);
-          
-          toast({
-            title: "Success",
-            description: "Data imported successfully!",
-          });
+        if (isEncryptedBackup(data)) {
+          setPendingDecrypt({ encrypted: data, fileName: file.name });
+          return;
         }
+        // Nothing is written until a restore mode is picked in the dialog
+        setPendingRestore({ backup: parseBackup(data), fileName: file.name });
       } catch (error) {
+        console.error('Failed to read backup:', error);
         toast({
           title: "Error",
-          description: "Failed to import data. Please check the file format.",
+          description: error instanceof Error && error.message.includes('newer version')
+            ? error.message
+            : "Failed to import data. Please check the file format.",
           variant: "destructive",
         });
       }
@@ -317,6 +441,17 @@ export function Settings() {
     event.target.value = '';
   };
 
+  const handlePassphrase = async (passphrase: string) => {
+    if (pendingDecrypt) {
+      const backup = parseBackup(JSON.parse(await decryptBackup(pendingDecrypt.encrypted, passphrase)));
+      setPendingRestore({ backup, fileName: pendingDecrypt.fileName });
+      setPendingDecrypt(null);
+    } else {
+      await exportData(passphrase);
+      setEncryptingExport(false);
+    }
+  };
+
   const importFromExcel = (event: ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -329,11 +464,13 @@ export function Settings() {
         await workbook.xlsx.load(buffer);
 
         if (confirm('This will replace all your current data. Are you sure?')) {
+          await takeSnapshot('before-restore');
           await db.expenses.clear();
           await db.budgets.clear();
           await db.categories.clear();
 
           // Expenses
+          let importedIds: string[] = [];
           const expensesSheet = workbook.getWorksheet('Expenses');
           if (expensesSheet) {
             const expenses: any[] = [];
@@ -341,7 +478,7 @@ export function Settings() {
               if (rowNumber === 1) return; // skip header
               const [
                 Date, Time, Amount, Category, Items, Location,
-                PaymentMethod, Account, Notes, CreatedAt
+                PaymentMethod, Account, Notes, CreatedAt, Type, ToAccount
               ] = row.values as any[];
 
               expenses.push({
@@ -355,6 +492,8 @@ export function Settings() {
                 paymentMethod: PaymentMethod || 'UPI',
                 account: Account || 'Other',
                 note: Notes || '',
+                type: Type === 'income' || Type === 'transfer' ? Type : undefined,
+                toAccount: Type === 'transfer' ? ToAccount || undefined : undefined,
                 isRecurring: false,
                 isTemplate: false,
                 attachments: [],
@@ -363,6 +502,8 @@ export function Settings() {
               });
             });
             await db.expenses.bulkAdd(expenses);
+            await addMissingAccounts();
+            importedIds = expenses.map((expense) => expense.id);
           }
 
           // Budgets
@@ -409,6 +550,7 @@ export function Settings() {
             title: "Success",
             description: "Excel data imported successfully!",
           });
+          await reviewDuplicates(importedIds);
         }
       } catch (error) {
         console.error(error);
@@ -424,19 +566,32 @@ export function Settings() {
   };
 
   const clearAllData = async () => {
-    if (confirm('This will permanently delete all your expenses, budgets, and settings. This action cannot be undone. Are you sure?')) {
+    if (confirm('This will permanently delete all your expenses, budgets, and settings. A snapshot is saved first and can be restored from Settings. Are you sure?')) {
       try {
+        await takeSnapshot('before-clear');
         await db.expenses.clear();
         await db.budgets.clear();
         await db.categories.clear();
-        await db.categories.bulkAdd(DEFAULT_CATEGORIES);
+        await db.notifications.clear();
+        await db.trash.clear();
+        await db.accounts.clear();
+        // Stamped now so the defaults outlive the deletions the clear sends to other devices
+        const now = new Date();
+        await db.categories.bulkAdd(DEFAULT_CATEGORIES.map((category) => ({ ...category, updatedAt: now })));
+        await addMissingAccounts();
+        await db.accounts.toCollection().modify({ updatedAt: now.toISOString() });
         
         await updateSettingsMutation.mutateAsync({
           currency: '₹',
+          baseCurrency: 'INR',
           theme: 'light',
           language: 'en',
           notifications: true,
           budgetAlerts: true,
+          budgetAlertThresholds: DEFAULT_ALERT_THRESHOLDS,
+          autoBackup: DEFAULT_AUTO_BACKUP,
+          autoBackupRetention: DEFAULT_SNAPSHOT_RETENTION,
+          trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
         });
         
         toast({
@@ -444,6 +599,7 @@ export function Settings() {
           description: "All data cleared successfully!",
         });
       } catch (error) {
+        console.error('Failed to clear data:', error);
         toast({
           title: "Error",
           description: "Failed to clear data.",
@@ -478,6 +634,55 @@ export function Settings() {
             />
           </div>
           
+          <div className="flex items-center justify-between py-2">
+            <div>
+              <Label htmlFor="notifications" className="text-base cursor-pointer">Notifications</Label>
+              <p className="text-sm text-muted-foreground">Due charges and overdue receivables</p>
+            </div>
+            <Switch 
+              id="notifications" 
+              checked={settings.notifications !== false}
+              onCheckedChange={handleNotificationsChange}
+            />
+          </div>
+
+          <div className="flex items-center justify-between py-2">
+            <div>
+              <Label htmlFor="budget-alerts" className="text-base cursor-pointer">Budget Alerts</Label>
+              <p className="text-sm text-muted-foreground">Alert at % of a budget</p>
+            </div>
+            <div className="flex items-center gap-3">
+              <Input
+                key={(settings.budgetAlertThresholds || DEFAULT_ALERT_THRESHOLDS).join(',')}
+                defaultValue={(settings.budgetAlertThresholds || DEFAULT_ALERT_THRESHOLDS).join(', ')}
+                onBlur={(e) => handleThresholdsChange(e.target.value)}
+                disabled={settings.budgetAlerts === false || settings.notifications === false}
+                className="h-9 w-28 text-sm"
+                aria-label="Alert thresholds"
+              />
+              <Switch 
+                id="budget-alerts" 
+                checked={settings.budgetAlerts !== false}
+                disabled={settings.notifications === false}
+                onCheckedChange={(checked) => handleSettingChange('budgetAlerts', checked)}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between py-2">
+            <Label className="text-base">Base Currency</Label>
+            <Select value={getBaseCurrency(settings)} onValueChange={handleBaseCurrencyChange}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CURRENCIES.map((c) => (
+                  <SelectItem key={c.code} value={c.code}>{c.code} · {c.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           <div className="border-t dark:border-gray-800 pt-4">
             <ManageCategoriesDialog>
               <Button 
@@ -495,6 +700,40 @@ export function Settings() {
             </ManageCategoriesDialog>
           </div>
 
+          <div>
+            <ManageTemplatesDialog>
+              <Button 
+                variant="outline" 
+                className="w-full justify-between font-normal h-12 text-base hover:bg-gray-50 dark:hover:bg-gray-800"
+              >
+                <div className="flex items-center gap-3">
+                  <div className="bg-primary/10 p-1.5 rounded-md text-primary">
+                    <Zap className="w-4 h-4" />
+                  </div>
+                  <span>Manage Templates</span>
+                </div>
+                <ChevronRight className="w-5 h-5 text-muted-foreground" />
+              </Button>
+            </ManageTemplatesDialog>
+          </div>
+
+          <div>
+            <ExchangeRatesDialog>
+              <Button 
+                variant="outline" 
+                className="w-full justify-between font-normal h-12 text-base hover:bg-gray-50 dark:hover:bg-gray-800"
+              >
+                <div className="flex items-center gap-3">
+                  <div className="bg-primary/10 p-1.5 rounded-md text-primary">
+                    <ArrowLeftRight className="w-4 h-4" />
+                  </div>
+                  <span>Exchange Rates</span>
+                </div>
+                <ChevronRight className="w-5 h-5 text-muted-foreground" />
+              </Button>
+            </ExchangeRatesDialog>
+          </div>
+
         </CardContent>
       </Card>
 
@@ -508,10 +747,15 @@ export function Settings() {
           <div>
             <h4 className="font-medium mb-2">JSON Format</h4>
             <div className="space-y-2">
-              <Button onClick={exportData} variant="outline" className="w-full justify-start">
+              <Button onClick={() => exportData()} variant="outline" className="w-full justify-start">
                 <Download className="w-4 h-4 mr-2" />
                 Export as JSON
               </Button>
+
+              <Button onClick={() => setEncryptingExport(true)} variant="outline" className="w-full justify-start">
+                <Lock className="w-4 h-4 mr-2" />
+                Export Encrypted JSON
+              </Button>
               
               <Label htmlFor="import-json-file">
                 <Button variant="outline" className="w-full justify-start" asChild>
@@ -530,7 +774,7 @@ export function Settings() {
               />
             </div>
             <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
-              JSON format preserves all data including settings
+              JSON format preserves all data including settings, debts and attachments. Restoring lets you replace, merge or only add new records. Encrypt backups you keep on shared drives; importing asks for the passphrase.
             </p>
           </div>
 
@@ -568,6 +812,96 @@ export function Settings() {
 
           <Separator />
 
+          {/* Bank statements */}
+          <div>
+            <h4 className="font-medium mb-2">Bank Statements</h4>
+            <StatementImportDialog onImported={reviewDuplicates}>
+              <Button variant="outline" className="w-full justify-start">
+                <Landmark className="w-4 h-4 mr-2" />
+                Import Bank Statement
+              </Button>
+            </StatementImportDialog>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              CSV or XLSX from your bank or UPI app, added alongside your existing expenses
+            </p>
+          </div>
+
+          <Separator />
+
+          {/* Automatic snapshots */}
+          <div>
+            <h4 className="font-medium mb-2">Automatic Snapshots</h4>
+            <div className="flex items-center justify-between py-2">
+              <Label className="text-sm">Frequency</Label>
+              <Select
+                value={settings.autoBackup ?? DEFAULT_AUTO_BACKUP}
+                onValueChange={(value) => handleSettingChange('autoBackup', value)}
+              >
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="off">Off</SelectItem>
+                  <SelectItem value="daily">Daily</SelectItem>
+                  <SelectItem value="weekly">Weekly</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center justify-between py-2">
+              <Label htmlFor="snapshot-retention" className="text-sm">Snapshots to keep</Label>
+              <Input
+                id="snapshot-retention"
+                key={settings.autoBackupRetention ?? DEFAULT_SNAPSHOT_RETENTION}
+                type="number"
+                min="1"
+                max="60"
+                defaultValue={settings.autoBackupRetention ?? DEFAULT_SNAPSHOT_RETENTION}
+                onBlur={(e) => handleRetentionChange(e.target.value)}
+                className="h-9 w-28 text-sm"
+              />
+            </div>
+            <SnapshotsDialog onRestore={(backup, label) => setPendingRestore({ backup, fileName: label })}>
+              <Button variant="outline" className="w-full justify-start">
+                <History className="w-4 h-4 mr-2" />
+                Restore from Snapshot
+              </Button>
+            </SnapshotsDialog>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              Kept on this device only, so a bad import or Clear All Data can be undone
+            </p>
+          </div>
+
+          <Separator />
+
+          {/* Trash */}
+          <div>
+            <h4 className="font-medium mb-2">Trash</h4>
+            <div className="flex items-center justify-between py-2">
+              <Label htmlFor="trash-retention" className="text-sm">Purge after (days)</Label>
+              <Input
+                id="trash-retention"
+                key={settings.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS}
+                type="number"
+                min="1"
+                max="365"
+                defaultValue={settings.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS}
+                onBlur={(e) => handleTrashRetentionChange(e.target.value)}
+                className="h-9 w-28 text-sm"
+              />
+            </div>
+            <TrashDialog>
+              <Button variant="outline" className="w-full justify-start">
+                <Trash2 className="w-4 h-4 mr-2" />
+                Open Trash
+              </Button>
+            </TrashDialog>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              Deleted expenses, dues, receivables and categories can be restored from here
+            </p>
+          </div>
+
+          <Separator />
+
           {/* Clear All Data */}
           <div>
             <Button
@@ -579,7 +913,7 @@ export function Settings() {
               Clear All Data
             </Button>
             <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
-              Permanently delete all expenses, budgets, and reset settings
+              Delete all expenses and budgets and reset settings, after saving a snapshot
             </p>
           </div>
         </CardContent>
@@ -615,6 +949,22 @@ export function Settings() {
           </div>
         </CardContent>
       </Card>
+
+      <BackupPassphraseDialog
+        mode={pendingDecrypt ? 'decrypt' : encryptingExport ? 'encrypt' : null}
+        onSubmit={handlePassphrase}
+        onClose={() => {
+          setPendingDecrypt(null);
+          setEncryptingExport(false);
+        }}
+      />
+      <RestoreBackupDialog
+        backup={pendingRestore?.backup ?? null}
+        fileName={pendingRestore?.fileName ?? ''}
+        onClose={() => setPendingRestore(null)}
+        onRestored={reviewDuplicates}
+      />
+      <DuplicateReviewDialog pairs={duplicatePairs} onClose={() => setDuplicatePairs([])} />
     </div>
   );
 }
\ No newline at end of file
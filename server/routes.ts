@@ -1,10 +1,133 @@
-import type { Express } from "express";
+import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
+import { randomUUID } from "crypto";
 import passport from "passport";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
 import { setupAuth } from "./auth";
 import { db } from "./db"; 
-import { eq, and } from "drizzle-orm";
-import { debtRecords } from "../shared/schema";
+import { storage } from "./storage";
+import { eq, and, inArray } from "drizzle-orm";
+import {
+  debtRecords,
+  debtPayments,
+  getDebtStatus,
+  expenseFormSchema,
+  categoryFormSchema,
+  budgetFormSchema,
+  settingsFormSchema,
+  syncPushSchema,
+  debtFormSchema,
+  debtPaymentSchema,
+  type User,
+  type DebtRow,
+  type DebtPaymentRow,
+  type InsertDebt,
+  type InsertDebtPayment,
+  type ApiDebt,
+} from "../shared/schema";
+
+// Rejects the request unless a user is signed in
+function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated() || !req.user) {
+    return res.status(401).json({ error: "Not authenticated" });
+  }
+  next();
+}
+
+// The synced tables store user ids as text
+function currentUserId(req: Request): string {
+  return String((req.user as User).id);
+}
+
+// Dues & receivables key on the numeric user id
+function currentDebtUserId(req: Request): number {
+  return (req.user as User).id;
+}
+
+// Validates the body against a schema, sending a 400 when it does not match
+function parseBody<T extends z.ZodTypeAny>(schema: T, req: Request, res: Response): z.infer<T> | undefined {
+  const result = schema.safeParse(req.body);
+  if (!result.success) {
+    res.status(400).json({ error: "Invalid request body", details: fromZodError(result.error).message });
+    return undefined;
+  }
+  return result.data;
+}
+
+// Column values shared by debt inserts and updates
+function toDebtValues(debt: InsertDebt) {
+  return {
+    type: debt.type,
+    amount: debt.amount.toString(),
+    purpose: debt.purpose,
+    location: debt.location || null,
+    personName: debt.personName,
+    notes: debt.notes || null,
+    datetime: debt.datetime ? new Date(debt.datetime) : null,
+    status: debt.status,
+    expenseId: debt.expenseId || null,
+    updatedAt: debt.updatedAt ?? new Date(),
+  };
+}
+
+// Debts are addressed by their client id and amounts go out as numbers
+function toApiDebt(row: DebtRow, payments: DebtPaymentRow[] = []): ApiDebt {
+  return {
+    id: row.clientId,
+    type: row.type as ApiDebt['type'],
+    amount: Number(row.amount),
+    purpose: row.purpose,
+    location: row.location,
+    personName: row.personName,
+    notes: row.notes,
+    datetime: row.datetime?.toISOString() ?? null,
+    status: row.status as ApiDebt['status'],
+    expenseId: row.expenseId,
+    createdAt: row.createdAt?.toISOString() ?? null,
+    updatedAt: row.updatedAt.toISOString(),
+    payments: payments
+      .sort((a, b) => a.paidAt.getTime() - b.paidAt.getTime())
+      .map((p) => ({
+        id: p.clientId,
+        amount: Number(p.amount),
+        paidAt: p.paidAt.toISOString(),
+        note: p.note,
+      })),
+  };
+}
+
+function toPaymentValues(debtId: number, payment: InsertDebtPayment) {
+  return {
+    debtId,
+    clientId: payment.id || randomUUID(),
+    amount: payment.amount.toString(),
+    paidAt: payment.paidAt ?? new Date(),
+    note: payment.note || null,
+  };
+}
+
+async function getPayments(debtId: number) {
+  return db.select().from(debtPayments).where(eq(debtPayments.debtId, debtId));
+}
+
+async function replacePayments(debtId: number, payments: InsertDebtPayment[]) {
+  await db.delete(debtPayments).where(eq(debtPayments.debtId, debtId));
+  if (payments.length > 0) {
+    await db.insert(debtPayments).values(payments.map((p) => toPaymentValues(debtId, p)));
+  }
+}
+
+// Recomputes status from the ledger after a single repayment changed
+async function refreshDebtStatus(debt: DebtRow) {
+  const payments = await getPayments(debt.id);
+  const paid = payments.reduce((sum, p) => sum + Number(p.amount), 0);
+  const [updated] = await db.update(debtRecords)
+    .set({ status: getDebtStatus(Number(debt.amount), paid), updatedAt: new Date() })
+    .where(eq(debtRecords.id, debt.id))
+    .returning();
+  return toApiDebt(updated, payments);
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   setupAuth(app);
@@ -39,63 +162,63 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // --- Dues & Receivables Routes ---
-  app.post("/api/debts", async (req, res) => {
-    // Safely grab the user ID, falling back to 1 for local testing
-    const userId = req.isAuthenticated() && req.user ? (req.user as any).id : 1;
+  app.post("/api/debts", requireAuth, async (req, res) => {
+    const userId = currentDebtUserId(req);
+    const debt = parseBody(debtFormSchema, req, res);
+    if (!debt) return;
     
     try {
-      const datetimeValue = req.body.datetime ? new Date(req.body.datetime) : null;
+      const values = toDebtValues(debt);
 
+      // Re-posting a record the device already sent just refreshes it
       const newDebt = await db.insert(debtRecords).values({
+        ...values,
         userId: userId,
-        type: req.body.type,
-        amount: req.body.amount.toString(),
-        purpose: req.body.purpose,
-        location: req.body.location || null,
-        personName: req.body.personName,
-        notes: req.body.notes || null,
-        datetime: datetimeValue,
-      }).returning();
-      
-      res.json(newDebt[0]);
+        clientId: debt.id || randomUUID(),
+        createdAt: debt.createdAt ?? new Date(),
+      })
+      .onConflictDoUpdate({
+        target: [debtRecords.userId, debtRecords.clientId],
+        set: values,
+      })
+      .returning();
+
+      if (debt.payments) await replacePayments(newDebt[0].id, debt.payments);
+      res.json(toApiDebt(newDebt[0], await getPayments(newDebt[0].id)));
     } catch (error: any) {
       console.error("DB Insert Error:", error);
       res.status(500).json({ error: "Failed to create record", details: error.message });
     }
   });
 
-  app.get("/api/debts", async (req, res) => {
-    const userId = req.isAuthenticated() && req.user ? (req.user as any).id : 1;
+  app.get("/api/debts", requireAuth, async (req, res) => {
+    const userId = currentDebtUserId(req);
     
     try {
       const userDebts = await db.select().from(debtRecords).where(eq(debtRecords.userId, userId));
-      res.json(userDebts);
+      const payments = userDebts.length > 0
+        ? await db.select().from(debtPayments).where(inArray(debtPayments.debtId, userDebts.map((d) => d.id)))
+        : [];
+      res.json(userDebts.map((d) => toApiDebt(d, payments.filter((p) => p.debtId === d.id))));
     } catch (error: any) {
       console.error("DB Fetch Error:", error);
       res.status(500).json({ error: "Failed to fetch records", details: error.message });
     }
   });
   // Update / Edit / Settle a record
-  app.put("/api/debts/:id", async (req, res) => {
-    const userId = req.isAuthenticated() && req.user ? (req.user as any).id : 1;
+  app.put("/api/debts/:id", requireAuth, async (req, res) => {
+    const userId = currentDebtUserId(req);
+    const debt = parseBody(debtFormSchema, req, res);
+    if (!debt) return;
     
     try {
-      const datetimeValue = req.body.datetime ? new Date(req.body.datetime) : null;
-
-      const updatedDebt = await db.update(debtRecords).set({
-        type: req.body.type,
-        amount: req.body.amount.toString(),
-        purpose: req.body.purpose,
-        location: req.body.location || null,
-        personName: req.body.personName,
-        notes: req.body.notes || null,
-        datetime: datetimeValue,
-        status: req.body.status || 'pending', // Update status if provided
-      })
-      .where(and(eq(debtRecords.id, parseInt(req.params.id)), eq(debtRecords.userId, userId)))
+      const updatedDebt = await db.update(debtRecords).set(toDebtValues(debt))
+      .where(and(eq(debtRecords.clientId, req.params.id), eq(debtRecords.userId, userId)))
       .returning();
-      
-      res.json(updatedDebt[0]);
+
+      if (!updatedDebt[0]) return res.status(404).json({ error: "Record not found" });
+      if (debt.payments) await replacePayments(updatedDebt[0].id, debt.payments);
+      res.json(toApiDebt(updatedDebt[0], await getPayments(updatedDebt[0].id)));
     } catch (error: any) {
       console.error("DB Update Error:", error);
       res.status(500).json({ error: "Failed to update record", details: error.message });
@@ -103,12 +226,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete a record
-  app.delete("/api/debts/:id", async (req, res) => {
-    const userId = req.isAuthenticated() && req.user ? (req.user as any).id : 1;
+  app.delete("/api/debts/:id", requireAuth, async (req, res) => {
+    const userId = currentDebtUserId(req);
     
     try {
       await db.delete(debtRecords)
-        .where(and(eq(debtRecords.id, parseInt(req.params.id)), eq(debtRecords.userId, userId)));
+        .where(and(eq(debtRecords.clientId, req.params.id), eq(debtRecords.userId, userId)));
       res.json({ success: true });
     } catch (error: any) {
       console.error("DB Delete Error:", error);
@@ -116,6 +239,237 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Record a single repayment against a due/receivable
+  app.post("/api/debts/:id/payments", requireAuth, async (req, res) => {
+    const userId = currentDebtUserId(req);
+    const payment = parseBody(debtPaymentSchema, req, res);
+    if (!payment) return;
+
+    try {
+      const [debt] = await db.select().from(debtRecords)
+        .where(and(eq(debtRecords.clientId, req.params.id), eq(debtRecords.userId, userId)));
+      if (!debt) return res.status(404).json({ error: "Record not found" });
+
+      await db.insert(debtPayments).values(toPaymentValues(debt.id, payment)).onConflictDoNothing();
+      res.json(await refreshDebtStatus(debt));
+    } catch (error: any) {
+      console.error("DB Insert Error:", error);
+      res.status(500).json({ error: "Failed to add payment", details: error.message });
+    }
+  });
+
+  // Remove a single repayment
+  app.delete("/api/debts/:id/payments/:paymentId", requireAuth, async (req, res) => {
+    const userId = currentDebtUserId(req);
+
+    try {
+      const [debt] = await db.select().from(debtRecords)
+        .where(and(eq(debtRecords.clientId, req.params.id), eq(debtRecords.userId, userId)));
+      if (!debt) return res.status(404).json({ error: "Record not found" });
+
+      await db.delete(debtPayments)
+        .where(and(eq(debtPayments.debtId, debt.id), eq(debtPayments.clientId, req.params.paymentId)));
+      res.json(await refreshDebtStatus(debt));
+    } catch (error: any) {
+      console.error("DB Delete Error:", error);
+      res.status(500).json({ error: "Failed to remove payment", details: error.message });
+    }
+  });
+
+  // --- Expenses Routes ---
+  app.get("/api/expenses", requireAuth, async (req, res) => {
+    try {
+      res.json(await storage.getExpenses(currentUserId(req)));
+    } catch (error: any) {
+      console.error("DB Fetch Error:", error);
+      res.status(500).json({ error: "Failed to fetch expenses", details: error.message });
+    }
+  });
+
+  app.post("/api/expenses", requireAuth, async (req, res) => {
+    const expense = parseBody(expenseFormSchema, req, res);
+    if (!expense) return;
+
+    try {
+      res.json(await storage.createExpense(currentUserId(req), expense));
+    } catch (error: any) {
+      console.error("DB Insert Error:", error);
+      res.status(500).json({ error: "Failed to create expense", details: error.message });
+    }
+  });
+
+  app.put("/api/expenses/:id", requireAuth, async (req, res) => {
+    const expense = parseBody(expenseFormSchema, req, res);
+    if (!expense) return;
+
+    try {
+      const updated = await storage.updateExpense(currentUserId(req), req.params.id, expense);
+      if (!updated) return res.status(404).json({ error: "Expense not found" });
+      res.json(updated);
+    } catch (error: any) {
+      console.error("DB Update Error:", error);
+      res.status(500).json({ error: "Failed to update expense", details: error.message });
+    }
+  });
+
+  app.delete("/api/expenses/:id", requireAuth, async (req, res) => {
+    try {
+      const deleted = await storage.deleteExpense(currentUserId(req), req.params.id);
+      if (!deleted) return res.status(404).json({ error: "Expense not found" });
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("DB Delete Error:", error);
+      res.status(500).json({ error: "Failed to delete expense", details: error.message });
+    }
+  });
+
+  // --- Categories Routes ---
+  app.get("/api/categories", requireAuth, async (req, res) => {
+    try {
+      res.json(await storage.getCategories(currentUserId(req)));
+    } catch (error: any) {
+      console.error("DB Fetch Error:", error);
+      res.status(500).json({ error: "Failed to fetch categories", details: error.message });
+    }
+  });
+
+  app.post("/api/categories", requireAuth, async (req, res) => {
+    const category = parseBody(categoryFormSchema, req, res);
+    if (!category) return;
+
+    try {
+      res.json(await storage.createCategory(currentUserId(req), category));
+    } catch (error: any) {
+      console.error("DB Insert Error:", error);
+      res.status(500).json({ error: "Failed to create category", details: error.message });
+    }
+  });
+
+  app.put("/api/categories/:id", requireAuth, async (req, res) => {
+    const category = parseBody(categoryFormSchema, req, res);
+    if (!category) return;
+
+    try {
+      const updated = await storage.updateCategory(currentUserId(req), req.params.id, category);
+      if (!updated) return res.status(404).json({ error: "Category not found" });
+      res.json(updated);
+    } catch (error: any) {
+      console.error("DB Update Error:", error);
+      res.status(500).json({ error: "Failed to update category", details: error.message });
+    }
+  });
+
+  app.delete("/api/categories/:id", requireAuth, async (req, res) => {
+    try {
+      const deleted = await storage.deleteCategory(currentUserId(req), req.params.id);
+      if (!deleted) return res.status(404).json({ error: "Category not found" });
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("DB Delete Error:", error);
+      res.status(500).json({ error: "Failed to delete category", details: error.message });
+    }
+  });
+
+  // --- Budgets Routes ---
+  app.get("/api/budgets", requireAuth, async (req, res) => {
+    try {
+      res.json(await storage.getBudgets(currentUserId(req)));
+    } catch (error: any) {
+      console.error("DB Fetch Error:", error);
+      res.status(500).json({ error: "Failed to fetch budgets", details: error.message });
+    }
+  });
+
+  app.post("/api/budgets", requireAuth, async (req, res) => {
+    const budget = parseBody(budgetFormSchema, req, res);
+    if (!budget) return;
+
+    try {
+      res.json(await storage.createBudget(currentUserId(req), budget));
+    } catch (error: any) {
+      console.error("DB Insert Error:", error);
+      res.status(500).json({ error: "Failed to create budget", details: error.message });
+    }
+  });
+
+  app.put("/api/budgets/:id", requireAuth, async (req, res) => {
+    const budget = parseBody(budgetFormSchema, req, res);
+    if (!budget) return;
+
+    try {
+      const updated = await storage.updateBudget(currentUserId(req), req.params.id, budget);
+      if (!updated) return res.status(404).json({ error: "Budget not found" });
+      res.json(updated);
+    } catch (error: any) {
+      console.error("DB Update Error:", error);
+      res.status(500).json({ error: "Failed to update budget", details: error.message });
+    }
+  });
+
+  app.delete("/api/budgets/:id", requireAuth, async (req, res) => {
+    try {
+      const deleted = await storage.deleteBudget(currentUserId(req), req.params.id);
+      if (!deleted) return res.status(404).json({ error: "Budget not found" });
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("DB Delete Error:", error);
+      res.status(500).json({ error: "Failed to delete budget", details: error.message });
+    }
+  });
+
+  // --- Settings Routes ---
+  app.get("/api/settings", requireAuth, async (req, res) => {
+    try {
+      const userSettings = await storage.getSettings(currentUserId(req));
+      if (!userSettings) return res.status(404).json({ error: "Settings not found" });
+      res.json(userSettings);
+    } catch (error: any) {
+      console.error("DB Fetch Error:", error);
+      res.status(500).json({ error: "Failed to fetch settings", details: error.message });
+    }
+  });
+
+  app.put("/api/settings", requireAuth, async (req, res) => {
+    const values = parseBody(settingsFormSchema, req, res);
+    if (!values) return;
+
+    try {
+      res.json(await storage.saveSettings(currentUserId(req), values));
+    } catch (error: any) {
+      console.error("DB Upsert Error:", error);
+      res.status(500).json({ error: "Failed to save settings", details: error.message });
+    }
+  });
+
+  // --- Sync Routes ---
+  // Pull everything that reached the server after the client's last pull
+  app.get("/api/sync", requireAuth, async (req, res) => {
+    const since = req.query.since ? new Date(String(req.query.since)) : new Date(0);
+    if (isNaN(since.getTime())) {
+      return res.status(400).json({ error: "Invalid 'since' timestamp" });
+    }
+
+    try {
+      res.json(await storage.getChangesSince(currentUserId(req), since));
+    } catch (error: any) {
+      console.error("Sync Pull Error:", error);
+      res.status(500).json({ error: "Failed to pull changes", details: error.message });
+    }
+  });
+
+  // Push local changes; conflicts are resolved per record on updatedAt
+  app.post("/api/sync", requireAuth, async (req, res) => {
+    const changes = parseBody(syncPushSchema, req, res);
+    if (!changes) return;
+
+    try {
+      res.json(await storage.applyChanges(currentUserId(req), changes));
+    } catch (error: any) {
+      console.error("Sync Push Error:", error);
+      res.status(500).json({ error: "Failed to push changes", details: error.message });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -36,14 +36,55 @@
 // }
 
 // export const storage = new MemStorage();
-import { users, type User, type InsertUser } from "../shared/schema";
+import { randomUUID } from "crypto";
+import {
+  users, expenses, categories, budgets, settings, accounts, syncTombstones,
+  syncRecordSchemas, syncDeletionSchema,
+  type User, type InsertUser,
+  type ExpenseRow, type InsertExpense,
+  type Category, type CategoryFormValues,
+  type BudgetRow, type InsertBudget,
+  type SettingsRow, type InsertSettings,
+  type SyncTable, type SyncPush, type SyncPushResult, type SyncPullResult,
+} from "../shared/schema";
 import { db } from "./db";
-import { eq } from "drizzle-orm";
+import { eq, and, gt, lt, lte, getTableColumns, type Table } from "drizzle-orm";
+
+// Devices send records as JSON, which drops fields that were cleared. Every
+// optional column the record leaves out is written as null so the clear syncs.
+function withClearedFields<T extends Record<string, unknown>>(table: Table, row: T): T {
+  const full: Record<string, unknown> = { ...row };
+  for (const [key, column] of Object.entries(getTableColumns(table))) {
+    if (!column.notNull && full[key] === undefined) full[key] = null;
+  }
+  return full as T;
+}
 
 export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByGoogleId(googleId: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+
+  getExpenses(userId: string): Promise<ExpenseRow[]>;
+  createExpense(userId: string, expense: InsertExpense): Promise<ExpenseRow>;
+  updateExpense(userId: string, id: string, expense: InsertExpense): Promise<ExpenseRow | undefined>;
+  deleteExpense(userId: string, id: string): Promise<boolean>;
+
+  getCategories(userId: string): Promise<Category[]>;
+  createCategory(userId: string, category: CategoryFormValues): Promise<Category>;
+  updateCategory(userId: string, id: string, category: CategoryFormValues): Promise<Category | undefined>;
+  deleteCategory(userId: string, id: string): Promise<boolean>;
+
+  getBudgets(userId: string): Promise<BudgetRow[]>;
+  createBudget(userId: string, budget: InsertBudget): Promise<BudgetRow>;
+  updateBudget(userId: string, id: string, budget: InsertBudget): Promise<BudgetRow | undefined>;
+  deleteBudget(userId: string, id: string): Promise<boolean>;
+
+  getSettings(userId: string): Promise<SettingsRow | undefined>;
+  saveSettings(userId: string, values: InsertSettings): Promise<SettingsRow>;
+
+  getChangesSince(userId: string, since: Date): Promise<SyncPullResult>;
+  applyChanges(userId: string, changes: SyncPush): Promise<SyncPushResult>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -61,6 +102,277 @@ export class DatabaseStorage implements IStorage {
     const [user] = await db.insert(users).values(insertUser).returning();
     return user;
   }
+
+  // --- Expenses ---
+  async getExpenses(userId: string): Promise<ExpenseRow[]> {
+    return db.select().from(expenses).where(eq(expenses.userId, userId));
+  }
+
+  async createExpense(userId: string, expense: InsertExpense): Promise<ExpenseRow> {
+    // Attachments only live on the device, there is no column for them yet
+    const { id, attachments, ...fields } = expense;
+    const [row] = await db.insert(expenses)
+      .values({ ...fields, id: id || randomUUID(), userId })
+      .returning();
+    return row;
+  }
+
+  async updateExpense(userId: string, id: string, expense: InsertExpense): Promise<ExpenseRow | undefined> {
+    const { id: _id, attachments, ...fields } = expense;
+    const [row] = await db.update(expenses)
+      .set({ ...fields, updatedAt: new Date(), syncedAt: new Date() })
+      .where(and(eq(expenses.id, id), eq(expenses.userId, userId)))
+      .returning();
+    return row;
+  }
+
+  async deleteExpense(userId: string, id: string): Promise<boolean> {
+    const deleted = await db.delete(expenses)
+      .where(and(eq(expenses.id, id), eq(expenses.userId, userId)))
+      .returning({ id: expenses.id });
+    if (deleted.length > 0) await this.recordTombstone(userId, 'expenses', id, new Date());
+    return deleted.length > 0;
+  }
+
+  // --- Categories ---
+  async getCategories(userId: string): Promise<Category[]> {
+    return db.select().from(categories).where(eq(categories.userId, userId));
+  }
+
+  async createCategory(userId: string, category: CategoryFormValues): Promise<Category> {
+    const { id, ...fields } = category;
+    const [row] = await db.insert(categories)
+      .values({ ...fields, id: id || randomUUID(), userId })
+      .returning();
+    return row;
+  }
+
+  async updateCategory(userId: string, id: string, category: CategoryFormValues): Promise<Category | undefined> {
+    const { id: _id, ...fields } = category;
+    const [row] = await db.update(categories)
+      .set({ ...fields, updatedAt: new Date(), syncedAt: new Date() })
+      .where(and(eq(categories.id, id), eq(categories.userId, userId)))
+      .returning();
+    return row;
+  }
+
+  async deleteCategory(userId: string, id: string): Promise<boolean> {
+    const deleted = await db.delete(categories)
+      .where(and(eq(categories.id, id), eq(categories.userId, userId)))
+      .returning({ id: categories.id });
+    if (deleted.length > 0) await this.recordTombstone(userId, 'categories', id, new Date());
+    return deleted.length > 0;
+  }
+
+  // --- Budgets ---
+  async getBudgets(userId: string): Promise<BudgetRow[]> {
+    return db.select().from(budgets).where(eq(budgets.userId, userId));
+  }
+
+  async createBudget(userId: string, budget: InsertBudget): Promise<BudgetRow> {
+    const { id, ...fields } = budget;
+    const [row] = await db.insert(budgets)
+      .values({ ...fields, id: id || randomUUID(), userId })
+      .returning();
+    return row;
+  }
+
+  async updateBudget(userId: string, id: string, budget: InsertBudget): Promise<BudgetRow | undefined> {
+    const { id: _id, ...fields } = budget;
+    const [row] = await db.update(budgets)
+      .set({ ...fields, updatedAt: new Date(), syncedAt: new Date() })
+      .where(and(eq(budgets.id, id), eq(budgets.userId, userId)))
+      .returning();
+    return row;
+  }
+
+  async deleteBudget(userId: string, id: string): Promise<boolean> {
+    const deleted = await db.delete(budgets)
+      .where(and(eq(budgets.id, id), eq(budgets.userId, userId)))
+      .returning({ id: budgets.id });
+    if (deleted.length > 0) await this.recordTombstone(userId, 'budgets', id, new Date());
+    return deleted.length > 0;
+  }
+
+  // --- Settings (one 'default' row per user, mirroring Dexie) ---
+  async getSettings(userId: string): Promise<SettingsRow | undefined> {
+    const [row] = await db.select().from(settings)
+      .where(and(eq(settings.id, 'default'), eq(settings.userId, userId)));
+    return row;
+  }
+
+  async saveSettings(userId: string, values: InsertSettings): Promise<SettingsRow> {
+    const [row] = await db.insert(settings)
+      .values({ ...values, id: 'default', userId })
+      .onConflictDoUpdate({
+        target: [settings.userId, settings.id],
+        set: { ...values, updatedAt: new Date(), syncedAt: new Date() },
+      })
+      .returning();
+    return row;
+  }
+
+  // --- Sync ---
+  async getChangesSince(userId: string, since: Date): Promise<SyncPullResult> {
+    // Taken before reading so writes landing mid-pull are picked up next time
+    const serverTime = new Date();
+
+    const [expenseRows, categoryRows, budgetRows, settingsRows, accountRows, tombstones] = await Promise.all([
+      db.select().from(expenses).where(and(eq(expenses.userId, userId), gt(expenses.syncedAt, since))),
+      db.select().from(categories).where(and(eq(categories.userId, userId), gt(categories.syncedAt, since))),
+      db.select().from(budgets).where(and(eq(budgets.userId, userId), gt(budgets.syncedAt, since))),
+      db.select().from(settings).where(and(eq(settings.userId, userId), gt(settings.syncedAt, since))),
+      db.select().from(accounts).where(and(eq(accounts.userId, userId), gt(accounts.syncedAt, since))),
+      db.select().from(syncTombstones).where(and(eq(syncTombstones.userId, userId), gt(syncTombstones.syncedAt, since))),
+    ]);
+
+    return {
+      serverTime: serverTime.toISOString(),
+      expenses: expenseRows,
+      categories: categoryRows,
+      budgets: budgetRows,
+      settings: settingsRows,
+      accounts: accountRows,
+      deletions: tombstones.map((t) => ({
+        table: t.tableName as SyncTable,
+        id: t.recordId,
+        deletedAt: t.deletedAt,
+      })),
+    };
+  }
+
+  async applyChanges(userId: string, changes: SyncPush): Promise<SyncPushResult> {
+    const result: SyncPushResult = { accepted: 0, skipped: 0, rejected: [] };
+    const syncedAt = new Date();
+
+    // Every upsert only overwrites a row that belongs to this user and is older
+    // than the incoming copy, so the most recent edit wins on every device.
+    // A write the condition turned down returns no row and counts as skipped.
+    for (const raw of changes.expenses) {
+      const parsed = syncRecordSchemas.expenses.safeParse(raw);
+      if (!parsed.success) {
+        result.rejected.push({ table: 'expenses', id: (raw as any)?.id, reason: parsed.error.message });
+        continue;
+      }
+      const { attachments, ...fields } = parsed.data;
+      const row = { ...fields, userId, syncedAt };
+      const written = await db.insert(expenses).values(row).onConflictDoUpdate({
+        target: [expenses.userId, expenses.id],
+        set: withClearedFields(expenses, row),
+        setWhere: lt(expenses.updatedAt, row.updatedAt),
+      }).returning({ id: expenses.id });
+      this.countWrite(result, written.length);
+    }
+
+    for (const raw of changes.categories) {
+      const parsed = syncRecordSchemas.categories.safeParse(raw);
+      if (!parsed.success) {
+        result.rejected.push({ table: 'categories', id: (raw as any)?.id, reason: parsed.error.message });
+        continue;
+      }
+      const row = { ...parsed.data, userId, syncedAt };
+      const written = await db.insert(categories).values(row).onConflictDoUpdate({
+        target: [categories.userId, categories.id],
+        set: withClearedFields(categories, row),
+        setWhere: lt(categories.updatedAt, row.updatedAt),
+      }).returning({ id: categories.id });
+      this.countWrite(result, written.length);
+    }
+
+    for (const raw of changes.budgets) {
+      const parsed = syncRecordSchemas.budgets.safeParse(raw);
+      if (!parsed.success) {
+        result.rejected.push({ table: 'budgets', id: (raw as any)?.id, reason: parsed.error.message });
+        continue;
+      }
+      const row = { ...parsed.data, userId, syncedAt };
+      const written = await db.insert(budgets).values(row).onConflictDoUpdate({
+        target: [budgets.userId, budgets.id],
+        set: withClearedFields(budgets, row),
+        setWhere: lt(budgets.updatedAt, row.updatedAt),
+      }).returning({ id: budgets.id });
+      this.countWrite(result, written.length);
+    }
+
+    for (const raw of changes.settings) {
+      const parsed = syncRecordSchemas.settings.safeParse(raw);
+      if (!parsed.success) {
+        result.rejected.push({ table: 'settings', id: (raw as any)?.id, reason: parsed.error.message });
+        continue;
+      }
+      const row = { ...parsed.data, userId, syncedAt };
+      const written = await db.insert(settings).values(row).onConflictDoUpdate({
+        target: [settings.userId, settings.id],
+        set: withClearedFields(settings, row),
+        setWhere: lt(settings.updatedAt, row.updatedAt),
+      }).returning({ id: settings.id });
+      this.countWrite(result, written.length);
+    }
+
+    for (const raw of changes.accounts) {
+      const parsed = syncRecordSchemas.accounts.safeParse(raw);
+      if (!parsed.success) {
+        result.rejected.push({ table: 'accounts', id: (raw as any)?.id, reason: parsed.error.message });
+        continue;
+      }
+      const row = { ...parsed.data, userId, syncedAt };
+      const written = await db.insert(accounts).values(row).onConflictDoUpdate({
+        target: [accounts.userId, accounts.id],
+        set: withClearedFields(accounts, row),
+        setWhere: lt(accounts.updatedAt, row.updatedAt),
+      }).returning({ id: accounts.id });
+      this.countWrite(result, written.length);
+    }
+
+    for (const raw of changes.deletions) {
+      const parsed = syncDeletionSchema.safeParse(raw);
+      if (!parsed.success) {
+        result.rejected.push({ table: 'deletions', id: (raw as any)?.id, reason: parsed.error.message });
+        continue;
+      }
+      const { table, id, deletedAt } = parsed.data;
+      await this.deleteIfNotNewer(userId, table, id, deletedAt);
+      await this.recordTombstone(userId, table, id, deletedAt);
+      result.accepted++;
+    }
+
+    return result;
+  }
+
+  private countWrite(result: SyncPushResult, written: number) {
+    if (written > 0) result.accepted++;
+    else result.skipped++;
+  }
+
+  // A record edited after it was deleted elsewhere survives the deletion
+  private async deleteIfNotNewer(userId: string, table: SyncTable, id: string, deletedAt: Date) {
+    switch (table) {
+      case 'expenses':
+        await db.delete(expenses).where(and(eq(expenses.id, id), eq(expenses.userId, userId), lte(expenses.updatedAt, deletedAt)));
+        break;
+      case 'categories':
+        await db.delete(categories).where(and(eq(categories.id, id), eq(categories.userId, userId), lte(categories.updatedAt, deletedAt)));
+        break;
+      case 'budgets':
+        await db.delete(budgets).where(and(eq(budgets.id, id), eq(budgets.userId, userId), lte(budgets.updatedAt, deletedAt)));
+        break;
+      case 'settings':
+        await db.delete(settings).where(and(eq(settings.id, id), eq(settings.userId, userId), lte(settings.updatedAt, deletedAt)));
+        break;
+      case 'accounts':
+        await db.delete(accounts).where(and(eq(accounts.id, id), eq(accounts.userId, userId), lte(accounts.updatedAt, deletedAt)));
+        break;
+    }
+  }
+
+  private async recordTombstone(userId: string, table: SyncTable, id: string, deletedAt: Date) {
+    await db.insert(syncTombstones)
+      .values({ userId, tableName: table, recordId: id, deletedAt })
+      .onConflictDoUpdate({
+        target: [syncTombstones.userId, syncTombstones.tableName, syncTombstones.recordId],
+        set: { deletedAt, syncedAt: new Date() },
+      });
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -1,7 +1,9 @@
 import { z } from 'zod';
-import { pgTable, text, serial, timestamp, boolean, real, varchar, numeric, integer } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+import { pgTable, text, serial, timestamp, boolean, real, varchar, numeric, integer, jsonb, primaryKey, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
-export type Category = typeof categories.$inferSelect;
+// syncedAt is server-side bookkeeping, devices never store it
+export type Category = Omit<typeof categories.$inferSelect, 'syncedAt' | 'type'> & { type?: CategoryType | null };
 export type InsertCategory = typeof categories.$inferInsert;
 
 // ============================================================================
@@ -10,6 +12,8 @@ export type InsertCategory = typeof categories.$inferInsert;
 
 export const debtRecords = pgTable('debt_records', {
   id: serial('id').primaryKey(),
+  // Id shared with the device copy in Dexie; the API addresses records by it
+  clientId: text('client_id').notNull().default(sql`gen_random_uuid()::text`),
   userId: integer('user_id').notNull(), 
   type: text('type').notNull(),
   amount: numeric('amount').notNull(),
@@ -19,8 +23,21 @@ export const debtRecords = pgTable('debt_records', {
   notes: text('notes'),
   datetime: timestamp('datetime'),
   status: text('status').default('pending').notNull(), 
-  createdAt: timestamp('created_at').defaultNow()
-});
+  expenseId: text('expense_id'), // Set on receivables generated by splitting an expense
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [unique('debt_records_user_client_id').on(table.userId, table.clientId)]);
+
+// Individual repayments against a due/receivable
+export const debtPayments = pgTable('debt_payments', {
+  id: serial('id').primaryKey(),
+  clientId: text('client_id').notNull().default(sql`gen_random_uuid()::text`),
+  debtId: integer('debt_id').notNull().references(() => debtRecords.id, { onDelete: 'cascade' }),
+  amount: numeric('amount').notNull(),
+  paidAt: timestamp('paid_at').defaultNow().notNull(),
+  note: text('note'),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => [unique('debt_payments_debt_client_id').on(table.debtId, table.clientId)]);
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -31,10 +48,15 @@ export const users = pgTable("users", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Statement imports derive expense ids from the row's contents, so two people
+// importing the same joint-account statement share ids: unique per user only.
 export const expenses = pgTable("expenses", {
-  id: text("id").primaryKey(), 
+  id: text("id").notNull(),
   userId: text("user_id").notNull(),
+  type: text("type").$type<TransactionType>(), // Older rows have none and are expenses
   amount: real("amount").notNull(),
+  currency: text("currency"),
+  exchangeRate: real("exchange_rate"),
   date: text("date").notNull(),
   time: text("time").notNull(),
   category: text("category").notNull(),
@@ -43,44 +65,93 @@ export const expenses = pgTable("expenses", {
   note: text("note"),
   paymentMethod: text("payment_method").notNull(),
   account: text("account").notNull(),
+  toAccount: text("to_account"),
   isRecurring: boolean("is_recurring").default(false),
+  recurrence: jsonb("recurrence").$type<Recurrence>(),
+  recurringSourceId: text("recurring_source_id"),
+  split: jsonb("split").$type<ExpenseSplit>(),
   isTemplate: boolean("is_template").default(false),
+  templateName: text("template_name"),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  syncedAt: timestamp("synced_at").defaultNow().notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [primaryKey({ columns: [table.userId, table.id] })]);
 
+// Category and settings ids are shared across users ('groceries', 'default'),
+// so they are only unique per user.
 export const categories = pgTable("categories", {
-  id: text("id").primaryKey(),
+  id: text("id").notNull(),
   userId: text("user_id").notNull(),
   name: text("name").notNull(),
   icon: text("icon").notNull(),
   color: text("color").notNull(),
+  type: text("type").$type<CategoryType>(), // Which kind of transaction it is for; none means 'expense'
   isDefault: boolean("is_default").default(false),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+  syncedAt: timestamp("synced_at").defaultNow().notNull(),
+}, (table) => [primaryKey({ columns: [table.userId, table.id] })]);
+
+export const accounts = pgTable("accounts", {
+  id: text("id").notNull(),
+  userId: text("user_id").notNull(),
+  name: text("name").notNull(),
+  type: text("type").$type<AccountType>().notNull(),
+  openingBalance: real("opening_balance").default(0).notNull(),
+  statementDay: integer("statement_day"),
+  dueDay: integer("due_day"),
+  creditLimit: real("credit_limit"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  syncedAt: timestamp("synced_at").defaultNow().notNull(),
+}, (table) => [primaryKey({ columns: [table.userId, table.id] })]);
 
+// Unique per user, like the other synced tables: a backup restored into a
+// second account brings its budget ids along
 export const budgets = pgTable("budgets", {
-  id: text("id").primaryKey(),
+  id: text("id").notNull(),
   userId: text("user_id").notNull(),
   name: text("name").notNull(),
   amount: real("amount").notNull(),
+  scope: text("scope").default("category"),
   category: text("category").notNull(),
+  categories: jsonb("categories").$type<string[]>(),
+  accounts: jsonb("accounts").$type<string[]>(),
+  paymentMethods: jsonb("payment_methods").$type<string[]>(),
   period: text("period").notNull(),
+  cycleDays: integer("cycle_days"),
   startDate: text("start_date").notNull(),
   isActive: boolean("is_active").default(true),
+  rollover: boolean("rollover").default(false),
+  adjustments: jsonb("adjustments").$type<BudgetAdjustment[]>(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+  syncedAt: timestamp("synced_at").defaultNow().notNull(),
+}, (table) => [primaryKey({ columns: [table.userId, table.id] })]);
 
 export const settings = pgTable("settings", {
-  id: text("id").primaryKey(),
+  id: text("id").notNull(),
   userId: text("user_id").notNull(),
   currency: text("currency").notNull(),
+  baseCurrency: text("base_currency"),
   theme: text("theme").notNull(),
   language: text("language").notNull(),
   notifications: boolean("notifications").default(true),
   budgetAlerts: boolean("budget_alerts").default(true),
+  budgetAlertThresholds: jsonb("budget_alert_thresholds").$type<number[]>(),
+  autoBackup: text("auto_backup"),
+  autoBackupRetention: integer("auto_backup_retention"),
+  trashRetentionDays: integer("trash_retention_days"),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+  syncedAt: timestamp("synced_at").defaultNow().notNull(),
+}, (table) => [primaryKey({ columns: [table.userId, table.id] })]);
+
+// Records deletions so other devices can drop them on their next sync
+export const syncTombstones = pgTable("sync_tombstones", {
+  userId: text("user_id").notNull(),
+  tableName: text("table_name").notNull(),
+  recordId: text("record_id").notNull(),
+  deletedAt: timestamp("deleted_at").notNull(),
+  syncedAt: timestamp("synced_at").defaultNow().notNull(),
+}, (table) => [primaryKey({ columns: [table.userId, table.tableName, table.recordId] })]);
 
 // ============================================================================
 // Types & Zod Schemas
@@ -89,9 +160,63 @@ export const settings = pgTable("settings", {
 export type User = typeof users.$inferSelect;
 export type InsertUser = typeof users.$inferInsert;
 
+export type ExpenseRow = typeof expenses.$inferSelect;
+export type BudgetRow = typeof budgets.$inferSelect;
+export type AccountRow = typeof accounts.$inferSelect;
+export type SettingsRow = typeof settings.$inferSelect;
+export type SyncTombstone = typeof syncTombstones.$inferSelect;
+export type DebtRow = typeof debtRecords.$inferSelect;
+export type DebtPaymentRow = typeof debtPayments.$inferSelect;
+
+export const RECURRENCE_FREQUENCIES = ['daily', 'weekly', 'monthly', 'yearly', 'custom'] as const;
+export type RecurrenceFrequency = typeof RECURRENCE_FREQUENCIES[number];
+
+export const recurrenceSchema = z.object({
+  frequency: z.enum(RECURRENCE_FREQUENCIES),
+  interval: z.coerce.number().int().positive().default(1), // Every N days, for custom rules
+  dayOfMonth: z.coerce.number().int().min(1).max(31).optional(), // Monthly rules, clamped to short months
+  endDate: z.string().optional(),
+  lastGenerated: z.string().optional(), // Date of the last occurrence written to expenses
+});
+
+export type Recurrence = z.infer<typeof recurrenceSchema>;
+
+// How a shared bill is divided: equally, by shares (2:1:1) or by exact amounts
+export const SPLIT_METHODS = ['equal', 'shares', 'exact'] as const;
+export type SplitMethod = typeof SPLIT_METHODS[number];
+
+export const splitParticipantSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  value: z.coerce.number().nonnegative().optional(), // Shares, or the exact amount, depending on the method
+  amount: z.coerce.number().nonnegative(), // What they owe, in the expense's currency
+  debtUuid: z.string().optional(), // The receivable raised for them
+});
+
+export const splitSchema = z.object({
+  method: z.enum(SPLIT_METHODS),
+  total: z.coerce.number().positive(), // The whole bill; the expense amount is only your share
+  myValue: z.coerce.number().nonnegative().optional(), // Your shares or exact amount
+  people: z.array(splitParticipantSchema).min(1),
+});
+
+export type SplitParticipant = z.infer<typeof splitParticipantSchema>;
+export type ExpenseSplit = z.infer<typeof splitSchema>;
+
+// Expenses, income and transfers share one table; records without a type are expenses
+export const TRANSACTION_TYPES = ['expense', 'income', 'transfer'] as const;
+export type TransactionType = typeof TRANSACTION_TYPES[number];
+
+// Transfers only move money between accounts, so they have no categories
+export const CATEGORY_TYPES = ['expense', 'income'] as const;
+export type CategoryType = typeof CATEGORY_TYPES[number];
+
 export const expenseFormSchema = z.object({
   id: z.string().optional(),
+  type: z.enum(TRANSACTION_TYPES).optional(),
   amount: z.coerce.number().positive('Amount must be positive'),
+  // ISO code and the rate to the base currency, only when paid in another currency
+  currency: z.string().regex(/^[A-Z]{3}$/, 'Use a 3-letter currency code').optional(),
+  exchangeRate: z.coerce.number().positive('Rate must be positive').optional(),
   date: z.string().min(1, 'Date is required'),
   time: z.string().min(1, 'Time is required'),
   category: z.string().min(1, 'Category is required'),
@@ -102,10 +227,235 @@ export const expenseFormSchema = z.object({
   // CHANGED: These are now flexible strings instead of strict enums
   paymentMethod: z.string().min(1, 'Payment method is required'),
   account: z.string().min(1, 'Account is required'),
+  toAccount: z.string().optional(), // Where a transfer goes; `account` is where it comes from
   
   isRecurring: z.boolean().default(false),
+  recurrence: recurrenceSchema.optional(),
+  recurringSourceId: z.string().optional(), // Set on occurrences generated from a recurring expense
+  split: splitSchema.optional(), // Set when others owe you part of what you paid
   isTemplate: z.boolean().default(false),
+  templateName: z.string().optional(), // Templates are kept alongside expenses but never counted
+  // Legacy inline data URLs. The app now keeps files in its own attachments table.
   attachments: z.array(z.string()).optional(),
 });
 
-export type Expense = z.infer<typeof expenseFormSchema> & { id: string; createdAt: string; updatedAt: string };
\ No newline at end of file
+export type Expense = z.infer<typeof expenseFormSchema> & { id: string; createdAt: string; updatedAt: string };
+
+export type InsertExpense = z.infer<typeof expenseFormSchema>;
+
+export const categoryFormSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().min(1, 'Name is required'),
+  icon: z.string().min(1, 'Icon is required'),
+  color: z.string().min(1, 'Color is required'),
+  type: z.enum(CATEGORY_TYPES).default('expense'),
+  isDefault: z.boolean().default(false),
+});
+
+export type CategoryFormValues = z.infer<typeof categoryFormSchema>;
+
+// Credit card balances run negative: they are what is owed on the card
+export const ACCOUNT_TYPES = ['bank', 'wallet', 'credit_card', 'cash'] as const;
+export type AccountType = typeof ACCOUNT_TYPES[number];
+
+// Transactions point at accounts by name, so renaming one rewrites them
+export const accountFormSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().trim().min(1, 'Name is required'),
+  type: z.enum(ACCOUNT_TYPES),
+  openingBalance: z.coerce.number().default(0),
+  // Credit cards only: each cycle closes on statementDay and is due on dueDay
+  statementDay: z.coerce.number().int().min(1).max(31).optional(),
+  dueDay: z.coerce.number().int().min(1).max(31).optional(),
+  creditLimit: z.coerce.number().positive('Limit must be positive').optional(),
+});
+
+export type InsertAccount = z.infer<typeof accountFormSchema>;
+export type Account = InsertAccount & { id: string; createdAt: string; updatedAt: string };
+
+export const BUDGET_PERIODS = ['weekly', 'biweekly', 'monthly', 'yearly', 'custom'] as const;
+export type BudgetPeriod = typeof BUDGET_PERIODS[number];
+
+// Envelope moves: money shifted into (positive) or out of (negative) one
+// period of a budget. A move between two budgets writes one entry on each.
+export const budgetAdjustmentSchema = z.object({
+  id: z.string(),
+  periodStart: z.string(),
+  amount: z.number(),
+  note: z.string().optional(),
+  createdAt: z.string(),
+});
+
+export type BudgetAdjustment = z.infer<typeof budgetAdjustmentSchema>;
+
+// What a budget counts: one category, a set of categories, or all spending
+export const BUDGET_SCOPES = ['category', 'categories', 'all'] as const;
+export type BudgetScope = typeof BUDGET_SCOPES[number];
+
+export const budgetFormSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().min(1, 'Budget name is required'),
+  amount: z.coerce.number().positive('Amount must be positive'),
+  scope: z.enum(BUDGET_SCOPES).default('category'),
+  category: z.string(), // Used by the 'category' scope, empty otherwise
+  categories: z.array(z.string()).optional(), // Used by the 'categories' scope
+  // Optional filters on top of the scope; empty means any
+  accounts: z.array(z.string()).optional(),
+  paymentMethods: z.array(z.string()).optional(),
+  period: z.enum(BUDGET_PERIODS),
+  // Length of a 'custom' period in days, counted from startDate
+  cycleDays: z.coerce.number().int().positive().optional(),
+  startDate: z.string().min(1, 'Start date is required'),
+  isActive: z.boolean().default(true),
+  // Carry the unspent (or overspent) balance into the next period
+  rollover: z.boolean().default(false),
+  adjustments: z.array(budgetAdjustmentSchema).optional(),
+});
+
+export type InsertBudget = z.infer<typeof budgetFormSchema>;
+export type Budget = InsertBudget & { id: string; createdAt: string; updatedAt: string };
+
+export const AUTO_BACKUP_FREQUENCIES = ['off', 'daily', 'weekly'] as const;
+export type AutoBackupFrequency = typeof AUTO_BACKUP_FREQUENCIES[number];
+
+export const settingsFormSchema = z.object({
+  currency: z.string().min(1, 'Currency is required'), // Display symbol
+  baseCurrency: z.string().regex(/^[A-Z]{3}$/).optional(), // ISO code totals are converted to
+  theme: z.string().min(1, 'Theme is required'),
+  language: z.string().min(1, 'Language is required'),
+  notifications: z.boolean().default(true),
+  budgetAlerts: z.boolean().default(true),
+  // Percent-of-budget marks that raise an alert, e.g. [50, 80, 100]
+  budgetAlertThresholds: z.array(z.number().int().min(1).max(500)).default([50, 80, 100]),
+  // Local snapshots of all data (see client/src/lib/snapshots.ts)
+  autoBackup: z.enum(AUTO_BACKUP_FREQUENCIES).default('daily'),
+  autoBackupRetention: z.number().int().min(1).max(60).default(7),
+  // Deleted items stay in the trash this long before being purged
+  trashRetentionDays: z.number().int().min(1).max(365).default(30),
+});
+
+export type InsertSettings = z.infer<typeof settingsFormSchema>;
+export type Settings = InsertSettings & { id: string; updatedAt?: string };
+
+// ============================================================================
+// Dues & Receivables
+// ============================================================================
+
+export const DEBT_STATUSES = ['pending', 'partially_settled', 'settled'] as const;
+export type DebtStatus = typeof DEBT_STATUSES[number];
+
+export const debtPaymentSchema = z.object({
+  id: z.string().optional(), // The shared client id
+  amount: z.coerce.number().positive('Amount must be positive'),
+  paidAt: z.coerce.date().optional(),
+  note: z.string().nullish(),
+});
+
+export type InsertDebtPayment = z.infer<typeof debtPaymentSchema>;
+
+export const debtFormSchema = z.object({
+  id: z.string().optional(), // The shared client id, not the serial key
+  type: z.enum(['due', 'receivable']),
+  amount: z.coerce.number().positive('Amount must be positive'),
+  purpose: z.string().min(1, 'Purpose is required'),
+  location: z.string().nullish(),
+  personName: z.string().min(1, 'Person name is required'),
+  notes: z.string().nullish(),
+  datetime: z.string().nullish(),
+  status: z.enum(DEBT_STATUSES).default('pending'),
+  expenseId: z.string().nullish(),
+  createdAt: z.coerce.date().optional(),
+  updatedAt: z.coerce.date().optional(),
+  // When present, replaces the record's whole payment ledger
+  payments: z.array(debtPaymentSchema).optional(),
+});
+
+export type InsertDebt = z.infer<typeof debtFormSchema>;
+
+export interface ApiDebtPayment {
+  id: string;
+  amount: number;
+  paidAt: string;
+  note: string | null;
+}
+
+// What /api/debts sends back: ids and amounts in the same shape the device uses
+export interface ApiDebt {
+  id: string;
+  type: 'due' | 'receivable';
+  amount: number;
+  purpose: string;
+  location: string | null;
+  personName: string;
+  notes: string | null;
+  datetime: string | null;
+  status: DebtStatus;
+  expenseId: string | null;
+  createdAt: string | null;
+  updatedAt: string;
+  payments: ApiDebtPayment[];
+}
+
+// Status implied by how much of a record has been repaid
+export function getDebtStatus(amount: number, paid: number): DebtStatus {
+  if (paid <= 0) return 'pending';
+  return paid >= amount ? 'settled' : 'partially_settled';
+}
+
+// ============================================================================
+// Sync
+// ============================================================================
+
+export const SYNC_TABLES = ['expenses', 'categories', 'budgets', 'settings', 'accounts'] as const;
+export type SyncTable = typeof SYNC_TABLES[number];
+
+// Synced records keep the updatedAt of the device that last changed them,
+// which is what conflicts are resolved on.
+const syncStamp = {
+  id: z.string().min(1),
+  updatedAt: z.coerce.date(),
+};
+
+export const syncRecordSchemas = {
+  expenses: expenseFormSchema.extend({ ...syncStamp, createdAt: z.coerce.date().optional() }),
+  categories: categoryFormSchema.extend(syncStamp),
+  budgets: budgetFormSchema.extend(syncStamp),
+  settings: settingsFormSchema.extend(syncStamp),
+  accounts: accountFormSchema.extend({ ...syncStamp, createdAt: z.coerce.date().optional() }),
+};
+
+export const syncDeletionSchema = z.object({
+  table: z.enum(SYNC_TABLES),
+  id: z.string().min(1),
+  deletedAt: z.coerce.date(),
+});
+
+// Records are validated one by one so a single bad row does not block the rest
+export const syncPushSchema = z.object({
+  expenses: z.array(z.unknown()).default([]),
+  categories: z.array(z.unknown()).default([]),
+  budgets: z.array(z.unknown()).default([]),
+  settings: z.array(z.unknown()).default([]),
+  accounts: z.array(z.unknown()).default([]),
+  deletions: z.array(z.unknown()).default([]),
+});
+
+export type SyncDeletion = z.infer<typeof syncDeletionSchema>;
+export type SyncPush = z.infer<typeof syncPushSchema>;
+
+export interface SyncPushResult {
+  accepted: number;
+  // Valid records not written because the server copy is as new or newer
+  skipped: number;
+  rejected: { table: SyncTable | 'deletions'; id?: string; reason: string }[];
+}
+
+export interface SyncPullResult {
+  serverTime: string;
+  expenses: ExpenseRow[];
+  categories: Category[];
+  budgets: BudgetRow[];
+  settings: SettingsRow[];
+  accounts: AccountRow[];
+  deletions: SyncDeletion[];
+}